@@ -8,7 +8,7 @@ import { Button } from '@/components/ui/button';
 import { ArrowUpRight, TrendingUp, Shield, Zap, DollarSign, Activity, Layers, AlertCircle } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { NearWalletConnect } from '@/components/wallet/near-connect';
-import { useDefiFlow } from '@/lib/hooks/use-defiflow';
+import { Recommendation, useDefiFlow } from '@/lib/hooks/use-defiflow';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
 export default function DeFiFlowDashboard() {
@@ -19,6 +19,9 @@ export default function DeFiFlowDashboard() {
     agentStatus, 
     loading, 
     error,
+    session,
+    signIn,
+    signOut,
     executeRecommendation 
   } = useDefiFlow();
   
@@ -84,11 +87,11 @@ export default function DeFiFlowDashboard() {
     return colors[chain] || 'bg-gray-500';
   };
 
-  const handleExecuteRecommendation = async (recId: string) => {
+  const handleExecuteRecommendation = async (rec: Recommendation) => {
     setExecuting(true);
-    setSelectedRecommendation(recId);
+    setSelectedRecommendation(rec.id);
     try {
-      await executeRecommendation(recId);
+      await executeRecommendation(rec);
       // Show success message
     } catch (err) {
       console.error('Failed to execute recommendation:', err);
@@ -152,6 +155,15 @@ export default function DeFiFlowDashboard() {
                 Agent {agentStatus.isConnected ? 'Connected' : 'Disconnected'}
               </Badge>
             )}
+            {session ? (
+              <Button variant="outline" size="sm" onClick={() => signOut()}>
+                Sign out {session.walletAddress.slice(0, 6)}...{session.walletAddress.slice(-4)}
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => signIn().catch(err => console.error('Failed to sign in:', err))}>
+                Sign in with Ethereum
+              </Button>
+            )}
             <NearWalletConnect />
           </div>
         </motion.div>
@@ -433,7 +445,7 @@ export default function DeFiFlowDashboard() {
                           <Button 
                             size="sm" 
                             className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-                            onClick={() => handleExecuteRecommendation(rec.id)}
+                            onClick={() => handleExecuteRecommendation(rec)}
                             disabled={executing && selectedRecommendation === rec.id}
                           >
                             {executing && selectedRecommendation === rec.id ? (
@@ -0,0 +1,92 @@
+import axios from 'axios';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3140';
+const SESSION_KEY = 'defiflow-session';
+
+export interface AuthSession {
+  token: string;
+  walletAddress: string;
+  chain: 'ethereum' | 'near';
+  expiresAt: string;
+}
+
+interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<any>;
+}
+
+/**
+ * Stored session, or null when signed out or expired
+ */
+export function getSession(): AuthSession | null {
+  if (typeof window === 'undefined') return null;
+
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+
+  const session: AuthSession = JSON.parse(stored);
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+
+  return session;
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(SESSION_KEY);
+}
+
+export function authHeaders(session: AuthSession | null = getSession()): Record<string, string> {
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
+
+/**
+ * Sign in with the browser's Ethereum wallet (EIP-4361): get a nonce from
+ * the agent, have the wallet sign the message and trade it for a session token
+ */
+export async function signInWithEthereum(): Promise<AuthSession> {
+  const provider: Eip1193Provider | undefined = (window as any).ethereum;
+  if (!provider) {
+    throw new Error('No Ethereum wallet found in this browser');
+  }
+
+  const [address] = await provider.request({ method: 'eth_requestAccounts' });
+  const chainId = parseInt(await provider.request({ method: 'eth_chainId' }), 16);
+
+  const challengeResponse = await axios.post(`${API_BASE_URL}/api/auth/challenge`, {
+    walletAddress: address,
+    chain: 'ethereum'
+  });
+  const challenge = challengeResponse.data.data;
+
+  const message = [
+    `${challenge.domain} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    'Sign in to DeFiFlow',
+    '',
+    `URI: ${window.location.origin}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${challenge.nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+    `Expiration Time: ${new Date(challenge.expiresAt).toISOString()}`
+  ].join('\n');
+
+  const signature = await provider.request({ method: 'personal_sign', params: [message, address] });
+
+  const loginResponse = await axios.post(`${API_BASE_URL}/api/auth/login/ethereum`, { message, signature });
+  const session: AuthSession = loginResponse.data.data;
+
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return session;
+}
+
+export async function signOut(): Promise<void> {
+  const session = getSession();
+  clearSession();
+
+  if (session) {
+    await axios.post(`${API_BASE_URL}/api/auth/logout`, {}, { headers: authHeaders(session) }).catch(() => undefined);
+  }
+}
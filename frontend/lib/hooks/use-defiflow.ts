@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import axios from 'axios';
+import { AuthSession, authHeaders, getSession, signInWithEthereum, signOut as endSession } from '../auth';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3140';
 
@@ -41,6 +42,7 @@ export interface Recommendation {
     riskReduction?: number;
   };
   actions: Array<{
+    id?: string;
     type: string;
     fromProtocol: string;
     toProtocol: string;
@@ -48,6 +50,9 @@ export interface Recommendation {
     toChain: string;
     token: string;
     amount: number;
+    estimatedGas?: number;
+    priority?: number;
+    dependencies?: string[];
   }>;
 }
 
@@ -65,6 +70,22 @@ export function useDefiFlow() {
   const [agentStatus, setAgentStatus] = useState<AgentStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
+
+  useEffect(() => {
+    setSession(getSession());
+  }, []);
+
+  const signIn = useCallback(async () => {
+    const signedIn = await signInWithEthereum();
+    setSession(signedIn);
+    return signedIn;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await endSession();
+    setSession(null);
+  }, []);
 
   const fetchAgentStatus = useCallback(async () => {
     try {
@@ -96,12 +117,20 @@ export function useDefiFlow() {
 
   const fetchRecommendations = useCallback(async () => {
     try {
-      const response = await axios.get(`${API_BASE_URL}/rebalance/recommendations`);
-      setRecommendations(response.data.recommendations || []);
+      // Signed-in wallets get recommendations they can execute; everyone else the demo set
+      if (session) {
+        const response = await axios.get(`${API_BASE_URL}/api/rebalance/recommendations/${session.walletAddress}`, {
+          headers: authHeaders(session)
+        });
+        setRecommendations(response.data.data || []);
+      } else {
+        const response = await axios.get(`${API_BASE_URL}/rebalance/recommendations`);
+        setRecommendations(response.data.recommendations || []);
+      }
     } catch (err) {
       console.error('Error fetching recommendations:', err);
     }
-  }, []);
+  }, [session]);
 
   const fetchAll = useCallback(async () => {
     setLoading(true);
@@ -117,11 +146,31 @@ export function useDefiFlow() {
     setLoading(false);
   }, [fetchAgentStatus, fetchYields, fetchPositions, fetchRecommendations]);
 
-  const executeRecommendation = useCallback(async (recommendationId: string) => {
+  const executeRecommendation = useCallback(async (recommendation: Recommendation) => {
     try {
-      const response = await axios.post(`${API_BASE_URL}/rebalance/execute`, {
-        recommendationId
-      });
+      // Executing needs a session for the wallet being rebalanced
+      let current = getSession() ?? await signIn();
+
+      const send = (auth: AuthSession) => axios.post(`${API_BASE_URL}/api/rebalance/execute`, {
+        walletAddress: auth.walletAddress,
+        strategy: recommendation.strategy,
+        actions: recommendation.actions.map((action, index) => ({
+          estimatedGas: 0,
+          priority: index,
+          ...action,
+          id: action.id ?? `${recommendation.id}_${index + 1}`
+        }))
+      }, { headers: authHeaders(auth) });
+
+      let response;
+      try {
+        response = await send(current);
+      } catch (err) {
+        // The session expired or was revoked on the server; sign in again once
+        if (!axios.isAxiosError(err) || err.response?.status !== 401) throw err;
+        current = await signIn();
+        response = await send(current);
+      }
       
       // Refresh data after execution
       await fetchAll();
@@ -131,7 +180,7 @@ export function useDefiFlow() {
       console.error('Error executing recommendation:', err);
       throw err;
     }
-  }, [fetchAll]);
+  }, [fetchAll, signIn]);
 
   const createAlert = useCallback(async (alertConfig: {
     type: 'apy_threshold' | 'risk_change' | 'new_opportunity';
@@ -150,12 +199,43 @@ export function useDefiFlow() {
 
   useEffect(() => {
     fetchAll();
-    
-    // Set up polling for real-time updates
-    const interval = setInterval(fetchAll, 30000); // Refresh every 30 seconds
-    
-    return () => clearInterval(interval);
-  }, [fetchAll]);
+
+    // Fall back to polling where Server-Sent Events are unavailable
+    if (typeof EventSource === 'undefined') {
+      const interval = setInterval(fetchAll, 30000); // Refresh every 30 seconds
+      return () => clearInterval(interval);
+    }
+
+    // The agent status is not streamed, so keep polling it
+    const statusInterval = setInterval(fetchAgentStatus, 30000);
+
+    // EventSource reconnects on its own and resumes via Last-Event-ID. With a
+    // session the stream also carries the wallet's position and rebalance events;
+    // EventSource cannot send headers, so the token goes in the query
+    const query = session
+      ? `?wallet=${encodeURIComponent(session.walletAddress)}&token=${encodeURIComponent(session.token)}`
+      : '';
+    const events = new EventSource(`${API_BASE_URL}/api/stream${query}`);
+    const refreshPortfolio = () => {
+      fetchPositions();
+      fetchRecommendations();
+    };
+
+    events.addEventListener('opportunitiesUpdated', () => {
+      fetchYields();
+      fetchRecommendations();
+    });
+    events.addEventListener('positionsUpdated', refreshPortfolio);
+    events.addEventListener('significantPnlChange', () => fetchPositions());
+    events.addEventListener('rebalanceCompleted', refreshPortfolio);
+    events.addEventListener('rebalanceFailed', refreshPortfolio);
+    events.addEventListener('resync', () => fetchAll());
+
+    return () => {
+      clearInterval(statusInterval);
+      events.close();
+    };
+  }, [session, fetchAll, fetchAgentStatus, fetchYields, fetchPositions, fetchRecommendations]);
 
   return {
     yields,
@@ -165,6 +245,9 @@ export function useDefiFlow() {
     loading,
     error,
     refetch: fetchAll,
+    session,
+    signIn,
+    signOut,
     executeRecommendation,
     createAlert
   };
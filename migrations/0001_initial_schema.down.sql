@@ -0,0 +1,11 @@
+-- 0001: drop initial DeFiFlow schema
+
+DROP TABLE IF EXISTS auto_rebalance_settings;
+DROP TABLE IF EXISTS rebalance_executions;
+DROP TABLE IF EXISTS yield_alerts;
+DROP TABLE IF EXISTS yield_opportunities;
+DROP TABLE IF EXISTS position_history;
+DROP TABLE IF EXISTS positions;
+DROP TABLE IF EXISTS users;
+
+DROP FUNCTION IF EXISTS update_updated_at_column();
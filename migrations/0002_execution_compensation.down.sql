@@ -0,0 +1,3 @@
+-- 0002: drop rebalance compensation plans
+
+ALTER TABLE rebalance_executions DROP COLUMN IF EXISTS compensation;
@@ -0,0 +1,3 @@
+-- 0002: compensation plan for partially completed rebalances
+
+ALTER TABLE rebalance_executions ADD COLUMN IF NOT EXISTS compensation JSONB;
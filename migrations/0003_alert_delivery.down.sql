@@ -0,0 +1,8 @@
+-- 0003: drop alert delivery log and cooldown state
+
+DROP TABLE IF EXISTS alert_deliveries;
+
+ALTER TABLE yield_alerts DROP COLUMN IF EXISTS last_fingerprint;
+ALTER TABLE yield_alerts DROP COLUMN IF EXISTS last_triggered_at;
+ALTER TABLE yield_alerts DROP COLUMN IF EXISTS cooldown_minutes;
+ALTER TABLE yield_alerts DROP COLUMN IF EXISTS destinations;
@@ -0,0 +1,20 @@
+-- 0003: alert destinations, cooldown state and delivery log
+
+ALTER TABLE yield_alerts ADD COLUMN IF NOT EXISTS destinations JSONB;
+ALTER TABLE yield_alerts ADD COLUMN IF NOT EXISTS cooldown_minutes INTEGER;
+ALTER TABLE yield_alerts ADD COLUMN IF NOT EXISTS last_triggered_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE yield_alerts ADD COLUMN IF NOT EXISTS last_fingerprint VARCHAR(64);
+
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_id UUID REFERENCES yield_alerts(id) ON DELETE CASCADE,
+    method VARCHAR(20) NOT NULL, -- email, webhook, push
+    status VARCHAR(20) NOT NULL, -- sent, failed, skipped
+    attempts INTEGER NOT NULL DEFAULT 0,
+    fingerprint VARCHAR(64),
+    is_test BOOLEAN DEFAULT FALSE,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_alert_id ON alert_deliveries(alert_id, created_at);
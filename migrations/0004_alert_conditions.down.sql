@@ -0,0 +1,3 @@
+-- 0004: drop alert condition trees
+
+ALTER TABLE yield_alerts DROP COLUMN IF EXISTS conditions;
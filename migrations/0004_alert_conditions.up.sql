@@ -0,0 +1,3 @@
+-- 0004: condition trees on yield alerts
+
+ALTER TABLE yield_alerts ADD COLUMN IF NOT EXISTS conditions JSONB;
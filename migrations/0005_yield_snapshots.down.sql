@@ -0,0 +1,4 @@
+-- 0005: drop yield time series
+
+DROP INDEX IF EXISTS idx_position_history_position_time;
+DROP TABLE IF EXISTS yield_snapshots;
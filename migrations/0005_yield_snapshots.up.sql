@@ -0,0 +1,17 @@
+-- 0005: yield time series recorded each monitoring cycle
+
+CREATE TABLE IF NOT EXISTS yield_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    opportunity_id VARCHAR(255) NOT NULL, -- YieldOpportunity.id
+    protocol VARCHAR(100) NOT NULL,
+    chain VARCHAR(50) NOT NULL,
+    pool_id VARCHAR(255) NOT NULL,
+    apy DECIMAL(12, 4) NOT NULL,
+    tvl DECIMAL(36, 2) NOT NULL,
+    risk_score INTEGER NOT NULL,
+    timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_yield_snapshots_pool ON yield_snapshots(protocol, pool_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_yield_snapshots_timestamp ON yield_snapshots(timestamp);
+CREATE INDEX IF NOT EXISTS idx_position_history_position_time ON position_history(position_id, timestamp);
@@ -0,0 +1,4 @@
+-- 0006: drop sessions and API keys
+
+DROP TABLE IF EXISTS api_keys;
+DROP TABLE IF EXISTS auth_sessions;
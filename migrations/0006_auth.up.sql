@@ -0,0 +1,28 @@
+-- 0006: wallet sign-in sessions and API keys
+
+CREATE TABLE IF NOT EXISTS auth_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    token_hash VARCHAR(64) NOT NULL UNIQUE, -- sha256 of the bearer token
+    wallet_address VARCHAR(255) NOT NULL,
+    chain VARCHAR(50) NOT NULL, -- ethereum (SIWE) or near (NEP-413)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    key_hash VARCHAR(64) NOT NULL UNIQUE,
+    key_prefix VARCHAR(16) NOT NULL, -- shown in listings to tell keys apart
+    name VARCHAR(100) NOT NULL,
+    wallet_address VARCHAR(255) NOT NULL, -- wallet that created the key
+    chain VARCHAR(50) NOT NULL,
+    scopes TEXT[] NOT NULL, -- read, execute
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_wallet ON auth_sessions(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_api_keys_wallet ON api_keys(wallet_address);
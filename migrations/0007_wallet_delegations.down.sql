@@ -0,0 +1,4 @@
+-- 0007: drop wallet delegations and audit log
+
+DROP TABLE IF EXISTS audit_events;
+DROP TABLE IF EXISTS wallet_delegations;
@@ -0,0 +1,26 @@
+-- 0007: wallet delegations and audit log
+
+CREATE TABLE IF NOT EXISTS wallet_delegations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_wallet VARCHAR(255) NOT NULL, -- wallet being managed
+    delegate_wallet VARCHAR(255) NOT NULL, -- wallet (and its API keys) allowed to act for it
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    action VARCHAR(50) NOT NULL, -- e.g. wallet_access_denied
+    actor_type VARCHAR(20), -- session, apiKey
+    actor_id UUID,
+    actor_wallet VARCHAR(255),
+    target_wallet VARCHAR(255),
+    method VARCHAR(10),
+    path TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_delegations_owner ON wallet_delegations(LOWER(owner_wallet));
+CREATE INDEX IF NOT EXISTS idx_wallet_delegations_delegate ON wallet_delegations(LOWER(delegate_wallet));
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at);
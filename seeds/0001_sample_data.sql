@@ -0,0 +1,13 @@
+-- Sample data for local development
+
+-- Sample users
+INSERT INTO users (wallet_address, chain) VALUES 
+    ('0x1234567890123456789012345678901234567890', 'ethereum'),
+    ('alice.near', 'near')
+ON CONFLICT (wallet_address) DO NOTHING;
+
+-- Insert sample yield opportunities
+INSERT INTO yield_opportunities (external_id, protocol, chain, pool_id, token, apy, tvl, risk_score, min_deposit, fees, metadata) VALUES 
+    ('aave_usdc_eth', 'aave-v3', 'ethereum', 'usdc', 'USDC', 4.25, 800000000, 2, 1, '{"deposit": 0, "withdraw": 0, "management": 0}', '{"poolType": "lending", "autoCompound": false}'),
+    ('ref_near_usdc', 'ref-finance', 'near', 'pool_1', 'USDC', 12.50, 5000000, 4, 10, '{"deposit": 0, "withdraw": 0.003, "management": 0.002}', '{"poolType": "liquidity", "underlying": ["USDC", "NEAR"], "autoCompound": true}')
+ON CONFLICT (external_id) DO NOTHING;
@@ -0,0 +1,39 @@
+import type { EnvironmentConfig } from '../types';
+
+/**
+ * Read the typed environment config from process.env, applying the same
+ * defaults the services fall back to when a variable is unset
+ */
+export function loadEnvironmentConfig(env: NodeJS.ProcessEnv = process.env): EnvironmentConfig {
+  return {
+    NODE_ENV: (env.NODE_ENV as EnvironmentConfig['NODE_ENV']) || 'development',
+    PORT: parseInt(env.PORT || '3000'),
+    LOG_LEVEL: (env.LOG_LEVEL as EnvironmentConfig['LOG_LEVEL']) || 'INFO',
+
+    NETWORK: (env.NETWORK as EnvironmentConfig['NETWORK']) || 'testnet',
+
+    NEAR_RPC_URL: env.NEAR_RPC_URL,
+    NEAR_NETWORK: env.NEAR_NETWORK,
+    NEAR_ACCOUNT_ID: env.NEAR_ACCOUNT_ID || 'defiflow-agent.testnet',
+    NEAR_PRIVATE_KEY: env.NEAR_PRIVATE_KEY,
+
+    ETHEREUM_RPC_URL: env.ETHEREUM_RPC_URL,
+    ETHEREUM_NETWORK: env.ETHEREUM_NETWORK,
+    ETHEREUM_PRIVATE_KEY: env.ETHEREUM_PRIVATE_KEY,
+
+    BSC_RPC_URL: env.BSC_RPC_URL,
+    POLYGON_RPC_URL: env.POLYGON_RPC_URL,
+
+    TEE_ENDPOINT: env.TEE_ENDPOINT || '',
+    TEE_API_KEY: env.TEE_API_KEY,
+
+    DATABASE_URL: env.DATABASE_URL || '',
+    REDIS_URL: env.REDIS_URL || '',
+
+    ENABLE_AUTO_REBALANCING: env.ENABLE_AUTO_REBALANCING === 'true',
+    ENABLE_CROSS_CHAIN: env.ENABLE_CROSS_CHAIN === 'true',
+    ENABLE_YIELD_ALERTS: env.ENABLE_YIELD_ALERTS === 'true',
+    MOCK_BLOCKCHAIN_CALLS: env.MOCK_BLOCKCHAIN_CALLS === 'true',
+    ENABLE_CACHE_PREWARM: env.ENABLE_CACHE_PREWARM === 'true'
+  };
+}
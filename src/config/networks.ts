@@ -0,0 +1,287 @@
+import { isAddress } from 'ethers';
+import type { EnvironmentConfig } from '../types';
+
+/**
+ * Network profiles
+ *
+ * A profile bundles everything that differs between deployments: RPC
+ * endpoints, chain ids, the chain-signature signer contract, protocol
+ * contracts and token lists. The active profile is selected with NETWORK
+ * (mainnet, testnet or local-fork); RPC URLs can still be overridden per chain
+ * with the usual *_RPC_URL variables, except the EVM ones of local-fork.
+ */
+
+export type NetworkName = 'mainnet' | 'testnet' | 'local-fork';
+
+export type EvmChain = 'ethereum' | 'bsc' | 'polygon';
+
+export interface EvmNetworkConfig {
+  name: string; // e.g. 'sepolia'
+  chainId: number;
+  rpcUrl: string;
+  explorerUrl?: string;
+  contracts: Partial<Record<'swapRouter' | 'aaveDataProvider' | 'uniswapPositionManager', string>>;
+  tokens: Record<string, string>; // symbol -> token / protocol contract address
+}
+
+export interface NearNetworkConfig {
+  networkId: 'mainnet' | 'testnet';
+  rpcUrl: string;
+  walletUrl: string;
+  helperUrl: string;
+  signerContract: string; // chain-signature MPC signer
+}
+
+export interface NetworkProfile {
+  name: NetworkName;
+  near: NearNetworkConfig;
+  evm: Record<EvmChain, EvmNetworkConfig>;
+}
+
+const NEAR_MAINNET: NearNetworkConfig = {
+  networkId: 'mainnet',
+  rpcUrl: 'https://rpc.mainnet.near.org',
+  walletUrl: 'https://app.mynearwallet.com',
+  helperUrl: 'https://helper.mainnet.near.org',
+  signerContract: 'v1.signer'
+};
+
+const NEAR_TESTNET: NearNetworkConfig = {
+  networkId: 'testnet',
+  rpcUrl: 'https://rpc.testnet.near.org',
+  walletUrl: 'https://wallet.testnet.near.org',
+  helperUrl: 'https://helper.testnet.near.org',
+  signerContract: 'v1.signer-prod.testnet'
+};
+
+const ETHEREUM_MAINNET: EvmNetworkConfig = {
+  name: 'mainnet',
+  chainId: 1,
+  rpcUrl: 'https://eth.llamarpc.com',
+  explorerUrl: 'https://etherscan.io',
+  contracts: {
+    swapRouter: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', // Uniswap V2 Router
+    aaveDataProvider: '0x7B4EB56E7CD4b454BA8ff71E4518426369a138a3',
+    uniswapPositionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88'
+  },
+  tokens: {
+    'AAVE': '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9',
+    'COMP': '0xc00e94Cb662C3520282E6f5717214004A7f26888',
+    'UNI': '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
+    'CRV': '0xD533a949740bb3306d119CC777fa900bA034cd52',
+    'LIDO': '0x5A98FcBEA516Cf06857215779Fd812CA3beF1B32',
+    'USDC': '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    'WETH': '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+  }
+};
+
+const BSC_MAINNET: EvmNetworkConfig = {
+  name: 'mainnet',
+  chainId: 56,
+  rpcUrl: 'https://bsc-dataseed.binance.org/',
+  explorerUrl: 'https://bscscan.com',
+  contracts: {
+    swapRouter: '0x10ED43C718714eb63d5aA57B78B54704E256024E' // PancakeSwap Router
+  },
+  tokens: {
+    'CAKE': '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82',
+    'XVS': '0xcF6BB5389c92Bdda8a3747Ddb454cB7a64626C63',
+    'ALPACA': '0x8F0528cE5eF7B51152A59745bEfDD91D97091d2F',
+    'BUSD': '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56',
+    'WBNB': '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c'
+  }
+};
+
+const POLYGON_MAINNET: EvmNetworkConfig = {
+  name: 'mainnet',
+  chainId: 137,
+  rpcUrl: 'https://polygon-rpc.com',
+  explorerUrl: 'https://polygonscan.com',
+  contracts: {
+    swapRouter: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff' // QuickSwap Router
+  },
+  tokens: {
+    'QUICK': '0x831753DD7087CaC61aB5644b308642cc1c33Dc13',
+    'AAVE': '0xD6DF932A45C0f255f85145f286eA0b292B21C90B',
+    'CRV': '0x172370d5Cd63279eFa6d502DAB29171933a610AF',
+    'QI': '0x580A84C73811E1839F75d86d75d88cCa0c241fF4',
+    'USDC': '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+    'WMATIC': '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270'
+  }
+};
+
+/**
+ * Local forks (anvil / hardhat) of mainnet keep mainnet contract addresses but
+ * run on localhost with the dev chain id
+ */
+function localFork(config: EvmNetworkConfig, port: number): EvmNetworkConfig {
+  return {
+    ...config,
+    name: 'local-fork',
+    chainId: 31337,
+    rpcUrl: `http://127.0.0.1:${port}`,
+    explorerUrl: undefined
+  };
+}
+
+export const NETWORK_PROFILES: Record<NetworkName, NetworkProfile> = {
+  'mainnet': {
+    name: 'mainnet',
+    near: NEAR_MAINNET,
+    evm: {
+      ethereum: ETHEREUM_MAINNET,
+      bsc: BSC_MAINNET,
+      polygon: POLYGON_MAINNET
+    }
+  },
+  'testnet': {
+    name: 'testnet',
+    near: NEAR_TESTNET,
+    evm: {
+      ethereum: {
+        name: 'sepolia',
+        chainId: 11155111,
+        rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+        explorerUrl: 'https://sepolia.etherscan.io',
+        contracts: {
+          swapRouter: '0xeE567Fe1712Faf6149d80dA1E6934E354124CfE3', // Uniswap V2 Router
+          aaveDataProvider: '0x3e9708d80f7B3e43118013075F7e95CE3AB31F31',
+          uniswapPositionManager: '0x1238536071E1c677A632429e3655c799b22cDA52'
+        },
+        tokens: {
+          'USDC': '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+          'WETH': '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14'
+        }
+      },
+      bsc: {
+        name: 'testnet',
+        chainId: 97,
+        rpcUrl: 'https://data-seed-prebsc-1-s1.binance.org:8545/',
+        explorerUrl: 'https://testnet.bscscan.com',
+        contracts: {
+          swapRouter: '0xD99D1c33F9fC3444f8101754aBC46c52416550D1' // PancakeSwap Router
+        },
+        tokens: {
+          'BUSD': '0xeD24FC36d5Ee211Ea25A80239Fb8C4Cfd80f12Ee',
+          'WBNB': '0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd'
+        }
+      },
+      polygon: {
+        name: 'amoy',
+        chainId: 80002,
+        rpcUrl: 'https://rpc-amoy.polygon.technology',
+        explorerUrl: 'https://amoy.polygonscan.com',
+        contracts: {},
+        tokens: {
+          'USDC': '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582'
+        }
+      }
+    }
+  },
+  'local-fork': {
+    name: 'local-fork',
+    // There is no local NEAR fork; signatures still come from the testnet MPC
+    near: NEAR_TESTNET,
+    evm: {
+      ethereum: localFork(ETHEREUM_MAINNET, 8545),
+      bsc: localFork(BSC_MAINNET, 8546),
+      polygon: localFork(POLYGON_MAINNET, 8547)
+    }
+  }
+};
+
+const RPC_OVERRIDES: Record<EvmChain, string> = {
+  ethereum: 'ETHEREUM_RPC_URL',
+  bsc: 'BSC_RPC_URL',
+  polygon: 'POLYGON_RPC_URL'
+};
+
+/**
+ * Resolve the profile selected by NETWORK (default: testnet) with any RPC
+ * overrides from the environment applied. local-fork keeps its localhost EVM
+ * RPCs: an override left over from a mainnet .env would otherwise send
+ * transactions meant for the fork to the real chain.
+ */
+export function loadNetworkProfile(env: NodeJS.ProcessEnv = process.env): NetworkProfile {
+  const name = (env.NETWORK || 'testnet') as NetworkName;
+  const base = NETWORK_PROFILES[name];
+
+  if (!base) {
+    throw new Error(`Unknown NETWORK "${name}". Use one of: ${Object.keys(NETWORK_PROFILES).join(', ')}`);
+  }
+
+  const evm = { ...base.evm };
+  const evmChains = name === 'local-fork' ? [] : Object.keys(evm) as EvmChain[];
+  for (const chain of evmChains) {
+    const override = env[RPC_OVERRIDES[chain]];
+    if (override) {
+      evm[chain] = { ...evm[chain], rpcUrl: override };
+    }
+  }
+
+  return {
+    ...base,
+    near: { ...base.near, rpcUrl: env.NEAR_RPC_URL || base.near.rpcUrl },
+    evm
+  };
+}
+
+/**
+ * Check a profile against the environment config. Returns a list of problems;
+ * an empty list means the profile is usable.
+ */
+export function validateNetworkProfile(profile: NetworkProfile, config: EnvironmentConfig): string[] {
+  const errors: string[] = [];
+
+  if (config.NODE_ENV === 'production' && profile.name === 'local-fork') {
+    errors.push('The local-fork network cannot be used in production');
+  }
+
+  if (config.NEAR_NETWORK && config.NEAR_NETWORK !== profile.near.networkId) {
+    errors.push(`NEAR_NETWORK=${config.NEAR_NETWORK} does not match the ${profile.name} profile (${profile.near.networkId})`);
+  }
+
+  if (config.ETHEREUM_NETWORK && config.ETHEREUM_NETWORK !== profile.evm.ethereum.name) {
+    errors.push(`ETHEREUM_NETWORK=${config.ETHEREUM_NETWORK} does not match the ${profile.name} profile (${profile.evm.ethereum.name})`);
+  }
+
+  if (!isValidUrl(profile.near.rpcUrl)) {
+    errors.push(`Invalid NEAR RPC URL: ${profile.near.rpcUrl}`);
+  }
+
+  for (const [chain, network] of Object.entries(profile.evm)) {
+    if (!isValidUrl(network.rpcUrl)) {
+      errors.push(`Invalid ${chain} RPC URL: ${network.rpcUrl}`);
+    }
+
+    const addresses = { ...network.contracts, ...network.tokens };
+    for (const [name, address] of Object.entries(addresses)) {
+      if (address && !isAddress(address)) {
+        errors.push(`Invalid ${chain} address for ${name}: ${address}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let activeProfile: NetworkProfile | undefined;
+
+/**
+ * Profile used by the adapters, loaded from the environment on first use
+ */
+export function getNetworkProfile(): NetworkProfile {
+  if (!activeProfile) {
+    activeProfile = loadNetworkProfile();
+  }
+  return activeProfile;
+}
@@ -0,0 +1,119 @@
+import { Database, database } from './db/Database';
+import { CacheStore, cacheStore } from './utils/CacheManager';
+import { EventBus, eventBus } from './utils/EventBus';
+import { RateLimiter, createRateLimiter } from './utils/RateLimiter';
+import { ChainRegistry, createDefaultChainRegistry } from './protocols/ChainRegistry';
+import { YieldMonitoringService } from './services/YieldMonitoringService';
+import { AlertDeliveryService } from './services/AlertDeliveryService';
+import { PositionTrackingService } from './services/PositionTrackingService';
+import { RebalancingService } from './services/RebalancingService';
+import { EventStreamService } from './services/EventStreamService';
+import { AuthService } from './services/AuthService';
+
+type Factory<T, K extends keyof T> = (container: Container<T>) => T[K];
+
+/**
+ * Minimal dependency-injection container. Every registered component is a
+ * lazily created singleton, so all routes and services resolving the same
+ * name share one instance.
+ */
+export class Container<T> {
+  private factories: Map<keyof T, Factory<T, any>> = new Map();
+  private instances: Map<keyof T, any> = new Map();
+  private resolving: Set<keyof T> = new Set();
+
+  register<K extends keyof T>(name: K, factory: Factory<T, K>): this {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+    return this;
+  }
+
+  resolve<K extends keyof T>(name: K): T[K] {
+    if (this.instances.has(name)) {
+      return this.instances.get(name);
+    }
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Nothing registered for ${String(name)}`);
+    }
+
+    if (this.resolving.has(name)) {
+      throw new Error(`Circular dependency while resolving ${String(name)}`);
+    }
+
+    this.resolving.add(name);
+    try {
+      const instance = factory(this);
+      this.instances.set(name, instance);
+      return instance;
+    } finally {
+      this.resolving.delete(name);
+    }
+  }
+}
+
+export interface AppServices {
+  database: Database;
+  cache: CacheStore;
+  events: EventBus;
+  rateLimiter: RateLimiter;
+  chains: ChainRegistry;
+  alertDeliveryService: AlertDeliveryService;
+  yieldMonitoringService: YieldMonitoringService;
+  positionTrackingService: PositionTrackingService;
+  rebalancingService: RebalancingService;
+  eventStreamService: EventStreamService;
+  authService: AuthService;
+}
+
+export function createContainer(): Container<AppServices> {
+  return new Container<AppServices>()
+    .register('database', () => database)
+    .register('cache', () => cacheStore)
+    .register('events', () => eventBus)
+    .register('rateLimiter', () => createRateLimiter())
+    .register('chains', () => createDefaultChainRegistry())
+    .register('alertDeliveryService', () => new AlertDeliveryService())
+    .register('yieldMonitoringService', c => new YieldMonitoringService(
+      c.resolve('chains'),
+      c.resolve('events'),
+      c.resolve('alertDeliveryService'),
+      c.resolve('positionTrackingService')
+    ))
+    .register('positionTrackingService', c => new PositionTrackingService(c.resolve('chains'), c.resolve('events')))
+    .register('rebalancingService', c => new RebalancingService(
+      c.resolve('chains'),
+      c.resolve('yieldMonitoringService'),
+      c.resolve('positionTrackingService'),
+      c.resolve('events')
+    ))
+    .register('eventStreamService', c => new EventStreamService(c.resolve('events')))
+    .register('authService', () => new AuthService());
+}
+
+/**
+ * Bring components up in dependency order: storage, chains, then services.
+ */
+export async function initializeContainer(container: Container<AppServices>): Promise<void> {
+  await container.resolve('database').initialize();
+  await container.resolve('cache').initialize();
+  await container.resolve('chains').initializeAll();
+  await container.resolve('yieldMonitoringService').initialize();
+  await container.resolve('positionTrackingService').initialize();
+  await container.resolve('rebalancingService').initialize();
+  await container.resolve('eventStreamService').initialize();
+}
+
+/**
+ * Tear components down in the reverse order of initializeContainer
+ */
+export async function shutdownContainer(container: Container<AppServices>): Promise<void> {
+  await container.resolve('eventStreamService').shutdown();
+  await container.resolve('rebalancingService').shutdown();
+  await container.resolve('positionTrackingService').shutdown();
+  await container.resolve('yieldMonitoringService').shutdown();
+  await container.resolve('chains').shutdownAll();
+  await container.resolve('cache').shutdown();
+  await container.resolve('database').shutdown();
+}
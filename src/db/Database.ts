@@ -0,0 +1,163 @@
+import { Pool, PoolClient } from 'pg';
+import { createLogger } from '../utils/logger';
+import { Migrator } from './Migrator';
+
+const logger = createLogger('db/Database');
+
+/**
+ * Minimal query surface shared by the pg pool, pg transactions and the
+ * embedded PGlite instance, so repositories don't care which one they get.
+ */
+export interface Queryable {
+  query<T = any>(sql: string, params?: any[]): Promise<T[]>;
+  /** Run a multi-statement SQL script without parameters */
+  exec(sql: string): Promise<void>;
+}
+
+type DatabaseDriver = 'postgres' | 'embedded';
+
+/**
+ * Postgres access for the agent.
+ *
+ * DATABASE_URL selects the backend:
+ *  - postgres://...  a real Postgres server, migrated with `npm run db:migrate`
+ *  - memory://       an in-process PGlite instance, wiped on exit
+ *  - pglite://<dir>  an on-disk PGlite instance stored in <dir>
+ *
+ * Embedded instances apply pending migrations on startup (unless
+ * `migrate: false` is passed) since there is no separate server to run
+ * them against.
+ *
+ * When DATABASE_URL is not set the database stays disabled and services
+ * keep their state in memory only.
+ */
+export class Database {
+  private pool?: Pool;
+  private embedded?: any; // PGlite, loaded lazily so production doesn't pay for the WASM bundle
+  private driver?: DatabaseDriver;
+
+  async initialize(
+    connectionString: string | undefined = process.env.DATABASE_URL,
+    options: { migrate?: boolean } = {}
+  ): Promise<void> {
+    if (this.driver) return;
+
+    if (!connectionString) {
+      logger.warn('DATABASE_URL not set, running without persistence');
+      return;
+    }
+
+    try {
+      if (connectionString.startsWith('memory://') || connectionString.startsWith('pglite://')) {
+        const dataDir = connectionString.startsWith('pglite://')
+          ? connectionString.substring('pglite://'.length)
+          : undefined;
+
+        const { PGlite } = await import('@electric-sql/pglite');
+        const { uuid_ossp } = await import('@electric-sql/pglite/contrib/uuid_ossp');
+
+        this.embedded = await PGlite.create({ dataDir, extensions: { uuid_ossp } });
+        this.driver = 'embedded';
+
+        if (options.migrate !== false) {
+          await new Migrator(this).up();
+        }
+
+        logger.info(`Database connected (embedded${dataDir ? `: ${dataDir}` : ', in-memory'})`);
+      } else {
+        this.pool = new Pool({ connectionString });
+        await this.pool.query('SELECT 1');
+        this.driver = 'postgres';
+
+        logger.info('Database connected (postgres)');
+      }
+    } catch (error) {
+      logger.error('Failed to connect to database:', error);
+      await this.shutdown();
+      throw error;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.driver !== undefined;
+  }
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    if (this.driver === 'embedded') {
+      const result = await this.embedded.query(sql, params);
+      return result.rows as T[];
+    }
+
+    if (this.driver === 'postgres') {
+      const result = await this.pool!.query(sql, params);
+      return result.rows as T[];
+    }
+
+    throw new Error('Database not initialized');
+  }
+
+  async exec(sql: string): Promise<void> {
+    if (this.driver === 'embedded') {
+      await this.embedded.exec(sql);
+      return;
+    }
+
+    if (this.driver === 'postgres') {
+      await this.pool!.query(sql);
+      return;
+    }
+
+    throw new Error('Database not initialized');
+  }
+
+  /**
+   * Run `work` inside a single transaction. Everything issued through the
+   * provided client is committed together or rolled back on error.
+   */
+  async transaction<T>(work: (client: Queryable) => Promise<T>): Promise<T> {
+    if (this.driver === 'embedded') {
+      return this.embedded.transaction(async (tx: any) => work({
+        query: async <R = any>(sql: string, params: any[] = []) => (await tx.query(sql, params)).rows as R[],
+        exec: async (sql: string) => { await tx.exec(sql); }
+      }));
+    }
+
+    if (this.driver === 'postgres') {
+      const client: PoolClient = await this.pool!.connect();
+
+      try {
+        await client.query('BEGIN');
+        const result = await work({
+          query: async <R = any>(sql: string, params: any[] = []) => (await client.query(sql, params)).rows as R[],
+          exec: async (sql: string) => { await client.query(sql); }
+        });
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    }
+
+    throw new Error('Database not initialized');
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = undefined;
+    }
+
+    if (this.embedded) {
+      await this.embedded.close();
+      this.embedded = undefined;
+    }
+
+    this.driver = undefined;
+  }
+}
+
+// Singleton instance
+export const database = new Database();
@@ -0,0 +1,164 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createLogger } from '../utils/logger';
+import type { Database } from './Database';
+
+const logger = createLogger('db/Migrator');
+
+export interface Migration {
+  version: string;
+  name: string;
+  upPath: string;
+  downPath?: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied: boolean;
+  appliedAt?: Date;
+}
+
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.up\.sql$/;
+
+/**
+ * Applies the versioned SQL files in `migrations/` in order.
+ *
+ * Each migration is a `NNNN_name.up.sql` file with an optional matching
+ * `NNNN_name.down.sql`. Applied versions are recorded in schema_migrations
+ * and every migration runs in its own transaction together with that record.
+ */
+export class Migrator {
+  constructor(
+    private db: Database,
+    private migrationsDir: string = join(process.cwd(), 'migrations'),
+    private seedsDir: string = join(process.cwd(), 'seeds')
+  ) {}
+
+  /**
+   * Apply all pending migrations. Returns the versions that were applied.
+   */
+  async up(): Promise<string[]> {
+    await this.ensureMigrationsTable();
+
+    const applied = await this.getAppliedVersions();
+    const pending = this.loadMigrations().filter(m => !applied.has(m.version));
+
+    for (const migration of pending) {
+      await this.db.transaction(async (client) => {
+        await client.exec(readFileSync(migration.upPath, 'utf8'));
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+      });
+
+      logger.info(`Applied migration ${migration.version}_${migration.name}`);
+    }
+
+    return pending.map(m => m.version);
+  }
+
+  /**
+   * Roll back the most recently applied migrations. Returns the versions rolled back.
+   */
+  async down(steps: number = 1): Promise<string[]> {
+    await this.ensureMigrationsTable();
+
+    const migrations = new Map(this.loadMigrations().map(m => [m.version, m]));
+    const applied = await this.db.query<{ version: string }>(
+      'SELECT version FROM schema_migrations ORDER BY version DESC LIMIT $1',
+      [steps]
+    );
+
+    const rolledBack: string[] = [];
+
+    for (const { version } of applied) {
+      const migration = migrations.get(version);
+      if (!migration?.downPath) {
+        throw new Error(`Migration ${version} has no down file`);
+      }
+
+      await this.db.transaction(async (client) => {
+        await client.exec(readFileSync(migration.downPath!, 'utf8'));
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [version]);
+      });
+
+      logger.info(`Rolled back migration ${migration.version}_${migration.name}`);
+      rolledBack.push(version);
+    }
+
+    return rolledBack;
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationsTable();
+
+    const rows = await this.db.query<{ version: string; applied_at: Date }>(
+      'SELECT version, applied_at FROM schema_migrations'
+    );
+    const appliedAt = new Map(rows.map(row => [row.version, new Date(row.applied_at)]));
+
+    return this.loadMigrations().map(m => ({
+      version: m.version,
+      name: m.name,
+      applied: appliedAt.has(m.version),
+      appliedAt: appliedAt.get(m.version)
+    }));
+  }
+
+  /**
+   * Run every seed file in `seeds/` in name order. Seeds are expected to be
+   * idempotent (e.g. ON CONFLICT DO NOTHING) since they are not tracked.
+   */
+  async seed(): Promise<string[]> {
+    if (!existsSync(this.seedsDir)) {
+      return [];
+    }
+
+    const files = readdirSync(this.seedsDir).filter(f => f.endsWith('.sql')).sort();
+
+    for (const file of files) {
+      await this.db.transaction(async (client) => {
+        await client.exec(readFileSync(join(this.seedsDir, file), 'utf8'));
+      });
+
+      logger.info(`Applied seed ${file}`);
+    }
+
+    return files;
+  }
+
+  private loadMigrations(): Migration[] {
+    const files = readdirSync(this.migrationsDir);
+
+    return files
+      .map(file => file.match(MIGRATION_FILE))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(([file, version, name]) => {
+        const downFile = file.replace(/\.up\.sql$/, '.down.sql');
+        return {
+          version,
+          name,
+          upPath: join(this.migrationsDir, file),
+          downPath: files.includes(downFile) ? join(this.migrationsDir, downFile) : undefined
+        };
+      })
+      .sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  private async getAppliedVersions(): Promise<Set<string>> {
+    const rows = await this.db.query<{ version: string }>('SELECT version FROM schema_migrations');
+    return new Set(rows.map(row => row.version));
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(4) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+  }
+}
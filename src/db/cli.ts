@@ -0,0 +1,71 @@
+/**
+ * Database CLI
+ *
+ * Usage:
+ *   tsx src/db/cli.ts up             apply pending migrations
+ *   tsx src/db/cli.ts down [steps]   roll back the last [steps] migrations (default 1)
+ *   tsx src/db/cli.ts status         list migrations and whether they are applied
+ *   tsx src/db/cli.ts seed           load development sample data
+ */
+import dotenv from 'dotenv';
+import { database } from './Database';
+import { Migrator } from './Migrator';
+
+dotenv.config();
+
+async function main() {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is not set');
+  }
+
+  await database.initialize(process.env.DATABASE_URL, { migrate: false });
+  const migrator = new Migrator(database);
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrator.up();
+        console.log(applied.length > 0
+          ? `✅ Applied ${applied.length} migration(s): ${applied.join(', ')}`
+          : '✅ Database is up to date');
+        break;
+      }
+      case 'down': {
+        const steps = parseInt(arg || '1');
+        if (isNaN(steps) || steps < 1) {
+          throw new Error(`Invalid number of steps: ${arg}`);
+        }
+
+        const rolledBack = await migrator.down(steps);
+        console.log(rolledBack.length > 0
+          ? `✅ Rolled back ${rolledBack.length} migration(s): ${rolledBack.join(', ')}`
+          : '✅ Nothing to roll back');
+        break;
+      }
+      case 'status': {
+        const status = await migrator.status();
+        for (const migration of status) {
+          const state = migration.applied ? `applied ${migration.appliedAt?.toISOString()}` : 'pending';
+          console.log(`${migration.applied ? '✅' : '⏳'} ${migration.version}_${migration.name} (${state})`);
+        }
+        break;
+      }
+      case 'seed': {
+        const seeds = await migrator.seed();
+        console.log(`✅ Applied ${seeds.length} seed file(s)`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command}. Use up, down, status or seed`);
+    }
+  } finally {
+    await database.shutdown();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Database command failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
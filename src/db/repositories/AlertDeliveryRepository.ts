@@ -0,0 +1,66 @@
+import { Database, database } from '../Database';
+import type { AlertDelivery } from '../../services/AlertDeliveryService';
+
+interface DeliveryRow {
+  id: string;
+  alert_id: string;
+  method: AlertDelivery['method'];
+  status: AlertDelivery['status'];
+  attempts: number;
+  fingerprint: string | null;
+  is_test: boolean;
+  error_message: string | null;
+  created_at: Date;
+}
+
+export class AlertDeliveryRepository {
+  constructor(private db: Database = database) {}
+
+  async record(delivery: AlertDelivery): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.query(
+      `INSERT INTO alert_deliveries (id, alert_id, method, status, attempts, fingerprint, is_test, error_message, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        delivery.id,
+        delivery.alertId,
+        delivery.method,
+        delivery.status,
+        delivery.attempts,
+        delivery.fingerprint ?? null,
+        delivery.test,
+        delivery.error ?? null,
+        delivery.createdAt
+      ]
+    );
+  }
+
+  async findByAlert(alertId: string, limit: number): Promise<AlertDelivery[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const rows = await this.db.query<DeliveryRow>(
+      `SELECT * FROM alert_deliveries
+       WHERE alert_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [alertId, limit]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      alertId: row.alert_id,
+      method: row.method,
+      status: row.status,
+      attempts: row.attempts,
+      fingerprint: row.fingerprint ?? undefined,
+      test: row.is_test,
+      error: row.error_message ?? undefined,
+      createdAt: new Date(row.created_at)
+    }));
+  }
+}
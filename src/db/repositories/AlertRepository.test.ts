@@ -0,0 +1,64 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { Database } from '../Database';
+import { AlertRepository } from './AlertRepository';
+import { UserRepository } from './UserRepository';
+import type { YieldAlert } from '../../services/YieldMonitoringService';
+
+function alert(overrides: Partial<YieldAlert> = {}): YieldAlert {
+  return {
+    id: randomUUID(),
+    walletAddress: 'alice.testnet',
+    minApy: 8,
+    maxRisk: 5,
+    protocols: ['ref-finance'],
+    alertMethods: ['webhook'],
+    destinations: { webhookUrl: 'https://hooks.example.com/defiflow', webhookSecret: 'whsec_test' },
+    cooldownMinutes: 30,
+    isActive: true,
+    createdAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('AlertRepository', () => {
+  const db = new Database();
+  const repository = new AlertRepository(db, new UserRepository());
+
+  before(() => db.initialize('memory://'));
+  after(() => db.shutdown());
+
+  it('saves an alert with its destinations and condition tree', async () => {
+    const saved = alert({
+      conditions: { all: [{ metric: 'apy', op: '>', value: 10, pool: { chain: 'near' } }] }
+    });
+    await repository.save(saved);
+
+    const loaded = (await repository.loadAll()).find(a => a.id === saved.id);
+    assert.deepEqual(loaded?.destinations, saved.destinations);
+    assert.deepEqual(loaded?.conditions, saved.conditions);
+    assert.equal(loaded?.minApy, 8);
+  });
+
+  it('keeps delivery state across updates', async () => {
+    const saved = alert();
+    await repository.save(saved);
+
+    const triggeredAt = new Date();
+    await repository.save({ ...saved, lastTriggeredAt: triggeredAt, lastFingerprint: 'ref-usdc', isActive: false });
+
+    const loaded = (await repository.loadAll()).find(a => a.id === saved.id);
+    assert.equal(loaded?.lastTriggeredAt?.getTime(), triggeredAt.getTime());
+    assert.equal(loaded?.lastFingerprint, 'ref-usdc');
+    assert.equal(loaded?.isActive, false);
+  });
+
+  it('deletes alerts', async () => {
+    const saved = alert();
+    await repository.save(saved);
+    await repository.delete(saved.id);
+
+    assert.equal((await repository.loadAll()).some(a => a.id === saved.id), false);
+  });
+});
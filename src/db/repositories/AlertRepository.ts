@@ -0,0 +1,112 @@
+import { Database, database } from '../Database';
+import { UserRepository, userRepository } from './UserRepository';
+import type { YieldAlert } from '../../services/YieldMonitoringService';
+
+interface AlertRow {
+  id: string;
+  wallet_address: string;
+  min_apy: string;
+  max_risk: number;
+  protocols: string[] | null;
+  alert_methods: YieldAlert['alertMethods'];
+  destinations: YieldAlert['destinations'] | null;
+  conditions: YieldAlert['conditions'] | null;
+  cooldown_minutes: number | null;
+  is_active: boolean;
+  created_at: Date;
+  last_triggered_at: Date | null;
+  last_fingerprint: string | null;
+}
+
+export class AlertRepository {
+  constructor(
+    private db: Database = database,
+    private users: UserRepository = userRepository
+  ) {}
+
+  async loadAll(): Promise<YieldAlert[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const rows = await this.db.query<AlertRow>(
+      `SELECT a.*, u.wallet_address
+       FROM yield_alerts a
+       JOIN users u ON u.id = a.user_id
+       ORDER BY a.created_at`
+    );
+
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async save(alert: YieldAlert): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      const userId = await this.users.ensureUser(client, alert.walletAddress);
+
+      await client.query(
+        `INSERT INTO yield_alerts (
+           id, user_id, min_apy, max_risk, protocols, alert_methods, is_active, created_at,
+           destinations, cooldown_minutes, last_triggered_at, last_fingerprint, conditions
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         ON CONFLICT (id) DO UPDATE SET
+           min_apy = EXCLUDED.min_apy,
+           max_risk = EXCLUDED.max_risk,
+           protocols = EXCLUDED.protocols,
+           alert_methods = EXCLUDED.alert_methods,
+           is_active = EXCLUDED.is_active,
+           destinations = EXCLUDED.destinations,
+           cooldown_minutes = EXCLUDED.cooldown_minutes,
+           last_triggered_at = EXCLUDED.last_triggered_at,
+           last_fingerprint = EXCLUDED.last_fingerprint,
+           conditions = EXCLUDED.conditions`,
+        [
+          alert.id,
+          userId,
+          alert.minApy,
+          alert.maxRisk,
+          alert.protocols ?? null,
+          alert.alertMethods,
+          alert.isActive,
+          alert.createdAt,
+          alert.destinations ? JSON.stringify(alert.destinations) : null,
+          alert.cooldownMinutes ?? null,
+          alert.lastTriggeredAt ?? null,
+          alert.lastFingerprint ?? null,
+          alert.conditions ? JSON.stringify(alert.conditions) : null
+        ]
+      );
+    });
+  }
+
+  async delete(alertId: string): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      await client.query('DELETE FROM yield_alerts WHERE id = $1', [alertId]);
+    });
+  }
+
+  private fromRow(row: AlertRow): YieldAlert {
+    return {
+      id: row.id,
+      walletAddress: row.wallet_address,
+      minApy: Number(row.min_apy),
+      maxRisk: row.max_risk,
+      protocols: row.protocols ?? undefined,
+      alertMethods: row.alert_methods,
+      destinations: row.destinations ?? undefined,
+      conditions: row.conditions ?? undefined,
+      cooldownMinutes: row.cooldown_minutes ?? undefined,
+      isActive: row.is_active,
+      createdAt: new Date(row.created_at),
+      lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at) : undefined,
+      lastFingerprint: row.last_fingerprint ?? undefined
+    };
+  }
+}
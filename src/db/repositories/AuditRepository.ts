@@ -0,0 +1,27 @@
+import { Database, database } from '../Database';
+import type { AuditEvent } from '../../services/AuthService';
+
+export class AuditRepository {
+  constructor(private db: Database = database) {}
+
+  async record(event: AuditEvent): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.query(
+      `INSERT INTO audit_events (action, actor_type, actor_id, actor_wallet, target_wallet, method, path, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        event.action,
+        event.actor?.type ?? null,
+        event.actor?.id ?? null,
+        event.actor?.walletAddress ?? null,
+        event.targetWallet,
+        event.method,
+        event.path,
+        event.timestamp
+      ]
+    );
+  }
+}
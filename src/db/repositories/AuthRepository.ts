@@ -0,0 +1,212 @@
+import { Database, database } from '../Database';
+import type { ApiKey, AuthScope, Delegation, Session } from '../../services/AuthService';
+
+interface SessionRow {
+  id: string;
+  token_hash: string;
+  wallet_address: string;
+  chain: Session['chain'];
+  created_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
+
+interface ApiKeyRow {
+  id: string;
+  key_hash: string;
+  key_prefix: string;
+  name: string;
+  wallet_address: string;
+  chain: ApiKey['chain'];
+  scopes: AuthScope[];
+  created_at: Date;
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+interface DelegationRow {
+  id: string;
+  owner_wallet: string;
+  delegate_wallet: string;
+  created_at: Date;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+}
+
+export class AuthRepository {
+  constructor(private db: Database = database) {}
+
+  isEnabled(): boolean {
+    return this.db.isEnabled();
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.query(
+      `INSERT INTO auth_sessions (id, token_hash, wallet_address, chain, created_at, expires_at, revoked_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        session.id,
+        session.tokenHash,
+        session.walletAddress,
+        session.chain,
+        session.createdAt,
+        session.expiresAt,
+        session.revokedAt ?? null
+      ]
+    );
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.query('UPDATE auth_sessions SET revoked_at = NOW() WHERE id = $1', [id]);
+  }
+
+  async findSession(tokenHash: string): Promise<Session | null> {
+    if (!this.db.isEnabled()) {
+      return null;
+    }
+
+    const rows = await this.db.query<SessionRow>(
+      'SELECT * FROM auth_sessions WHERE token_hash = $1',
+      [tokenHash]
+    );
+
+    return rows[0] ? this.sessionFromRow(rows[0]) : null;
+  }
+
+  async saveApiKey(key: ApiKey): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.query(
+      `INSERT INTO api_keys (
+         id, key_hash, key_prefix, name, wallet_address, chain, scopes, created_at, expires_at, last_used_at, revoked_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (id) DO UPDATE SET
+         last_used_at = EXCLUDED.last_used_at,
+         revoked_at = EXCLUDED.revoked_at`,
+      [
+        key.id,
+        key.keyHash,
+        key.prefix,
+        key.name,
+        key.walletAddress,
+        key.chain,
+        key.scopes,
+        key.createdAt,
+        key.expiresAt ?? null,
+        key.lastUsedAt ?? null,
+        key.revokedAt ?? null
+      ]
+    );
+  }
+
+  async findApiKey(keyHash: string): Promise<ApiKey | null> {
+    if (!this.db.isEnabled()) {
+      return null;
+    }
+
+    const rows = await this.db.query<ApiKeyRow>('SELECT * FROM api_keys WHERE key_hash = $1', [keyHash]);
+
+    return rows[0] ? this.apiKeyFromRow(rows[0]) : null;
+  }
+
+  async findApiKeysByWallet(walletAddress: string): Promise<ApiKey[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const rows = await this.db.query<ApiKeyRow>(
+      `SELECT * FROM api_keys
+       WHERE wallet_address = $1 AND revoked_at IS NULL
+       ORDER BY created_at`,
+      [walletAddress]
+    );
+
+    return rows.map(row => this.apiKeyFromRow(row));
+  }
+
+  async saveDelegation(delegation: Delegation): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.query(
+      `INSERT INTO wallet_delegations (id, owner_wallet, delegate_wallet, created_at, expires_at, revoked_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE SET revoked_at = EXCLUDED.revoked_at`,
+      [
+        delegation.id,
+        delegation.ownerWallet,
+        delegation.delegateWallet,
+        delegation.createdAt,
+        delegation.expiresAt ?? null,
+        delegation.revokedAt ?? null
+      ]
+    );
+  }
+
+  /**
+   * Unrevoked delegations the wallet granted or received (wallets compare
+   * case-insensitively)
+   */
+  async findDelegations(walletAddress: string): Promise<Delegation[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const rows = await this.db.query<DelegationRow>(
+      `SELECT * FROM wallet_delegations
+       WHERE (LOWER(owner_wallet) = LOWER($1) OR LOWER(delegate_wallet) = LOWER($1))
+         AND revoked_at IS NULL
+       ORDER BY created_at`,
+      [walletAddress]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      ownerWallet: row.owner_wallet,
+      delegateWallet: row.delegate_wallet,
+      createdAt: new Date(row.created_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined
+    }));
+  }
+
+  private sessionFromRow(row: SessionRow): Session {
+    return {
+      id: row.id,
+      tokenHash: row.token_hash,
+      walletAddress: row.wallet_address,
+      chain: row.chain,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined
+    };
+  }
+
+  private apiKeyFromRow(row: ApiKeyRow): ApiKey {
+    return {
+      id: row.id,
+      keyHash: row.key_hash,
+      prefix: row.key_prefix,
+      name: row.name,
+      walletAddress: row.wallet_address,
+      chain: row.chain,
+      scopes: row.scopes,
+      createdAt: new Date(row.created_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined
+    };
+  }
+}
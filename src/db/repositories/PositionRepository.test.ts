@@ -0,0 +1,76 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Database } from '../Database';
+import { PositionRepository } from './PositionRepository';
+import { UserRepository } from './UserRepository';
+import type { Position } from '../../services/PositionTrackingService';
+
+const WALLET = '0x' + 'cd'.repeat(20);
+
+function position(overrides: Partial<Position> = {}): Position {
+  return {
+    id: 'pos_1',
+    walletAddress: WALLET,
+    chain: 'ethereum',
+    protocol: 'aave-v3',
+    positionType: 'lending',
+    tokenAddress: '0x' + '11'.repeat(20),
+    tokenSymbol: 'USDC',
+    amount: 1000,
+    value: 1000,
+    apy: 4.2,
+    rewards: [{ token: 'AAVE', amount: 0.1, value: 9 }],
+    riskScore: 3,
+    entryPrice: 1,
+    currentPrice: 1,
+    pnl: 0,
+    pnlPercentage: 0,
+    lastUpdated: new Date(),
+    metadata: { poolId: 'aave_usdc_lending', healthFactor: 1.8 },
+    ...overrides
+  };
+}
+
+describe('PositionRepository', () => {
+  const db = new Database();
+  const repository = new PositionRepository(db, new UserRepository());
+
+  before(() => db.initialize('memory://'));
+  after(() => db.shutdown());
+
+  it('saves positions and loads them back per wallet, rewards included', async () => {
+    await repository.saveMany([position(), position({ id: 'pos_2', tokenSymbol: 'DAI' })]);
+
+    // Saved in one transaction, so both rows have the same created_at
+    const loaded = (await repository.loadActive()).get(WALLET) ?? [];
+    const first = loaded.find(p => p.id === 'pos_1');
+    assert.deepEqual(loaded.map(p => p.id).sort(), ['pos_1', 'pos_2']);
+    assert.deepEqual(first?.rewards, [{ token: 'AAVE', amount: 0.1, value: 9 }]);
+    assert.equal(first?.metadata.healthFactor, 1.8);
+  });
+
+  it('updates an existing position instead of duplicating it', async () => {
+    await repository.saveMany([position({ amount: 1500, value: 1500 })]);
+
+    const loaded = (await repository.loadActive()).get(WALLET)!.filter(p => p.id === 'pos_1');
+    assert.equal(loaded.length, 1);
+    assert.equal(loaded[0].amount, 1500);
+  });
+
+  it('averages history per bucket', async () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    await repository.recordHistory([position({ value: 1000 })], start);
+    await repository.recordHistory([position({ value: 2000 })], new Date(start.getTime() + 60 * 1000));
+
+    const history = await repository.findHistory(WALLET, 'pos_1', start, 3600);
+    assert.equal(history.length, 1);
+    assert.equal(history[0].value, 1500);
+  });
+
+  it('stops loading deactivated positions', async () => {
+    await repository.deactivate(WALLET, 'pos_2');
+
+    const loaded = (await repository.loadActive()).get(WALLET) ?? [];
+    assert.deepEqual(loaded.map(p => p.id), ['pos_1']);
+  });
+});
@@ -0,0 +1,240 @@
+import { Database, database } from '../Database';
+import { UserRepository, userRepository } from './UserRepository';
+import type { Position, PositionHistory } from '../../services/PositionTrackingService';
+
+interface PositionRow {
+  position_external_id: string;
+  wallet_address: string;
+  protocol: string;
+  chain: Position['chain'];
+  position_type: Position['positionType'];
+  token_address: string;
+  token_symbol: string;
+  amount: string;
+  value_usd: string;
+  apy: string;
+  risk_score: number;
+  entry_price: string;
+  current_price: string;
+  pnl: string;
+  pnl_percentage: string;
+  lock_period: number | null;
+  unlock_date: Date | null;
+  metadata: (Position['metadata'] & { rewards?: Position['rewards'] }) | null;
+  updated_at: Date;
+}
+
+interface HistoryBucketRow {
+  bucket: Date;
+  value_usd: string;
+  apy: string;
+  pnl: string;
+  rewards_value: string;
+}
+
+export class PositionRepository {
+  constructor(
+    private db: Database = database,
+    private users: UserRepository = userRepository
+  ) {}
+
+  /**
+   * Load every active position, grouped by wallet address
+   */
+  async loadActive(): Promise<Map<string, Position[]>> {
+    const positions = new Map<string, Position[]>();
+
+    if (!this.db.isEnabled()) {
+      return positions;
+    }
+
+    const rows = await this.db.query<PositionRow>(
+      `SELECT p.*, u.wallet_address
+       FROM positions p
+       JOIN users u ON u.id = p.user_id
+       WHERE p.is_active = TRUE
+       ORDER BY p.created_at`
+    );
+
+    for (const row of rows) {
+      const position = this.fromRow(row);
+      const walletPositions = positions.get(position.walletAddress) || [];
+      walletPositions.push(position);
+      positions.set(position.walletAddress, walletPositions);
+    }
+
+    return positions;
+  }
+
+  /**
+   * Insert or update the given positions in a single transaction
+   */
+  async saveMany(positions: Position[]): Promise<void> {
+    if (!this.db.isEnabled() || positions.length === 0) {
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      for (const position of positions) {
+        const userId = await this.users.ensureUser(client, position.walletAddress, position.chain);
+        const values = [
+          position.protocol,
+          position.chain,
+          position.positionType,
+          position.tokenAddress,
+          position.tokenSymbol.substring(0, 20),
+          position.amount,
+          position.value,
+          position.apy,
+          this.clampRiskScore(position.riskScore),
+          position.entryPrice,
+          position.currentPrice,
+          position.pnl,
+          position.pnlPercentage,
+          position.lockPeriod ?? null,
+          position.unlockDate ?? null,
+          // The schema has no rewards column, so rewards ride along in metadata
+          JSON.stringify({ ...position.metadata, rewards: position.rewards })
+        ];
+
+        const updated = await client.query(
+          `UPDATE positions SET
+             protocol = $3, chain = $4, position_type = $5, token_address = $6, token_symbol = $7,
+             amount = $8, value_usd = $9, apy = $10, risk_score = $11, entry_price = $12,
+             current_price = $13, pnl = $14, pnl_percentage = $15, lock_period = $16,
+             unlock_date = $17, metadata = $18, is_active = TRUE
+           WHERE position_external_id = $1 AND user_id = $2
+           RETURNING id`,
+          [position.id, userId, ...values]
+        );
+
+        if (updated.length === 0) {
+          await client.query(
+            `INSERT INTO positions (
+               position_external_id, user_id, protocol, chain, position_type, token_address, token_symbol,
+               amount, value_usd, apy, risk_score, entry_price, current_price, pnl, pnl_percentage,
+               lock_period, unlock_date, metadata
+             ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
+            [position.id, userId, ...values]
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Append a `position_history` row for each position, all stamped with the same time
+   */
+  async recordHistory(positions: Position[], timestamp: Date = new Date()): Promise<void> {
+    if (!this.db.isEnabled() || positions.length === 0) {
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      for (const position of positions) {
+        await client.query(
+          `INSERT INTO position_history (position_id, value_usd, apy, current_price, pnl, rewards_value, timestamp)
+           SELECT p.id, $3, $4, $5, $6, $7, $8
+           FROM positions p
+           JOIN users u ON u.id = p.user_id
+           WHERE p.position_external_id = $1 AND u.wallet_address = $2`,
+          [
+            position.id,
+            position.walletAddress,
+            position.value,
+            position.apy,
+            position.currentPrice,
+            position.pnl,
+            position.rewards?.reduce((sum, reward) => sum + reward.value, 0) || 0,
+            timestamp
+          ]
+        );
+      }
+    });
+  }
+
+  /**
+   * Averages per bucket of `bucketSeconds` for one of a wallet's positions since `since`
+   */
+  async findHistory(
+    walletAddress: string,
+    positionId: string,
+    since: Date,
+    bucketSeconds: number
+  ): Promise<PositionHistory[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const rows = await this.db.query<HistoryBucketRow>(
+      `SELECT to_timestamp(floor(extract(epoch FROM h.timestamp) / $4) * $4) AS bucket,
+              AVG(h.value_usd) AS value_usd, AVG(h.apy) AS apy, AVG(h.pnl) AS pnl,
+              AVG(h.rewards_value) AS rewards_value
+       FROM position_history h
+       JOIN positions p ON p.id = h.position_id
+       JOIN users u ON u.id = p.user_id
+       WHERE p.position_external_id = $1 AND u.wallet_address = $2 AND h.timestamp >= $3
+       GROUP BY bucket
+       ORDER BY bucket`,
+      [positionId, walletAddress, since, bucketSeconds]
+    );
+
+    return rows.map(row => ({
+      positionId,
+      timestamp: new Date(row.bucket),
+      value: Number(row.value_usd),
+      apy: Number(row.apy),
+      pnl: Number(row.pnl),
+      rewards: Number(row.rewards_value)
+    }));
+  }
+
+  /**
+   * Mark a position as no longer tracked. History rows are kept.
+   */
+  async deactivate(walletAddress: string, positionId: string): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      await client.query(
+        `UPDATE positions SET is_active = FALSE
+         WHERE position_external_id = $1
+           AND user_id = (SELECT id FROM users WHERE wallet_address = $2)`,
+        [positionId, walletAddress]
+      );
+    });
+  }
+
+  private fromRow(row: PositionRow): Position {
+    const { rewards, ...metadata } = row.metadata || {};
+
+    return {
+      id: row.position_external_id,
+      walletAddress: row.wallet_address,
+      chain: row.chain,
+      protocol: row.protocol,
+      positionType: row.position_type,
+      tokenAddress: row.token_address,
+      tokenSymbol: row.token_symbol,
+      amount: Number(row.amount),
+      value: Number(row.value_usd),
+      apy: Number(row.apy),
+      rewards,
+      riskScore: row.risk_score,
+      entryPrice: Number(row.entry_price),
+      currentPrice: Number(row.current_price),
+      pnl: Number(row.pnl),
+      pnlPercentage: Number(row.pnl_percentage),
+      lockPeriod: row.lock_period ?? undefined,
+      unlockDate: row.unlock_date ?? undefined,
+      lastUpdated: new Date(row.updated_at),
+      metadata
+    };
+  }
+
+  private clampRiskScore(riskScore: number): number {
+    return Math.max(1, Math.min(10, Math.round(riskScore)));
+  }
+}
@@ -0,0 +1,97 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { Database } from '../Database';
+import { RebalanceRepository } from './RebalanceRepository';
+import { UserRepository } from './UserRepository';
+import type { AutoRebalanceSettings, RebalanceExecution } from '../../services/RebalancingService';
+
+const WALLET = '0x' + 'ab'.repeat(20);
+
+function execution(overrides: Partial<RebalanceExecution> = {}): RebalanceExecution {
+  return {
+    id: randomUUID(),
+    walletAddress: WALLET,
+    strategy: 'yield_optimization',
+    status: 'completed',
+    actions: [{
+      id: 'withdraw',
+      type: 'withdraw',
+      fromProtocol: 'aave-v3',
+      toProtocol: 'aave-v3',
+      toChain: 'ethereum',
+      token: 'USDC',
+      amount: 1000,
+      estimatedGas: 150000,
+      priority: 1
+    }],
+    transactions: [{ actionId: 'withdraw', status: 'confirmed', txHash: '0x01', timestamp: new Date() }],
+    results: { totalGasUsed: 150000, totalValue: 1000, apyImprovement: 1.5, executionTime: 12 },
+    startedAt: new Date(),
+    completedAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('RebalanceRepository', () => {
+  const db = new Database();
+  const repository = new RebalanceRepository(db, new UserRepository());
+
+  before(() => db.initialize('memory://'));
+  after(() => db.shutdown());
+
+  it('saves and reloads an execution', async () => {
+    const saved = execution();
+    await repository.saveExecution(saved);
+
+    const loaded = await repository.findExecution(saved.id);
+    assert.equal(loaded?.walletAddress, WALLET);
+    assert.equal(loaded?.status, 'completed');
+    assert.deepEqual(loaded?.actions, saved.actions);
+    assert.equal(loaded?.transactions[0].timestamp.getTime(), saved.transactions[0].timestamp.getTime());
+  });
+
+  it('updates an execution in place', async () => {
+    const saved = execution({ status: 'executing', completedAt: undefined });
+    await repository.saveExecution(saved);
+    await repository.saveExecution({ ...saved, status: 'failed', error: 'reverted', completedAt: new Date() });
+
+    const loaded = await repository.findExecution(saved.id);
+    assert.equal(loaded?.status, 'failed');
+    assert.equal(loaded?.error, 'reverted');
+    assert.ok((await repository.findExecutionsByStatus('failed')).some(e => e.id === saved.id));
+  });
+
+  it('lets only one caller claim a compensation plan', async () => {
+    const saved = execution({
+      status: 'partial',
+      compensation: { actions: [], reason: 'deposit failed', status: 'proposed', createdAt: new Date() }
+    });
+    await repository.saveExecution(saved);
+
+    const claims = await Promise.all([repository.claimCompensation(saved.id), repository.claimCompensation(saved.id)]);
+
+    assert.deepEqual(claims.sort(), [false, true]);
+    assert.equal((await repository.findExecution(saved.id))?.compensation?.status, 'executing');
+  });
+
+  it('upserts auto-rebalance settings per wallet', async () => {
+    const settings: AutoRebalanceSettings = {
+      id: randomUUID(),
+      walletAddress: WALLET,
+      strategy: 'risk_reduction',
+      triggers: { apyDropThreshold: 2 },
+      maxSlippage: 0.01,
+      gasLimit: 500000,
+      enabled: true,
+      createdAt: new Date()
+    };
+    await repository.saveAutoRebalanceSettings(settings);
+    await repository.saveAutoRebalanceSettings({ ...settings, enabled: false, maxSlippage: 0.02 });
+
+    const loaded = (await repository.loadAutoRebalanceSettings()).filter(s => s.walletAddress === WALLET);
+    assert.equal(loaded.length, 1);
+    assert.equal(loaded[0].enabled, false);
+    assert.equal(loaded[0].maxSlippage, 0.02);
+  });
+});
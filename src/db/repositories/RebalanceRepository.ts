@@ -0,0 +1,224 @@
+import { Database, database } from '../Database';
+import { UserRepository, userRepository } from './UserRepository';
+import type { AutoRebalanceSettings, RebalanceExecution } from '../../services/RebalancingService';
+
+interface ExecutionRow {
+  id: string;
+  wallet_address: string;
+  strategy: RebalanceExecution['strategy'];
+  status: RebalanceExecution['status'];
+  actions: RebalanceExecution['actions'];
+  transactions: RebalanceExecution['transactions'] | null;
+  results: RebalanceExecution['results'] | null;
+  started_at: Date;
+  completed_at: Date | null;
+  error_message: string | null;
+  compensation: RebalanceExecution['compensation'] | null;
+}
+
+interface AutoRebalanceRow {
+  id: string;
+  wallet_address: string;
+  strategy: AutoRebalanceSettings['strategy'];
+  triggers: AutoRebalanceSettings['triggers'];
+  max_slippage: string;
+  gas_limit: number;
+  is_enabled: boolean;
+  created_at: Date;
+  last_executed: Date | null;
+}
+
+export class RebalanceRepository {
+  constructor(
+    private db: Database = database,
+    private users: UserRepository = userRepository
+  ) {}
+
+  async saveExecution(execution: RebalanceExecution): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      const userId = await this.users.ensureUser(client, execution.walletAddress);
+
+      await client.query(
+        `INSERT INTO rebalance_executions (
+           id, user_id, strategy, status, actions, transactions, results, started_at, completed_at, error_message,
+           compensation
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (id) DO UPDATE SET
+           status = EXCLUDED.status,
+           actions = EXCLUDED.actions,
+           transactions = EXCLUDED.transactions,
+           results = EXCLUDED.results,
+           completed_at = EXCLUDED.completed_at,
+           error_message = EXCLUDED.error_message,
+           compensation = EXCLUDED.compensation`,
+        [
+          execution.id,
+          userId,
+          execution.strategy,
+          execution.status,
+          JSON.stringify(execution.actions),
+          JSON.stringify(execution.transactions),
+          JSON.stringify(execution.results),
+          execution.startedAt,
+          execution.completedAt ?? null,
+          execution.error ?? null,
+          execution.compensation ? JSON.stringify(execution.compensation) : null
+        ]
+      );
+    });
+  }
+
+  async findExecutions(walletAddress: string, limit: number, offset: number): Promise<RebalanceExecution[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const rows = await this.db.query<ExecutionRow>(
+      `SELECT e.*, u.wallet_address
+       FROM rebalance_executions e
+       JOIN users u ON u.id = e.user_id
+       WHERE u.wallet_address = $1
+       ORDER BY e.started_at DESC
+       LIMIT $2 OFFSET $3`,
+      [walletAddress, limit, offset]
+    );
+
+    return rows.map(row => this.executionFromRow(row));
+  }
+
+  async findExecutionsByStatus(status: RebalanceExecution['status']): Promise<RebalanceExecution[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const rows = await this.db.query<ExecutionRow>(
+      `SELECT e.*, u.wallet_address
+       FROM rebalance_executions e
+       JOIN users u ON u.id = e.user_id
+       WHERE e.status = $1
+       ORDER BY e.started_at`,
+      [status]
+    );
+
+    return rows.map(row => this.executionFromRow(row));
+  }
+
+  async findExecution(id: string): Promise<RebalanceExecution | null> {
+    if (!this.db.isEnabled()) {
+      return null;
+    }
+
+    const rows = await this.db.query<ExecutionRow>(
+      `SELECT e.*, u.wallet_address
+       FROM rebalance_executions e
+       JOIN users u ON u.id = e.user_id
+       WHERE e.id = $1`,
+      [id]
+    );
+
+    return rows.length > 0 ? this.executionFromRow(rows[0]) : null;
+  }
+
+  /**
+   * Mark the compensation plan of a partial execution as executing, unless it
+   * already is or has completed. Returns false when another caller holds it.
+   */
+  async claimCompensation(id: string): Promise<boolean> {
+    if (!this.db.isEnabled()) {
+      return true;
+    }
+
+    const rows = await this.db.query<{ id: string }>(
+      `UPDATE rebalance_executions
+       SET compensation = jsonb_set(compensation, '{status}', '"executing"')
+       WHERE id = $1
+         AND status = 'partial'
+         AND compensation IS NOT NULL
+         AND compensation->>'status' NOT IN ('executing', 'completed')
+       RETURNING id`,
+      [id]
+    );
+
+    return rows.length > 0;
+  }
+
+  async loadAutoRebalanceSettings(): Promise<AutoRebalanceSettings[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const rows = await this.db.query<AutoRebalanceRow>(
+      `SELECT s.*, u.wallet_address
+       FROM auto_rebalance_settings s
+       JOIN users u ON u.id = s.user_id`
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      walletAddress: row.wallet_address,
+      strategy: row.strategy,
+      triggers: row.triggers,
+      maxSlippage: Number(row.max_slippage),
+      gasLimit: row.gas_limit,
+      enabled: row.is_enabled,
+      createdAt: new Date(row.created_at),
+      lastExecuted: row.last_executed ? new Date(row.last_executed) : undefined
+    }));
+  }
+
+  async saveAutoRebalanceSettings(settings: AutoRebalanceSettings): Promise<void> {
+    if (!this.db.isEnabled()) {
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      const userId = await this.users.ensureUser(client, settings.walletAddress);
+
+      await client.query(
+        `INSERT INTO auto_rebalance_settings (
+           id, user_id, strategy, triggers, max_slippage, gas_limit, is_enabled, created_at, last_executed
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (user_id) DO UPDATE SET
+           strategy = EXCLUDED.strategy,
+           triggers = EXCLUDED.triggers,
+           max_slippage = EXCLUDED.max_slippage,
+           gas_limit = EXCLUDED.gas_limit,
+           is_enabled = EXCLUDED.is_enabled,
+           last_executed = EXCLUDED.last_executed`,
+        [
+          settings.id,
+          userId,
+          settings.strategy,
+          JSON.stringify(settings.triggers || {}),
+          settings.maxSlippage,
+          settings.gasLimit,
+          settings.enabled,
+          settings.createdAt,
+          settings.lastExecuted ?? null
+        ]
+      );
+    });
+  }
+
+  private executionFromRow(row: ExecutionRow): RebalanceExecution {
+    return {
+      id: row.id,
+      walletAddress: row.wallet_address,
+      strategy: row.strategy,
+      actions: row.actions,
+      status: row.status,
+      transactions: (row.transactions || []).map(tx => ({ ...tx, timestamp: new Date(tx.timestamp) })),
+      results: row.results || { totalGasUsed: 0, totalValue: 0, apyImprovement: 0, executionTime: 0 },
+      startedAt: new Date(row.started_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      error: row.error_message ?? undefined,
+      compensation: row.compensation
+        ? { ...row.compensation, createdAt: new Date(row.compensation.createdAt) }
+        : undefined
+    };
+  }
+}
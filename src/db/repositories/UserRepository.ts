@@ -0,0 +1,25 @@
+import { Queryable } from '../Database';
+
+export class UserRepository {
+  /**
+   * Return the users.id for a wallet, creating the row on first sight.
+   * Must be called with the transaction client of the surrounding write.
+   */
+  async ensureUser(client: Queryable, walletAddress: string, chain?: string): Promise<string> {
+    const rows = await client.query<{ id: string }>(
+      `INSERT INTO users (wallet_address, chain)
+       VALUES ($1, $2)
+       ON CONFLICT (wallet_address) DO UPDATE SET is_active = TRUE
+       RETURNING id`,
+      [walletAddress, chain || this.inferChain(walletAddress)]
+    );
+
+    return rows[0].id;
+  }
+
+  private inferChain(walletAddress: string): string {
+    return walletAddress.startsWith('0x') ? 'ethereum' : 'near';
+  }
+}
+
+export const userRepository = new UserRepository();
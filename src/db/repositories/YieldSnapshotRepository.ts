@@ -0,0 +1,119 @@
+import { Database, database } from '../Database';
+import type { YieldOpportunity } from '../../protocols/ChainAdapter';
+
+export interface YieldHistoryPoint {
+  timestamp: Date;
+  apy: number;
+  tvl: number;
+  riskScore: number;
+}
+
+interface SnapshotBucketRow {
+  opportunity_id: string;
+  bucket: Date;
+  apy: string;
+  tvl: string;
+  risk_score: string;
+}
+
+export class YieldSnapshotRepository {
+  constructor(private db: Database = database) {}
+
+  /**
+   * Append one snapshot per opportunity, all stamped with the same time
+   */
+  async recordMany(opportunities: YieldOpportunity[], timestamp: Date = new Date()): Promise<void> {
+    if (!this.db.isEnabled() || opportunities.length === 0) {
+      return;
+    }
+
+    await this.db.transaction(async (client) => {
+      for (const op of opportunities) {
+        await client.query(
+          `INSERT INTO yield_snapshots (opportunity_id, protocol, chain, pool_id, apy, tvl, risk_score, timestamp)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [op.id, op.protocol, op.chain, op.poolId, op.apy, op.tvl, Math.round(op.riskScore), timestamp]
+        );
+      }
+    });
+  }
+
+  /**
+   * Averages per bucket of `bucketSeconds` for one pool since `since`
+   */
+  async findSeries(
+    pool: { poolId: string; protocol?: string; chain?: string },
+    since: Date,
+    bucketSeconds: number
+  ): Promise<YieldHistoryPoint[]> {
+    if (!this.db.isEnabled()) {
+      return [];
+    }
+
+    const params: unknown[] = [pool.poolId, since, bucketSeconds];
+    const conditions = ['pool_id = $1', 'timestamp >= $2'];
+
+    if (pool.protocol) {
+      params.push(pool.protocol);
+      conditions.push(`protocol = $${params.length}`);
+    }
+    if (pool.chain) {
+      params.push(pool.chain);
+      conditions.push(`chain = $${params.length}`);
+    }
+
+    const rows = await this.db.query<SnapshotBucketRow>(
+      `SELECT MIN(opportunity_id) AS opportunity_id,
+              to_timestamp(floor(extract(epoch FROM timestamp) / $3) * $3) AS bucket,
+              AVG(apy) AS apy, AVG(tvl) AS tvl, AVG(risk_score) AS risk_score
+       FROM yield_snapshots
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY bucket
+       ORDER BY bucket`,
+      params
+    );
+
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Bucketed APY per opportunity since `since`, oldest first
+   */
+  async findApySeries(since: Date, bucketSeconds: number): Promise<Map<string, { timestamp: Date; apy: number }[]>> {
+    const series = new Map<string, { timestamp: Date; apy: number }[]>();
+
+    if (!this.db.isEnabled()) {
+      return series;
+    }
+
+    const rows = await this.db.query<SnapshotBucketRow>(
+      `SELECT opportunity_id,
+              to_timestamp(floor(extract(epoch FROM timestamp) / $2) * $2) AS bucket,
+              AVG(apy) AS apy, AVG(tvl) AS tvl, AVG(risk_score) AS risk_score
+       FROM yield_snapshots
+       WHERE timestamp >= $1
+       GROUP BY opportunity_id, bucket
+       ORDER BY bucket`,
+      [since, bucketSeconds]
+    );
+
+    for (const row of rows) {
+      const points = series.get(row.opportunity_id) || [];
+      points.push({ timestamp: new Date(row.bucket), apy: Number(row.apy) });
+      series.set(row.opportunity_id, points);
+    }
+
+    return series;
+  }
+
+  private fromRow(row: SnapshotBucketRow): YieldHistoryPoint {
+    return {
+      timestamp: new Date(row.bucket),
+      apy: Number(row.apy),
+      tvl: Number(row.tvl),
+      riskScore: Number(row.risk_score)
+    };
+  }
+}
+
+export const yieldSnapshotRepository = new YieldSnapshotRepository();
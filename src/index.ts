@@ -1,55 +1,89 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { logger } from 'hono/logger';
+import { HTTPException } from 'hono/http-exception';
 import { serve } from '@hono/node-server';
 import dotenv from 'dotenv';
 import type { AppBindings } from './types/hono';
 
 // Import routes
+import { yieldRoutes } from './routes/yield';
 import { positionsRoutes } from './routes/positions';
 import { rebalanceRoutes } from './routes/rebalance';
 import { healthRoutes } from './routes/health';
 import { agentStatusRoutes } from './routes/agentStatus';
 import { yieldMonitor } from './routes/yieldMonitor';
 import { strategy } from './routes/strategy';
+import { streamRoutes } from './routes/stream';
+import { alertRoutes } from './routes/alerts';
+import { authRoutes } from './routes/auth';
+import { metricsRoutes } from './routes/metrics';
+
+// Import middleware
+import { validationError } from './middleware/validation';
+import { authenticate } from './middleware/auth';
+import { rateLimit } from './middleware/rateLimit';
+import { requestContext } from './middleware/requestContext';
 
 // Import services
-import { YieldMonitoringService } from './services/YieldMonitoringService';
-import { RebalancingService } from './services/RebalancingService';
-import { PositionTrackingService } from './services/PositionTrackingService';
+import { createContainer, initializeContainer, shutdownContainer } from './container';
+import { loadEnvironmentConfig } from './config/environment';
+import { getNetworkProfile, validateNetworkProfile } from './config/networks';
+import { createLogger } from './utils/logger';
 
 // Load environment variables
 dotenv.config();
 
+const logger = createLogger('index');
+
 const app = new Hono<AppBindings>();
 
 // Global middleware
-app.use('*', logger());
+app.use('*', requestContext);
 app.use('*', cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:3005'],
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id'],
+  exposeHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'Retry-After', 'X-Request-Id'],
 }));
 
-// Initialize services
-const yieldMonitoringService = new YieldMonitoringService();
-const rebalancingService = new RebalancingService();
-const positionTrackingService = new PositionTrackingService();
+// Initialize services (one shared instance of each component)
+const container = createContainer();
+const yieldMonitoringService = container.resolve('yieldMonitoringService');
+const rebalancingService = container.resolve('rebalancingService');
+const positionTrackingService = container.resolve('positionTrackingService');
+const eventStreamService = container.resolve('eventStreamService');
+const authService = container.resolve('authService');
 
 // Make services available in context
 app.use('*', async (c, next) => {
   c.set('yieldMonitoringService', yieldMonitoringService);
   c.set('rebalancingService', rebalancingService);
   c.set('positionTrackingService', positionTrackingService);
+  c.set('eventStreamService', eventStreamService);
+  c.set('authService', authService);
   await next();
 });
 
+// Per-caller token buckets, charged by route cost. The IP bucket is charged
+// before authenticating so bad credentials are throttled too
+const rateLimiter = container.resolve('rateLimiter');
+app.use('*', rateLimit(rateLimiter, 'ip'));
+
+// Resolve the caller's session token or API key; routes decide what needs one
+app.use('*', authenticate);
+
+app.use('*', rateLimit(rateLimiter, 'wallet'));
+
 // Routes with /api prefix
+app.route('/api/yield', yieldRoutes);
 app.route('/api/yield-monitor', yieldMonitor);
 app.route('/api/positions', positionsRoutes);
 app.route('/api/rebalance', rebalanceRoutes);
 app.route('/api/agent', agentStatusRoutes);
 app.route('/api/strategy', strategy);
+app.route('/api/stream', streamRoutes);
+app.route('/api/alerts', alertRoutes);
+app.route('/api/auth', authRoutes);
 
 // Routes without /api prefix for backward compatibility
 app.route('/yield-monitor', yieldMonitor);
@@ -58,10 +92,16 @@ app.route('/rebalance', rebalanceRoutes);
 app.route('/status', agentStatusRoutes);
 app.route('/strategy', strategy);
 app.route('/', healthRoutes);
+app.route('/', metricsRoutes);
 
 // Global error handler
 app.onError((err, c) => {
-  console.error('Unhandled error:', err);
+  // Validators throw these for bodies that are not valid JSON
+  if (err instanceof HTTPException) {
+    return err.status === 400 ? validationError(c, { body: [err.message] }) : err.getResponse();
+  }
+
+  logger.error('Unhandled error:', err);
   return c.json({ 
     error: 'Internal Server Error',
     message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
@@ -75,59 +115,61 @@ app.notFound((c) => {
 
 const port = parseInt(process.env.PORT || '3000');
 
-console.log(`🚀 DeFiFlow Agent starting on port ${port}`);
+logger.info(`🚀 DeFiFlow Agent starting on port ${port}`);
 
 // Start services
 async function startServices() {
   try {
-    console.log('🔧 Initializing services...');
+    // Check the network profile before connecting to any chain
+    const profile = getNetworkProfile();
+    const problems = validateNetworkProfile(profile, loadEnvironmentConfig());
+    if (problems.length > 0) {
+      throw new Error(`Invalid ${profile.name} network configuration:\n  - ${problems.join('\n  - ')}`);
+    }
+    logger.info(`🌐 Using ${profile.name} network profile`);
+    
+    logger.info('🔧 Initializing services...');
     
-    await yieldMonitoringService.initialize();
-    await positionTrackingService.initialize();
-    await rebalancingService.initialize();
+    await initializeContainer(container);
     
-    console.log('✅ All services initialized successfully');
+    logger.info('✅ All services initialized successfully');
     
     // Start periodic monitoring
     yieldMonitoringService.startMonitoring();
     positionTrackingService.startTracking();
     
-    console.log('📊 Monitoring services started');
+    logger.info('📊 Monitoring services started');
   } catch (error) {
-    console.error('❌ Failed to initialize services:', error);
+    logger.error('❌ Failed to initialize services:', error);
     process.exit(1);
   }
 }
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
-  console.log('🛑 SIGTERM received, shutting down gracefully...');
+  logger.info('🛑 SIGTERM received, shutting down gracefully...');
   
   try {
-    await yieldMonitoringService.shutdown();
-    await positionTrackingService.shutdown();
-    await rebalancingService.shutdown();
+    await shutdownContainer(container);
     
-    console.log('✅ Services shut down successfully');
+    logger.info('✅ Services shut down successfully');
     process.exit(0);
   } catch (error) {
-    console.error('❌ Error during shutdown:', error);
+    logger.error('❌ Error during shutdown:', error);
     process.exit(1);
   }
 });
 
 process.on('SIGINT', async () => {
-  console.log('🛑 SIGINT received, shutting down gracefully...');
+  logger.info('🛑 SIGINT received, shutting down gracefully...');
   
   try {
-    await yieldMonitoringService.shutdown();
-    await positionTrackingService.shutdown();
-    await rebalancingService.shutdown();
+    await shutdownContainer(container);
     
-    console.log('✅ Services shut down successfully');
+    logger.info('✅ Services shut down successfully');
     process.exit(0);
   } catch (error) {
-    console.error('❌ Error during shutdown:', error);
+    logger.error('❌ Error during shutdown:', error);
     process.exit(1);
   }
 });
@@ -141,10 +183,10 @@ async function start() {
     port,
   });
   
-  console.log(`🌟 DeFiFlow Agent is running at http://localhost:${port}`);
+  logger.info(`🌟 DeFiFlow Agent is running at http://localhost:${port}`);
 }
 
 start().catch((error) => {
-  console.error('❌ Failed to start application:', error);
+  logger.error('❌ Failed to start application:', error);
   process.exit(1);
 });
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonRpcProvider, Wallet, parseEther, toBeHex } from 'ethers';
+import type { ChainSignatureService, MpcSignature } from './chain-signatures';
+
+// Needs a local node, e.g. `anvil` and ANVIL_RPC_URL=http://127.0.0.1:8545
+const rpcUrl = process.env.ANVIL_RPC_URL;
+
+describe('ChainSignatureService on a local node', { skip: !rpcUrl && 'ANVIL_RPC_URL is not set' }, () => {
+  let service: ChainSignatureService;
+  let provider: JsonRpcProvider;
+
+  // Stands in for the MPC network: signs with a local key in its response format
+  const signer = Wallet.createRandom();
+  const signatures = new Map<string, MpcSignature>();
+
+  before(async () => {
+    // Loaded here so the suite can be skipped where the NEAR SDK is not installed
+    const { ChainSignatureService } = await import('./chain-signatures');
+    provider = new JsonRpcProvider(rpcUrl);
+    await provider.send('anvil_setBalance', [signer.address, toBeHex(parseEther('1'))]);
+
+    service = new ChainSignatureService();
+    service.deriveAccount = async chain => ({
+      chain,
+      address: signer.address,
+      publicKey: signer.signingKey.publicKey.slice(2),
+      path: service.getDerivationPath(chain),
+      predecessorId: 'defiflow-agent.test'
+    });
+    service.requestSignature = async (_chain, payloadHash) => {
+      const { r, s, yParity } = signer.signingKey.sign(payloadHash);
+      signatures.set(payloadHash, {
+        big_r: { affine_point: (yParity ? '03' : '02') + r.slice(2) },
+        s: { scalar: s.slice(2) },
+        recovery_id: yParity
+      });
+      return payloadHash;
+    };
+    service.getSignature = async requestId => signatures.get(requestId)!;
+  });
+
+  it('builds, signs and broadcasts an EIP-1559 transaction', async () => {
+    const recipient = Wallet.createRandom().address;
+
+    const hash = await service.executeCrossChainTx({
+      chain: 'ethereum',
+      method: 'transfer(address,uint256)',
+      params: [recipient, 1000n],
+      to: recipient,
+      value: '1000'
+    }, provider);
+
+    const receipt = await provider.waitForTransaction(hash);
+    const tx = await provider.getTransaction(hash);
+    assert.equal(receipt?.status, 1);
+    assert.equal(tx?.type, 2);
+    assert.equal(tx?.from, signer.address);
+    assert.equal(tx?.data, service.encodeMethodCall('transfer(address,uint256)', [recipient, 1000n]));
+    assert.equal(await provider.getBalance(recipient), 1000n);
+  });
+
+  it('uses the next nonce for the following transaction', async () => {
+    const nonce = await provider.getTransactionCount(signer.address);
+    const tx = await service.buildTransaction({
+      chain: 'ethereum',
+      method: 'approve(address,uint256)',
+      params: [signer.address, 1n],
+      to: Wallet.createRandom().address
+    }, provider, signer.address);
+
+    assert.equal(tx.nonce, nonce);
+    assert.equal(tx.chainId, (await provider.getNetwork()).chainId);
+  });
+});
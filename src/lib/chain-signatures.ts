@@ -1,63 +1,97 @@
 import { keyStores, connect, Contract } from 'near-api-js';
 import BN from 'bn.js';
+import { FunctionFragment, Interface, Signature, Transaction, computeAddress, getBytes, type Provider } from 'ethers';
+import { constants, utils, type NajPublicKey } from 'chainsig.js';
+import { getNetworkProfile } from '../config/networks';
+import { createLogger } from '../utils/logger';
+import { signatureRequestDuration } from '../utils/metrics';
 
-// Chain signature contract on NEAR
-const CHAIN_SIG_CONTRACT = 'v1.signer-prod.testnet';
+const logger = createLogger('lib/chain-signatures');
 
 export interface ChainSignatureRequest {
   chain: 'ethereum' | 'bsc' | 'polygon';
-  method: string;
+  method: string; // Solidity function signature, e.g. 'withdraw(address,uint256)'
   params: any[];
   to: string;
-  value?: string;
+  value?: string; // wei
+}
+
+/**
+ * Signature as returned by the MPC signer: the R point (compressed, hex), the
+ * s scalar (hex) and the recovery id. Plain { r, s, v } is accepted as well.
+ */
+export type MpcSignature =
+  | { big_r: { affine_point: string }; s: { scalar: string }; recovery_id: number }
+  | { r: string; s: string; v: number };
+
+export interface DerivedAccount {
+  chain: string;
+  address: string;
+  publicKey: string; // uncompressed SEC1, hex
+  path: string;
+  predecessorId: string;
 }
 
 export class ChainSignatureService {
   private nearConnection: any;
   private account: any;
   private chainSigContract: any;
+  private initialization?: Promise<void>;
+  private derivedAccounts: Map<string, Promise<DerivedAccount>> = new Map();
 
+  /**
+   * Connect to NEAR and the signer contract. Safe to call from every EVM
+   * protocol; the connection is only set up once.
+   */
   async initialize() {
+    if (!this.initialization) {
+      this.initialization = this.connect().catch((error) => {
+        this.initialization = undefined;
+        throw error;
+      });
+    }
+
+    return this.initialization;
+  }
+
+  private async connect() {
     const keyStore = new keyStores.InMemoryKeyStore();
     
     // In production, this would use the agent's key from TEE
+    const { near } = getNetworkProfile();
     const nearConfig = {
-      networkId: 'testnet',
+      networkId: near.networkId,
       keyStore,
-      nodeUrl: 'https://rpc.testnet.near.org',
-      walletUrl: 'https://wallet.testnet.near.org',
-      helperUrl: 'https://helper.testnet.near.org',
+      nodeUrl: near.rpcUrl,
+      walletUrl: near.walletUrl,
+      helperUrl: near.helperUrl,
     };
 
     this.nearConnection = await connect(nearConfig);
     
     // Get account from environment or agent
-    const accountId = process.env.NEAR_ACCOUNT_ID || 'defiflow-agent.testnet';
-    this.account = await this.nearConnection.account(accountId);
+    this.account = await this.nearConnection.account(this.getPredecessorId());
 
     // Initialize chain signature contract
     this.chainSigContract = new Contract(
       this.account,
-      CHAIN_SIG_CONTRACT,
+      near.signerContract,
       {
-        viewMethods: ['get_pending_requests', 'get_signature'],
+        viewMethods: ['get_pending_requests', 'get_signature', 'public_key'],
         changeMethods: ['request_signature'],
       }
     );
   }
 
   /**
-   * Request a signature for a cross-chain transaction
+   * Request an MPC signature over a 32-byte payload (a transaction hash)
    */
-  async requestSignature(request: ChainSignatureRequest): Promise<string> {
+  async requestSignature(chain: string, payloadHash: string): Promise<string> {
     try {
-      // Build the payload based on chain type
-      const payload = this.buildPayload(request);
-      
       // Request signature from NEAR MPC network
       const result = await this.chainSigContract.request_signature({
-        payload: Buffer.from(JSON.stringify(payload)).toString('base64'),
-        path: this.getDerivationPath(request.chain),
+        payload: Array.from(getBytes(payloadHash)),
+        path: this.getDerivationPath(chain),
         key_version: 0,
       }, {
         gas: new BN('300000000000000'), // 300 TGas
@@ -66,7 +100,7 @@ export class ChainSignatureService {
 
       return result.request_id;
     } catch (error) {
-      console.error('Error requesting chain signature:', error);
+      logger.error('Error requesting chain signature:', error);
       throw error;
     }
   }
@@ -74,7 +108,7 @@ export class ChainSignatureService {
   /**
    * Get the signature once it's ready
    */
-  async getSignature(requestId: string): Promise<any> {
+  async getSignature(requestId: string): Promise<MpcSignature> {
     try {
       const signature = await this.chainSigContract.get_signature({
         request_id: requestId,
@@ -86,20 +120,32 @@ export class ChainSignatureService {
 
       return signature;
     } catch (error) {
-      console.error('Error getting signature:', error);
+      logger.error('Error getting signature:', error);
       throw error;
     }
   }
 
   /**
-   * Execute a cross-chain transaction using chain signatures
+   * Execute a cross-chain transaction using chain signatures: build an EIP-1559
+   * transaction against `provider`, have the MPC network sign its hash and
+   * broadcast the signed transaction. Returns the transaction hash.
    */
-  async executeCrossChainTx(request: ChainSignatureRequest): Promise<string> {
+  async executeCrossChainTx(request: ChainSignatureRequest, provider: Provider): Promise<string> {
+    const { address: from } = await this.deriveAccount(request.chain);
+    const tx = await this.buildTransaction(request, provider, from);
+
     // Step 1: Request signature
-    const requestId = await this.requestSignature(request);
+    const stopTimer = signatureRequestDuration.startTimer({ chain: request.chain });
+    let requestId: string;
+    try {
+      requestId = await this.requestSignature(request.chain, tx.unsignedHash);
+    } catch (error) {
+      stopTimer({ outcome: 'error' });
+      throw error;
+    }
     
     // Step 2: Poll for signature (in production, use events)
-    let signature;
+    let signature: MpcSignature | undefined;
     let attempts = 0;
     while (attempts < 30) {
       try {
@@ -112,38 +158,119 @@ export class ChainSignatureService {
       attempts++;
     }
 
+    stopTimer({ outcome: signature ? 'signed' : 'timeout' });
     if (!signature) {
       throw new Error('Timeout waiting for signature');
     }
 
-    // Step 3: Use the signature to execute on target chain
-    return this.executeOnTargetChain(request.chain, signature, request);
+    // Step 3: Attach the signature and broadcast on the target chain
+    tx.signature = this.toEthersSignature(signature);
+
+    if (tx.from?.toLowerCase() !== from.toLowerCase()) {
+      throw new Error(`Signature recovers to ${tx.from}, expected ${from}`);
+    }
+
+    return this.broadcast(provider, tx);
   }
 
   /**
-   * Build the payload for different chains
+   * Build an unsigned EIP-1559 transaction with nonce, fees and gas limit
+   * taken from the target chain
    */
-  private buildPayload(request: ChainSignatureRequest) {
-    switch (request.chain) {
-      case 'ethereum':
-      case 'bsc':
-      case 'polygon':
-        // EVM chains use similar payload structure
-        return {
-          to: request.to,
-          value: request.value || '0x0',
-          data: this.encodeMethodCall(request.method, request.params),
-          chainId: this.getChainId(request.chain),
-        };
-      default:
-        throw new Error(`Unsupported chain: ${request.chain}`);
+  async buildTransaction(request: ChainSignatureRequest, provider: Provider, from: string): Promise<Transaction> {
+    const data = this.encodeMethodCall(request.method, request.params);
+    const value = BigInt(request.value || '0');
+
+    // The pending nonce only accounts for broadcast transactions, so callers
+    // must not build two transactions for the same chain concurrently
+    const [network, nonce, feeData, gasEstimate] = await Promise.all([
+      provider.getNetwork(),
+      provider.getTransactionCount(from, 'pending'),
+      provider.getFeeData(),
+      provider.estimateGas({ from, to: request.to, data, value })
+    ]);
+
+    if (feeData.maxFeePerGas === null || feeData.maxPriorityFeePerGas === null) {
+      throw new Error(`${request.chain} RPC does not report EIP-1559 fees`);
     }
+
+    return Transaction.from({
+      type: 2,
+      chainId: network.chainId,
+      nonce,
+      to: request.to,
+      value,
+      data,
+      gasLimit: (gasEstimate * 120n) / 100n, // 20% headroom over the estimate
+      maxFeePerGas: feeData.maxFeePerGas,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas
+    });
+  }
+
+  /**
+   * EVM account controlled by the agent on `chain`: the MPC root key derived
+   * with the agent's NEAR account and the chain's derivation path. Derivation
+   * only involves public data, so it works before `initialize()` as well.
+   */
+  async deriveAccount(chain: string): Promise<DerivedAccount> {
+    let account = this.derivedAccounts.get(chain);
+
+    if (!account) {
+      account = this.computeDerivedAccount(chain).catch((error) => {
+        this.derivedAccounts.delete(chain);
+        throw error;
+      });
+      this.derivedAccounts.set(chain, account);
+    }
+
+    return account;
+  }
+
+  private async computeDerivedAccount(chain: string): Promise<DerivedAccount> {
+    const rootKey = utils.cryptography.najToUncompressedPubKeySEC1(await this.getRootPublicKey());
+    const predecessorId = this.getPredecessorId();
+    const path = this.getDerivationPath(chain);
+    const publicKey = utils.cryptography.deriveChildPublicKey(rootKey, predecessorId, path);
+
+    return {
+      chain,
+      address: computeAddress('0x' + publicKey),
+      publicKey,
+      path,
+      predecessorId
+    };
+  }
+
+  /**
+   * secp256k1 root key of the signer contract, in NEAR format. Known
+   * deployments use the published key; others are asked for it.
+   */
+  private async getRootPublicKey(): Promise<NajPublicKey> {
+    if (process.env.MPC_ROOT_PUBLIC_KEY) {
+      return process.env.MPC_ROOT_PUBLIC_KEY as NajPublicKey;
+    }
+
+    const env = (Object.keys(constants.CONTRACT_ADDRESSES) as (keyof typeof constants.CONTRACT_ADDRESSES)[])
+      .find(key => constants.CONTRACT_ADDRESSES[key] === getNetworkProfile().near.signerContract);
+    if (env) {
+      return constants.ROOT_PUBLIC_KEYS[env].secp256k1;
+    }
+
+    await this.initialize();
+    return this.chainSigContract.public_key();
+  }
+
+  /**
+   * NEAR account that calls the signer contract; part of every derivation
+   */
+  private getPredecessorId(): string {
+    return process.env.NEAR_ACCOUNT_ID || 'defiflow-agent.testnet';
   }
 
   /**
    * Get the derivation path for different chains
    */
-  private getDerivationPath(chain: string): string {
+  getDerivationPath(chain: string): string {
     // Each chain gets a unique derivation path
     const paths: Record<string, string> = {
       'ethereum': 'ethereum-defiflow',
@@ -154,58 +281,37 @@ export class ChainSignatureService {
   }
 
   /**
-   * Get chain ID for different networks
+   * ABI-encode a call, e.g. encodeMethodCall('withdraw(address,uint256)', [to, amount])
    */
-  private getChainId(chain: string): number {
-    const chainIds: Record<string, number> = {
-      'ethereum': 11155111, // Sepolia
-      'bsc': 97, // BSC Testnet
-      'polygon': 80001, // Mumbai
-    };
-    return chainIds[chain];
+  encodeMethodCall(method: string, params: any[]): string {
+    const fragment = FunctionFragment.from(method);
+    return new Interface([fragment]).encodeFunctionData(fragment, params);
   }
 
   /**
-   * Encode method calls for EVM chains
+   * Convert the MPC response into an ethers Signature. For the MPC format, r is
+   * the x coordinate of the compressed R point and the recovery id is y parity.
    */
-  private encodeMethodCall(method: string, params: any[]): string {
-    // In production, use ethers.js or web3.js to properly encode
-    // This is a simplified version
-    const methodSig = method.substring(0, 10); // First 4 bytes
-    const encodedParams = params.map(p => {
-      if (typeof p === 'string' && p.startsWith('0x')) {
-        return p.substring(2).padStart(64, '0');
-      }
-      return BigInt(p).toString(16).padStart(64, '0');
-    }).join('');
-    
-    return '0x' + methodSig + encodedParams;
-  }
+  toEthersSignature(signature: MpcSignature): Signature {
+    if ('big_r' in signature) {
+      return Signature.from({
+        r: '0x' + signature.big_r.affine_point.slice(2),
+        s: '0x' + signature.s.scalar,
+        yParity: signature.recovery_id as 0 | 1
+      });
+    }
 
-  /**
-   * Execute transaction on target chain with signature
-   */
-  private async executeOnTargetChain(
-    chain: string, 
-    signature: any, 
-    request: ChainSignatureRequest
-  ): Promise<string> {
-    // This would use the appropriate RPC for each chain
-    const rpcUrls: Record<string, string> = {
-      'ethereum': process.env.ETHEREUM_RPC_URL!,
-      'bsc': process.env.BSC_RPC_URL!,
-      'polygon': process.env.POLYGON_RPC_URL!,
-    };
+    const r = signature.r.startsWith('0x') ? signature.r : '0x' + signature.r;
+    const s = signature.s.startsWith('0x') ? signature.s : '0x' + signature.s;
+    return Signature.from({ r, s, v: signature.v < 27 ? signature.v + 27 : signature.v });
+  }
 
-    const rpcUrl = rpcUrls[chain];
-    
-    // In production, use ethers.js to send the transaction
-    console.log(`Would execute on ${chain} via ${rpcUrl} with signature:`, signature);
-    
-    // Mock transaction hash
-    return `0x${Buffer.from(`${chain}-${Date.now()}`).toString('hex')}`;
+  private async broadcast(provider: Provider, tx: Transaction): Promise<string> {
+    const response = await provider.broadcastTransaction(tx.serialized);
+    logger.info(`Broadcast ${response.hash} (nonce ${tx.nonce}) on chain ${tx.chainId}`);
+    return response.hash;
   }
 }
 
 // Singleton instance
-export const chainSignatureService = new ChainSignatureService();
\ No newline at end of file
+export const chainSignatureService = new ChainSignatureService();
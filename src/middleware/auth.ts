@@ -0,0 +1,150 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import type { APIResponse } from '../types';
+import type { AppBindings, AppContext } from '../types/hono';
+import { AuthError, AuthScope } from '../services/AuthService';
+import { responseMetadata } from '../utils/response';
+
+/**
+ * 401/403 response shared by the auth middleware and routes
+ */
+const AUTH_ERRORS = {
+  401: ['Authentication required', 'UNAUTHENTICATED'],
+  403: ['Forbidden', 'FORBIDDEN'],
+  503: ['Authentication unavailable', 'AUTH_UNAVAILABLE'] // e.g. the NEAR RPC is down
+} as const;
+
+export function authError(c: Context, status: 401 | 403 | 503, message: string) {
+  const [error, code] = AUTH_ERRORS[status];
+  const response: APIResponse = {
+    success: false,
+    error,
+    message,
+    details: {
+      code,
+      message,
+      timestamp: new Date()
+    },
+    metadata: responseMetadata()
+  };
+
+  if (status === 401) {
+    c.header('WWW-Authenticate', 'Bearer');
+  }
+  return c.json(response, status);
+}
+
+/**
+ * Resolve the caller from `Authorization: Bearer <token>` (session token or
+ * API key) or `X-API-Key`. Requests without credentials pass through
+ * anonymously; invalid credentials are rejected outright.
+ */
+export const authenticate: MiddlewareHandler<AppBindings> = async (c, next) => {
+  const header = c.req.header('Authorization');
+  const token = header?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? c.req.header('X-API-Key');
+
+  if (header && !token) {
+    return authError(c, 401, 'Authorization header must be "Bearer <token>"');
+  }
+
+  return resolveToken(c, token, next);
+};
+
+/**
+ * Same as `authenticate`, for the `token` query parameter. Only for
+ * EventSource streams, which cannot send headers.
+ */
+export const authenticateQuery: MiddlewareHandler<AppBindings> = async (c, next) => {
+  return resolveToken(c, c.get('auth') ? undefined : c.req.query('token'), next);
+};
+
+async function resolveToken(c: AppContext, token: string | undefined, next: () => Promise<void>) {
+  if (token) {
+    try {
+      c.set('auth', await c.get('authService').authenticate(token));
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return authError(c, error.status, error.message);
+      }
+      throw error;
+    }
+  }
+
+  await next();
+}
+
+/**
+ * Reject anonymous callers, and callers whose token lacks `scope`
+ */
+export function requireAuth(scope?: AuthScope): MiddlewareHandler<AppBindings> {
+  return async (c, next) => {
+    const identity = c.get('auth');
+
+    if (!identity) {
+      return authError(c, 401, 'Sign in or pass an API key to use this endpoint');
+    }
+    if (scope && !identity.scopes.includes(scope)) {
+      return authError(c, 403, `This endpoint needs the ${scope} scope`);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * 403 (logged as an audit event) unless the caller may manage
+ * `walletAddress`; null when allowed. For routes that only learn the wallet
+ * inside the handler.
+ */
+export async function authorizeWallet(c: AppContext, walletAddress: string): Promise<Response | null> {
+  const identity = c.get('auth');
+
+  if (!identity) {
+    return authError(c, 401, 'Sign in or pass an API key to use this endpoint');
+  }
+
+  const authService = c.get('authService');
+  if (await authService.canActFor(identity, walletAddress)) {
+    return null;
+  }
+
+  await authService.recordDenial({
+    actor: identity,
+    targetWallet: walletAddress,
+    method: c.req.method,
+    path: c.req.path
+  });
+  return authError(c, 403, `Not allowed to act for ${walletAddress}`);
+}
+
+/**
+ * Check the wallet in a request field (e.g. the `walletAddress` path
+ * parameter) against the caller. Goes after `requireAuth` and `validate`,
+ * which guarantees the field is a well-formed wallet address.
+ */
+export function requireWallet(
+  target: 'json' | 'query' | 'param',
+  field: string = 'walletAddress'
+): MiddlewareHandler<AppBindings> {
+  return async (c, next) => {
+    const value = await readField(c, target, field);
+    const denied = await authorizeWallet(c, typeof value === 'string' ? value.trim() : '');
+
+    if (denied) {
+      return denied;
+    }
+    await next();
+  };
+}
+
+async function readField(c: AppContext, target: 'json' | 'query' | 'param', field: string): Promise<unknown> {
+  if (target === 'param') {
+    return c.req.param(field);
+  }
+  if (target === 'query') {
+    return c.req.query(field);
+  }
+
+  // Hono caches the body the validator already parsed
+  const body: unknown = await c.req.json();
+  return body && typeof body === 'object' ? (body as Record<string, unknown>)[field] : undefined;
+}
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Hono } from 'hono';
+import { authenticate } from './auth';
+import { rateLimit } from './rateLimit';
+import { RateLimiter } from '../utils/RateLimiter';
+import { AuthError } from '../services/AuthService';
+import type { AuthIdentity, AuthService } from '../services/AuthService';
+import type { AppBindings } from '../types/hono';
+
+const identity: AuthIdentity = { type: 'apiKey', id: 'key_1', walletAddress: '0x' + 'aa'.repeat(20), chain: 'ethereum', scopes: ['read'] };
+
+const authService = {
+  async authenticate(token: string) {
+    if (token !== 'valid-key') {
+      throw new AuthError('Invalid or expired token');
+    }
+    return identity;
+  }
+} as unknown as AuthService;
+
+// Mounted the way src/index.ts does it
+function createApp(limiter: RateLimiter) {
+  const app = new Hono<AppBindings>();
+  app.use('*', async (c, next) => {
+    c.set('authService', authService);
+    await next();
+  });
+  app.use('*', rateLimit(limiter, 'ip'));
+  app.use('*', authenticate);
+  app.use('*', rateLimit(limiter, 'wallet'));
+  app.get('/api/yield', c => c.json({ success: true }));
+  return app;
+}
+
+describe('rateLimit', () => {
+  it('throttles repeated requests with an invalid token', async () => {
+    const app = createApp(new RateLimiter({ capacity: 3, refillPerSecond: 0.001 }, `test-${Date.now()}-invalid`));
+    const statuses: number[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      const res = await app.request('/api/yield', { headers: { Authorization: 'Bearer forged' } });
+      statuses.push(res.status);
+    }
+
+    assert.deepEqual(statuses, [401, 401, 401, 429, 429]);
+  });
+
+  it('reports the emptier of the IP and wallet buckets', async () => {
+    const limiter = new RateLimiter({ capacity: 5, refillPerSecond: 0.001 }, `test-${Date.now()}-wallet`);
+    await limiter.take(`wallet:${identity.walletAddress}`, 3);
+
+    const res = await createApp(limiter).request('/api/yield', { headers: { Authorization: 'Bearer valid-key' } });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('RateLimit-Remaining'), '1');
+  });
+});
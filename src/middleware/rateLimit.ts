@@ -0,0 +1,125 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import type { APIResponse } from '../types';
+import type { AppBindings } from '../types/hono';
+import { RateLimiter, createRateLimiter } from '../utils/RateLimiter';
+import { responseMetadata } from '../utils/response';
+
+interface RouteCost {
+  method: string;
+  path: string; // Hono-style pattern, without the /api prefix
+  cost: number;
+}
+
+/**
+ * Tokens a request takes; everything else costs 1. Routes that fan out to
+ * protocol APIs, subgraphs or RPCs on a cache miss cost more.
+ */
+export const ROUTE_COSTS: RouteCost[] = [
+  { method: 'GET', path: '/yield-monitor/monitor', cost: 10 },
+  { method: 'GET', path: '/yield-monitor/opportunities', cost: 5 },
+  { method: 'GET', path: '/yield-monitor/compare', cost: 2 },
+  { method: 'GET', path: '/yield/analytics', cost: 3 },
+  { method: 'GET', path: '/yield/market-conditions', cost: 3 },
+  { method: 'GET', path: '/yield/history/:protocol/:poolId', cost: 2 },
+  { method: 'GET', path: '/positions/:walletAddress', cost: 3 },
+  { method: 'GET', path: '/positions/:walletAddress/portfolio', cost: 3 },
+  { method: 'GET', path: '/rebalance/recommendations/:walletAddress', cost: 5 },
+  { method: 'POST', path: '/rebalance/simulate', cost: 5 },
+  { method: 'POST', path: '/rebalance/execute', cost: 10 },
+  { method: 'POST', path: '/rebalance/executions/:id/recover', cost: 10 }
+];
+
+// Liveness probes and metric scrapes must never be throttled
+const EXEMPT_PATHS = ['/health', '/health/deep', '/metrics'];
+
+const routeMatchers = ROUTE_COSTS.map(route => ({
+  ...route,
+  regex: new RegExp(`^${route.path.replace(/:[^/]+/g, '[^/]+')}/?$`)
+}));
+
+export function routeCost(method: string, path: string): number {
+  const normalized = path.replace(/^\/api(?=\/)/, '');
+  return routeMatchers.find(route => route.method === method && route.regex.test(normalized))?.cost ?? 1;
+}
+
+/**
+ * Caller's buckets: its IP, plus the wallet it acts as when authenticated.
+ * Sessions and every API key of a wallet share the wallet bucket, so neither
+ * signing in again nor minting more keys refills it, and the IP bucket still
+ * caps whoever cycles through wallets. X-Forwarded-For is only trusted behind
+ * a proxy (TRUST_PROXY=true).
+ */
+function callerKey(c: Context<AppBindings>, by: 'ip' | 'wallet'): string | null {
+  if (by === 'wallet') {
+    const identity = c.get('auth');
+    return identity ? `wallet:${identity.walletAddress.toLowerCase()}` : null;
+  }
+
+  return ipKey(c);
+}
+
+function ipKey(c: Context<AppBindings>): string {
+  if (process.env.TRUST_PROXY === 'true') {
+    const forwarded = c.req.header('X-Forwarded-For')?.split(',')[0].trim();
+    if (forwarded) {
+      return `ip:${forwarded}`;
+    }
+  }
+
+  try {
+    return `ip:${getConnInfo(c).remote.address ?? 'unknown'}`;
+  } catch {
+    return 'ip:unknown'; // not served by @hono/node-server, e.g. app.request()
+  }
+}
+
+/**
+ * Charge each request its route cost against one of the caller's token
+ * buckets and answer 429 with Retry-After once it runs dry. Mounted twice:
+ * by IP before `authenticate`, so requests with invalid credentials are
+ * charged too, and by wallet after it.
+ */
+export function rateLimit(
+  limiter: RateLimiter = createRateLimiter(),
+  by: 'ip' | 'wallet' = 'ip'
+): MiddlewareHandler<AppBindings> {
+  return async (c, next) => {
+    const key = callerKey(c, by);
+    if (!key || c.req.method === 'OPTIONS' || EXEMPT_PATHS.includes(c.req.path)) {
+      return next();
+    }
+
+    const cost = routeCost(c.req.method, c.req.path);
+    const result = await limiter.take(key, cost);
+
+    // Report whichever bucket is closest to empty
+    const earlier = c.get('rateLimitRemaining');
+    if (earlier === undefined || !result.allowed || result.remaining < earlier) {
+      c.set('rateLimitRemaining', result.remaining);
+      c.header('RateLimit-Limit', String(result.limit));
+      c.header('RateLimit-Remaining', String(result.remaining));
+    }
+
+    if (!result.allowed) {
+      const message = `Rate limit exceeded; retry in ${result.retryAfter}s`;
+      const response: APIResponse = {
+        success: false,
+        error: 'Too many requests',
+        message,
+        details: {
+          code: 'RATE_LIMITED',
+          message,
+          details: { cost, limit: result.limit, remaining: result.remaining, retryAfter: result.retryAfter },
+          timestamp: new Date()
+        },
+        metadata: responseMetadata()
+      };
+
+      c.header('Retry-After', String(result.retryAfter));
+      return c.json(response, 429);
+    }
+
+    await next();
+  };
+}
@@ -0,0 +1,30 @@
+import { randomUUID } from 'crypto';
+import type { MiddlewareHandler } from 'hono';
+import type { AppBindings } from '../types/hono';
+import { createLogger, runWithLogContext } from '../utils/logger';
+
+const logger = createLogger('http');
+
+// Ids from upstream proxies are kept as long as they can't garble a log line
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Give each request a correlation id (the caller's X-Request-Id, or a new
+ * one), attach it to every log line written while handling it and echo it in
+ * the X-Request-Id header, and log the request once it completes. Response
+ * bodies pick it up through `responseMetadata`. Goes first.
+ */
+export const requestContext: MiddlewareHandler<AppBindings> = async (c, next) => {
+  const incoming = c.req.header('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const started = Date.now();
+
+  c.set('requestId', requestId);
+
+  await runWithLogContext({ requestId }, async () => {
+    await next();
+
+    c.header('X-Request-Id', requestId);
+    logger.request(c.req.method, c.req.path, c.res.status, Date.now() - started);
+  });
+};
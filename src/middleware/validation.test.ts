@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Hono } from 'hono';
+import { validate } from './validation';
+
+const app = new Hono();
+app.get('/items',
+  validate('query', { limit: { type: 'number' } }),
+  c => c.json({ limit: c.req.valid('query').limit })
+);
+app.post('/items',
+  validate('json', { amount: { required: true, type: 'number' } }),
+  c => c.json({ amount: c.req.valid('json').amount })
+);
+
+describe('validate', () => {
+  it('coerces numeric query strings', async () => {
+    const res = await app.request('/items?limit=25');
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { limit: 25 });
+  });
+
+  it('rejects strings that are only partly numeric', async () => {
+    for (const limit of ['5abc', '1e', '', '0x']) {
+      const res = await app.request(`/items?limit=${limit}`);
+      assert.equal(res.status, 400, limit);
+    }
+  });
+
+  it('rejects numeric strings in JSON bodies the same way', async () => {
+    const post = (amount: unknown) => app.request('/items', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ amount })
+    });
+
+    assert.equal((await post('12.5')).status, 200);
+    assert.equal((await post('12.5 USDC')).status, 400);
+  });
+});
@@ -1,73 +1,27 @@
 import { ethers } from 'ethers';
 import axios from 'axios';
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
+import { protocolFetchErrors, timeProtocolFetch } from '../utils/metrics';
+import { ChainAdapter, ChainMarketConditions, PositionData, TransactionResult, YieldOpportunity } from './ChainAdapter';
 import { chainSignatureService, ChainSignatureRequest } from '../lib/chain-signatures';
+import { EvmNetworkConfig, getNetworkProfile } from '../config/networks';
 
-export interface YieldOpportunity {
-  id: string;
-  protocol: string;
-  chain: 'bsc';
-  poolId: string;
-  token: string;
-  apy: number;
-  tvl: number;
-  riskScore: number;
-  minDeposit: number;
-  maxDeposit?: number;
-  lockPeriod?: number;
-  fees: {
-    deposit: number;
-    withdraw: number;
-    management: number;
-  };
-  metadata: {
-    poolType: string;
-    underlying?: string[];
-    leverage?: number;
-    autoCompound?: boolean;
-  };
-  lastUpdated: Date;
-}
-
-export interface PositionData {
-  symbol: string;
-  amount: number;
-  value: number;
-  currentPrice: number;
-  apy: number;
-  riskScore: number;
-  rewards?: {
-    token: string;
-    amount: number;
-    value: number;
-  }[];
-  metadata: {
-    poolId?: string;
-    leverage?: number;
-    collateralRatio?: number;
-    liquidationPrice?: number;
-  };
-}
-
-export interface MarketConditions {
-  gasPrice: number;
-  blockTime: number;
-  averageApy: number;
-  totalTvl: number;
-}
-
-export class BSCProtocol {
+const logger = createLogger('protocols/BSCProtocol');
+
+export class BSCProtocol implements ChainAdapter {
+  readonly chain = 'bsc';
   private provider?: ethers.Provider;
   private signer?: ethers.Signer;
+  private network?: EvmNetworkConfig;
   private isInitialized: boolean = false;
 
   async initialize(): Promise<void> {
     try {
       logger.info('Initializing BSC Protocol integration...');
       
-      // Initialize ethers provider
-      const rpcUrl = process.env.BSC_RPC_URL || 'https://data-seed-prebsc-1-s1.binance.org:8545/';
-      this.provider = new ethers.JsonRpcProvider(rpcUrl);
+      // Initialize ethers provider for the active network profile
+      this.network = getNetworkProfile().evm.bsc;
+      this.provider = new ethers.JsonRpcProvider(this.network.rpcUrl);
 
       // Initialize signer if private key is provided
       if (process.env.BSC_PRIVATE_KEY) {
@@ -79,7 +33,10 @@ export class BSCProtocol {
 
       // Test connection
       const network = await this.provider.getNetwork();
-      logger.info(`Connected to BSC network: ${network.name} (chainId: ${network.chainId})`);
+      if (Number(network.chainId) !== this.network.chainId) {
+        throw new Error(`BSC RPC is on chainId ${network.chainId}, expected ${this.network.chainId} (${this.network.name})`);
+      }
+      logger.info(`Connected to BSC network: ${this.network.name} (chainId: ${network.chainId})`);
 
       this.isInitialized = true;
       logger.info('BSC Protocol integration initialized successfully');
@@ -105,15 +62,15 @@ export class BSCProtocol {
       const opportunities: YieldOpportunity[] = [];
 
       // PancakeSwap opportunities
-      const pancakeOpportunities = await this.getPancakeSwapOpportunities();
+      const pancakeOpportunities = await timeProtocolFetch(this.chain, 'pancakeswap-v2', () => this.getPancakeSwapOpportunities());
       opportunities.push(...pancakeOpportunities);
 
       // Venus Protocol opportunities
-      const venusOpportunities = await this.getVenusOpportunities();
+      const venusOpportunities = await timeProtocolFetch(this.chain, 'venus', () => this.getVenusOpportunities());
       opportunities.push(...venusOpportunities);
 
       // Alpaca Finance opportunities
-      const alpacaOpportunities = await this.getAlpacaOpportunities();
+      const alpacaOpportunities = await timeProtocolFetch(this.chain, 'alpaca-finance', () => this.getAlpacaOpportunities());
       opportunities.push(...alpacaOpportunities);
 
       logger.info(`Found ${opportunities.length} BSC yield opportunities`);
@@ -197,7 +154,7 @@ export class BSCProtocol {
     }
   }
 
-  async getMarketConditions(): Promise<MarketConditions> {
+  async getMarketConditions(): Promise<ChainMarketConditions> {
     if (!this.isInitialized || !this.provider) {
       throw new Error('BSC Protocol not initialized');
     }
@@ -224,7 +181,7 @@ export class BSCProtocol {
     }
   }
 
-  async withdraw(walletAddress: string, token: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async withdraw(walletAddress: string, token: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('BSC Protocol not initialized or no signer available');
     }
@@ -233,15 +190,15 @@ export class BSCProtocol {
       // Use chain signature service for cross-chain withdrawal
       const request: ChainSignatureRequest = {
         chain: 'bsc',
-        method: 'withdraw',
+        method: 'withdraw(address,uint256)',
         params: [walletAddress, ethers.parseUnits(amount.toString(), 18).toString()],
         to: this.getProtocolContract(token),
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
-      logger.info(`BSC withdraw executed via chain signatures: ${amount} ${token} for ${walletAddress}`);
+      logger.info(`BSC withdraw executed via chain signatures from ${await this.getAgentAddress()}: ${amount} ${token} for ${walletAddress}`);
       
       return {
         hash: txHash,
@@ -253,7 +210,7 @@ export class BSCProtocol {
     }
   }
 
-  async deposit(walletAddress: string, token: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async deposit(walletAddress: string, token: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('BSC Protocol not initialized or no signer available');
     }
@@ -262,15 +219,15 @@ export class BSCProtocol {
       // Use chain signature service for cross-chain deposit
       const request: ChainSignatureRequest = {
         chain: 'bsc',
-        method: 'deposit',
+        method: 'deposit(address,uint256)',
         params: [walletAddress, ethers.parseUnits(amount.toString(), 18).toString()],
         to: this.getProtocolContract(token),
         value: token === 'BNB' ? ethers.parseEther(amount.toString()).toString() : '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
-      logger.info(`BSC deposit executed via chain signatures: ${amount} ${token} for ${walletAddress}`);
+      logger.info(`BSC deposit executed via chain signatures from ${await this.getAgentAddress()}: ${amount} ${token} for ${walletAddress}`);
       
       return {
         hash: txHash,
@@ -282,7 +239,7 @@ export class BSCProtocol {
     }
   }
 
-  async swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<{ hash: string; gasUsed?: number }> {
+  async swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('BSC Protocol not initialized or no signer available');
     }
@@ -291,19 +248,19 @@ export class BSCProtocol {
       // Use chain signature service for cross-chain swap
       const request: ChainSignatureRequest = {
         chain: 'bsc',
-        method: 'swapExactTokensForTokens',
+        method: 'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
         params: [
           ethers.parseUnits(amount.toString(), 18).toString(),
           '0', // Min amount out (calculated with slippage)
-          [token, 'BUSD'], // Path
+          [this.getTokenAddress(token), this.getTokenAddress('BUSD')], // Path
           walletAddress,
           Math.floor(Date.now() / 1000) + 3600 // Deadline
         ],
-        to: '0x10ED43C718714eb63d5aA57B78B54704E256024E', // PancakeSwap Router
+        to: this.getSwapRouter(),
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
       logger.info(`BSC swap executed via chain signatures: ${amount} ${token} for ${walletAddress} with ${slippage}% slippage`);
       
@@ -317,7 +274,7 @@ export class BSCProtocol {
     }
   }
 
-  async migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('BSC Protocol not initialized or no signer available');
     }
@@ -327,13 +284,13 @@ export class BSCProtocol {
       // This would be handled by a smart contract in production
       const request: ChainSignatureRequest = {
         chain: 'bsc',
-        method: 'migrate',
+        method: 'migrate(string,string,uint256)',
         params: [fromProtocol, toProtocol, ethers.parseUnits(amount.toString(), 18).toString()],
         to: walletAddress, // Migration contract address
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
       logger.info(`BSC migration executed via chain signatures: ${amount} from ${fromProtocol} to ${toProtocol} for ${walletAddress}`);
       
@@ -365,6 +322,13 @@ export class BSCProtocol {
     }
   }
 
+  /**
+   * Address derived from the agent's chain-signature key for this chain
+   */
+  async getAgentAddress(): Promise<string> {
+    return (await chainSignatureService.deriveAccount(this.chain)).address;
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       if (!this.isInitialized || !this.provider) {
@@ -380,13 +344,24 @@ export class BSCProtocol {
   }
 
   private getProtocolContract(token: string): string {
-    // Map tokens to their respective protocol contracts
-    const contracts: Record<string, string> = {
-      'CAKE': '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82', // PancakeSwap
-      'XVS': '0xcF6BB5389c92Bdda8a3747Ddb454cB7a64626C63', // Venus
-      'ALPACA': '0x8F0528cE5eF7B51152A59745bEfDD91D97091d2F', // Alpaca
-    };
-    return contracts[token] || '0x0000000000000000000000000000000000000000';
+    // Token / protocol contracts come from the active network profile
+    return this.network?.tokens[token] || '0x0000000000000000000000000000000000000000';
+  }
+
+  private getTokenAddress(symbol: string): string {
+    const address = this.network?.tokens[symbol];
+    if (!address) {
+      throw new Error(`Unknown token ${symbol} for BSC on ${this.network?.name}`);
+    }
+    return address;
+  }
+
+  private getSwapRouter(): string {
+    const router = this.network?.contracts.swapRouter;
+    if (!router) {
+      throw new Error(`No PancakeSwap router configured for BSC on ${this.network?.name}`);
+    }
+    return router;
   }
 
   private async getPancakeSwapOpportunities(): Promise<YieldOpportunity[]> {
@@ -431,6 +406,7 @@ export class BSCProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching PancakeSwap opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'pancakeswap-v2' });
       return [];
     }
   }
@@ -475,6 +451,7 @@ export class BSCProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Venus opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'venus' });
       return [];
     }
   }
@@ -503,6 +480,7 @@ export class BSCProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Alpaca opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'alpaca-finance' });
       return [];
     }
   }
@@ -0,0 +1,89 @@
+/**
+ * Common contract implemented by every chain integration
+ * (NearProtocol, EthereumProtocol, BSCProtocol, PolygonProtocol, ...)
+ */
+
+export interface YieldOpportunity {
+  id: string;
+  protocol: string;
+  chain: string;
+  poolId: string;
+  token: string;
+  apy: number;
+  tvl: number;
+  riskScore: number;
+  minDeposit: number;
+  maxDeposit?: number;
+  lockPeriod?: number;
+  fees: {
+    deposit: number;
+    withdraw: number;
+    management: number;
+  };
+  metadata: {
+    poolType: string;
+    underlying?: string[];
+    leverage?: number;
+    autoCompound?: boolean;
+    [key: string]: any; // protocol-specific extras (volume24h, collateralRatio, ...)
+  };
+  lastUpdated: Date;
+}
+
+export interface PositionData {
+  symbol: string;
+  amount: number;
+  value: number;
+  currentPrice: number;
+  apy: number;
+  riskScore: number;
+  rewards?: {
+    token: string;
+    amount: number;
+    value: number;
+  }[];
+  metadata: {
+    poolId?: string;
+    leverage?: number;
+    collateralRatio?: number;
+    liquidationPrice?: number;
+    healthFactor?: number; // lending positions; liquidation below 1
+  };
+}
+
+export interface ChainMarketConditions {
+  gasPrice: number;
+  blockTime: number;
+  averageApy: number;
+  totalTvl: number;
+}
+
+export interface TransactionResult {
+  hash: string;
+  gasUsed?: number;
+}
+
+export interface ChainAdapter {
+  /** Registry key, e.g. 'near' or 'ethereum' */
+  readonly chain: string;
+
+  initialize(): Promise<void>;
+  shutdown(): Promise<void>;
+  healthCheck(): Promise<boolean>;
+
+  getYieldOpportunities(): Promise<YieldOpportunity[]>;
+  getYieldHistory(poolId: string, days: number): Promise<any[]>;
+  getPositionData(tokenAddress: string, walletAddress: string): Promise<PositionData>;
+  getMarketConditions(): Promise<ChainMarketConditions>;
+  /** Health factor of the wallet's borrowing on a lending protocol; undefined without debt there */
+  getHealthFactor?(walletAddress: string, protocol: string): Promise<number | undefined>;
+
+  withdraw(walletAddress: string, token: string, amount: number): Promise<TransactionResult>;
+  deposit(walletAddress: string, token: string, amount: number): Promise<TransactionResult>;
+  swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<TransactionResult>;
+  migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<TransactionResult>;
+  waitForTransaction(txHash: string): Promise<void>;
+
+  /** Account the agent's transactions on this chain originate from */
+  getAgentAddress(): Promise<string>;
+}
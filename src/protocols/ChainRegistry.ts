@@ -0,0 +1,67 @@
+import { ChainAdapter } from './ChainAdapter';
+import { NearProtocol } from './NearProtocol';
+import { EthereumProtocol } from './EthereumProtocol';
+import { BSCProtocol } from './BSCProtocol';
+import { PolygonProtocol } from './PolygonProtocol';
+
+/**
+ * Lookup table of chain adapters keyed by chain name. Services resolve
+ * chains through the registry, so adding a chain only means registering
+ * another ChainAdapter here.
+ */
+export class ChainRegistry {
+  private adapters: Map<string, ChainAdapter> = new Map();
+
+  register(adapter: ChainAdapter): this {
+    if (this.adapters.has(adapter.chain)) {
+      throw new Error(`Chain already registered: ${adapter.chain}`);
+    }
+
+    this.adapters.set(adapter.chain, adapter);
+    return this;
+  }
+
+  get(chain: string): ChainAdapter {
+    const adapter = this.adapters.get(chain);
+    if (!adapter) {
+      throw new Error(`Unsupported chain: ${chain}`);
+    }
+
+    return adapter;
+  }
+
+  has(chain: string): boolean {
+    return this.adapters.has(chain);
+  }
+
+  chains(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  list(): ChainAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  async initializeAll(): Promise<void> {
+    for (const adapter of this.adapters.values()) {
+      await adapter.initialize();
+    }
+  }
+
+  async shutdownAll(): Promise<void> {
+    for (const adapter of this.adapters.values()) {
+      await adapter.shutdown();
+    }
+  }
+}
+
+/**
+ * Registry with the chains DeFiFlow supports out of the box
+ */
+export function createDefaultChainRegistry(): ChainRegistry {
+  return new ChainRegistry()
+    .register(new NearProtocol())
+    .register(new EthereumProtocol())
+    .register(new BSCProtocol())
+    .register(new PolygonProtocol());
+}
@@ -1,73 +1,28 @@
 import { ethers } from 'ethers';
 import axios from 'axios';
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
+import { protocolFetchErrors, timeProtocolFetch } from '../utils/metrics';
+import { ChainAdapter, ChainMarketConditions, PositionData, TransactionResult, YieldOpportunity } from './ChainAdapter';
 import { chainSignatureService, ChainSignatureRequest } from '../lib/chain-signatures';
+import { EvmNetworkConfig, getNetworkProfile } from '../config/networks';
+import { getAaveUserData } from './ethereum/aave';
 
-export interface YieldOpportunity {
-  id: string;
-  protocol: string;
-  chain: 'ethereum';
-  poolId: string;
-  token: string;
-  apy: number;
-  tvl: number;
-  riskScore: number;
-  minDeposit: number;
-  maxDeposit?: number;
-  lockPeriod?: number;
-  fees: {
-    deposit: number;
-    withdraw: number;
-    management: number;
-  };
-  metadata: {
-    poolType: string;
-    underlying?: string[];
-    leverage?: number;
-    autoCompound?: boolean;
-  };
-  lastUpdated: Date;
-}
-
-export interface PositionData {
-  symbol: string;
-  amount: number;
-  value: number;
-  currentPrice: number;
-  apy: number;
-  riskScore: number;
-  rewards?: {
-    token: string;
-    amount: number;
-    value: number;
-  }[];
-  metadata: {
-    poolId?: string;
-    leverage?: number;
-    collateralRatio?: number;
-    liquidationPrice?: number;
-  };
-}
-
-export interface MarketConditions {
-  gasPrice: number;
-  blockTime: number;
-  averageApy: number;
-  totalTvl: number;
-}
-
-export class EthereumProtocol {
+const logger = createLogger('protocols/EthereumProtocol');
+
+export class EthereumProtocol implements ChainAdapter {
+  readonly chain = 'ethereum';
   private provider?: ethers.Provider;
   private signer?: ethers.Signer;
+  private network?: EvmNetworkConfig;
   private isInitialized: boolean = false;
 
   async initialize(): Promise<void> {
     try {
       logger.info('Initializing Ethereum Protocol integration...');
       
-      // Initialize ethers provider
-      const rpcUrl = process.env.ETHEREUM_RPC_URL || 'https://eth-sepolia.g.alchemy.com/v2/EQg9SpbyMVLhZ7QmhA7bJ_U_z9QIIeTQ';
-      this.provider = new ethers.JsonRpcProvider(rpcUrl);
+      // Initialize ethers provider for the active network profile
+      this.network = getNetworkProfile().evm.ethereum;
+      this.provider = new ethers.JsonRpcProvider(this.network.rpcUrl);
 
       // Initialize signer if private key is provided
       if (process.env.ETHEREUM_PRIVATE_KEY) {
@@ -76,7 +31,10 @@ export class EthereumProtocol {
 
       // Test connection
       const network = await this.provider.getNetwork();
-      logger.info(`Connected to Ethereum network: ${network.name} (chainId: ${network.chainId})`);
+      if (Number(network.chainId) !== this.network.chainId) {
+        throw new Error(`Ethereum RPC is on chainId ${network.chainId}, expected ${this.network.chainId} (${this.network.name})`);
+      }
+      logger.info(`Connected to Ethereum network: ${this.network.name} (chainId: ${network.chainId})`);
 
       // Initialize chain signature service
       await chainSignatureService.initialize();
@@ -105,23 +63,23 @@ export class EthereumProtocol {
       const opportunities: YieldOpportunity[] = [];
 
       // Aave opportunities
-      const aaveOpportunities = await this.getAaveOpportunities();
+      const aaveOpportunities = await timeProtocolFetch(this.chain, 'aave-v3', () => this.getAaveOpportunities());
       opportunities.push(...aaveOpportunities);
 
       // Compound opportunities
-      const compoundOpportunities = await this.getCompoundOpportunities();
+      const compoundOpportunities = await timeProtocolFetch(this.chain, 'compound-v3', () => this.getCompoundOpportunities());
       opportunities.push(...compoundOpportunities);
 
       // Uniswap V3 opportunities
-      const uniswapOpportunities = await this.getUniswapOpportunities();
+      const uniswapOpportunities = await timeProtocolFetch(this.chain, 'uniswap-v3', () => this.getUniswapOpportunities());
       opportunities.push(...uniswapOpportunities);
 
       // Curve opportunities
-      const curveOpportunities = await this.getCurveOpportunities();
+      const curveOpportunities = await timeProtocolFetch(this.chain, 'curve', () => this.getCurveOpportunities());
       opportunities.push(...curveOpportunities);
 
       // Lido staking opportunities
-      const lidoOpportunities = await this.getLidoOpportunities();
+      const lidoOpportunities = await timeProtocolFetch(this.chain, 'lido', () => this.getLidoOpportunities());
       opportunities.push(...lidoOpportunities);
 
       logger.info(`Found ${opportunities.length} Ethereum yield opportunities`);
@@ -208,7 +166,20 @@ export class EthereumProtocol {
     }
   }
 
-  async getMarketConditions(): Promise<MarketConditions> {
+  async getHealthFactor(walletAddress: string, protocol: string): Promise<number | undefined> {
+    if (!protocol.startsWith('aave')) {
+      return undefined;
+    }
+
+    const userData = await getAaveUserData(walletAddress);
+    if (!userData || Number(userData.totalDebtETH) === 0) {
+      return undefined;
+    }
+
+    return Number(userData.healthFactor);
+  }
+
+  async getMarketConditions(): Promise<ChainMarketConditions> {
     if (!this.isInitialized || !this.provider) {
       throw new Error('Ethereum Protocol not initialized');
     }
@@ -236,7 +207,7 @@ export class EthereumProtocol {
     }
   }
 
-  async withdraw(walletAddress: string, token: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async withdraw(walletAddress: string, token: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('Ethereum Protocol not initialized or no signer available');
     }
@@ -245,15 +216,15 @@ export class EthereumProtocol {
       // Use chain signature service for cross-chain withdrawal
       const request: ChainSignatureRequest = {
         chain: 'ethereum',
-        method: 'withdraw',
+        method: 'withdraw(address,uint256)',
         params: [walletAddress, ethers.parseUnits(amount.toString(), 18).toString()],
         to: this.getProtocolContract(token),
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
-      logger.info(`Ethereum withdraw executed via chain signatures: ${amount} ${token} for ${walletAddress}`);
+      logger.info(`Ethereum withdraw executed via chain signatures from ${await this.getAgentAddress()}: ${amount} ${token} for ${walletAddress}`);
       
       return {
         hash: txHash,
@@ -265,7 +236,7 @@ export class EthereumProtocol {
     }
   }
 
-  async deposit(walletAddress: string, token: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async deposit(walletAddress: string, token: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('Ethereum Protocol not initialized or no signer available');
     }
@@ -274,15 +245,15 @@ export class EthereumProtocol {
       // Use chain signature service for cross-chain deposit
       const request: ChainSignatureRequest = {
         chain: 'ethereum',
-        method: 'deposit',
+        method: 'deposit(address,uint256)',
         params: [walletAddress, ethers.parseUnits(amount.toString(), 18).toString()],
         to: this.getProtocolContract(token),
         value: token === 'ETH' ? ethers.parseEther(amount.toString()).toString() : '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
-      logger.info(`Ethereum deposit executed via chain signatures: ${amount} ${token} for ${walletAddress}`);
+      logger.info(`Ethereum deposit executed via chain signatures from ${await this.getAgentAddress()}: ${amount} ${token} for ${walletAddress}`);
       
       return {
         hash: txHash,
@@ -294,7 +265,7 @@ export class EthereumProtocol {
     }
   }
 
-  async swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<{ hash: string; gasUsed?: number }> {
+  async swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('Ethereum Protocol not initialized or no signer available');
     }
@@ -303,19 +274,19 @@ export class EthereumProtocol {
       // Use chain signature service for cross-chain swap
       const request: ChainSignatureRequest = {
         chain: 'ethereum',
-        method: 'swapExactTokensForTokens',
+        method: 'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
         params: [
           ethers.parseUnits(amount.toString(), 18).toString(),
           '0', // Min amount out (calculated with slippage)
-          [token, 'USDC'], // Path
+          [this.getTokenAddress(token), this.getTokenAddress('USDC')], // Path
           walletAddress,
           Math.floor(Date.now() / 1000) + 3600 // Deadline
         ],
-        to: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', // Uniswap V2 Router
+        to: this.getSwapRouter(),
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
       logger.info(`Ethereum swap executed via chain signatures: ${amount} ${token} for ${walletAddress} with ${slippage}% slippage`);
       
@@ -329,7 +300,7 @@ export class EthereumProtocol {
     }
   }
 
-  async migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('Ethereum Protocol not initialized or no signer available');
     }
@@ -339,13 +310,13 @@ export class EthereumProtocol {
       // This would be handled by a smart contract in production
       const request: ChainSignatureRequest = {
         chain: 'ethereum',
-        method: 'migrate',
+        method: 'migrate(string,string,uint256)',
         params: [fromProtocol, toProtocol, ethers.parseUnits(amount.toString(), 18).toString()],
         to: walletAddress, // Migration contract address
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
       logger.info(`Ethereum migration executed via chain signatures: ${amount} from ${fromProtocol} to ${toProtocol} for ${walletAddress}`);
       
@@ -377,6 +348,13 @@ export class EthereumProtocol {
     }
   }
 
+  /**
+   * Address derived from the agent's chain-signature key for this chain
+   */
+  async getAgentAddress(): Promise<string> {
+    return (await chainSignatureService.deriveAccount(this.chain)).address;
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       if (!this.isInitialized || !this.provider) {
@@ -433,6 +411,7 @@ export class EthereumProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Aave opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'aave-v3' });
       return [];
     }
   }
@@ -461,6 +440,7 @@ export class EthereumProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Compound opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'compound-v3' });
       return [];
     }
   }
@@ -490,6 +470,7 @@ export class EthereumProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Uniswap opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'uniswap-v3' });
       return [];
     }
   }
@@ -519,6 +500,7 @@ export class EthereumProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Curve opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'curve' });
       return [];
     }
   }
@@ -547,19 +529,30 @@ export class EthereumProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Lido opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'lido' });
       return [];
     }
   }
 
   private getProtocolContract(token: string): string {
-    // Map tokens to their respective protocol contracts
-    const contracts: Record<string, string> = {
-      'AAVE': '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9', // Aave
-      'COMP': '0xc00e94Cb662C3520282E6f5717214004A7f26888', // Compound
-      'UNI': '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', // Uniswap
-      'CRV': '0xD533a949740bb3306d119CC777fa900bA034cd52', // Curve
-      'LIDO': '0x5A98FcBEA516Cf06857215779Fd812CA3beF1B32', // Lido
-    };
-    return contracts[token] || '0x0000000000000000000000000000000000000000';
+    // Token / protocol contracts come from the active network profile
+    return this.network?.tokens[token] || '0x0000000000000000000000000000000000000000';
+  }
+
+  private getTokenAddress(symbol: string): string {
+    const address = this.network?.tokens[symbol];
+    if (!address) {
+      throw new Error(`Unknown token ${symbol} for Ethereum on ${this.network?.name}`);
+    }
+    return address;
   }
+
+  private getSwapRouter(): string {
+    const router = this.network?.contracts.swapRouter;
+    if (!router) {
+      throw new Error(`No Uniswap V2 router configured for Ethereum on ${this.network?.name}`);
+    }
+    return router;
+  }
+
 }
\ No newline at end of file
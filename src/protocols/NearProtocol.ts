@@ -1,60 +1,14 @@
 import { agent, agentAccountId, agentView, agentCall, requestSignature } from '../lib/shade-agent';
-import { logger } from '../utils/logger';
-
-export interface YieldOpportunity {
-  id: string;
-  protocol: string;
-  chain: 'near';
-  poolId: string;
-  token: string;
-  apy: number;
-  tvl: number;
-  riskScore: number;
-  minDeposit: number;
-  maxDeposit?: number;
-  lockPeriod?: number;
-  fees: {
-    deposit: number;
-    withdraw: number;
-    management: number;
-  };
-  metadata: {
-    poolType: string;
-    underlying?: string[];
-    leverage?: number;
-    autoCompound?: boolean;
-  };
-  lastUpdated: Date;
-}
-
-export interface PositionData {
-  symbol: string;
-  amount: number;
-  value: number;
-  currentPrice: number;
-  apy: number;
-  riskScore: number;
-  rewards?: {
-    token: string;
-    amount: number;
-    value: number;
-  }[];
-  metadata: {
-    poolId?: string;
-    leverage?: number;
-    collateralRatio?: number;
-    liquidationPrice?: number;
-  };
-}
-
-export interface MarketConditions {
-  gasPrice: number;
-  blockTime: number;
-  averageApy: number;
-  totalTvl: number;
-}
-
-export class NearProtocol {
+import { createLogger } from '../utils/logger';
+import { protocolFetchErrors, timeProtocolFetch } from '../utils/metrics';
+import { INTERVAL_SECONDS, defaultInterval, fillGaps } from '../utils/timeSeries';
+import { yieldSnapshotRepository } from '../db/repositories/YieldSnapshotRepository';
+import { ChainAdapter, ChainMarketConditions, PositionData, TransactionResult, YieldOpportunity } from './ChainAdapter';
+
+const logger = createLogger('protocols/NearProtocol');
+
+export class NearProtocol implements ChainAdapter {
+  readonly chain = 'near';
   private isInitialized: boolean = false;
 
   async initialize(): Promise<void> {
@@ -93,19 +47,19 @@ export class NearProtocol {
       const opportunities: YieldOpportunity[] = [];
 
       // Ref Finance opportunities
-      const refOpportunities = await this.getRefFinanceOpportunities();
+      const refOpportunities = await timeProtocolFetch(this.chain, 'ref-finance', () => this.getRefFinanceOpportunities());
       opportunities.push(...refOpportunities);
 
       // Burrow Finance opportunities
-      const burrowOpportunities = await this.getBurrowOpportunities();
+      const burrowOpportunities = await timeProtocolFetch(this.chain, 'burrow', () => this.getBurrowOpportunities());
       opportunities.push(...burrowOpportunities);
 
       // Aurora opportunities
-      const auroraOpportunities = await this.getAuroraOpportunities();
+      const auroraOpportunities = await timeProtocolFetch(this.chain, 'aurora-trisolaris', () => this.getAuroraOpportunities());
       opportunities.push(...auroraOpportunities);
 
       // Trisolaris opportunities
-      const triOpportunities = await this.getTrisolarisOpportunities();
+      const triOpportunities = await timeProtocolFetch(this.chain, 'trisolaris', () => this.getTrisolarisOpportunities());
       opportunities.push(...triOpportunities);
 
       logger.info(`Found ${opportunities.length} NEAR yield opportunities`);
@@ -122,10 +76,12 @@ export class NearProtocol {
     }
 
     try {
-      // Mock historical data for now - would use agentView for real data
-      const history: any[] = [];
+      // Ref and Burrow expose no APY history, so serve what the yield monitor recorded
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const interval = defaultInterval(days);
+      const series = await yieldSnapshotRepository.findSeries({ chain: this.chain, poolId }, since, INTERVAL_SECONDS[interval]);
 
-      return history || [];
+      return fillGaps(series, interval, since);
     } catch (error) {
       logger.error(`Error fetching yield history for ${poolId}:`, error);
       return [];
@@ -157,7 +113,7 @@ export class NearProtocol {
     }
   }
 
-  async getMarketConditions(): Promise<MarketConditions> {
+  async getMarketConditions(): Promise<ChainMarketConditions> {
     if (!this.isInitialized) {
       throw new Error('NEAR Protocol not initialized');
     }
@@ -193,7 +149,7 @@ export class NearProtocol {
     }
   }
 
-  async withdraw(walletAddress: string, token: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async withdraw(walletAddress: string, token: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized) {
       throw new Error('NEAR Protocol not initialized');
     }
@@ -215,7 +171,7 @@ export class NearProtocol {
     }
   }
 
-  async deposit(walletAddress: string, token: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async deposit(walletAddress: string, token: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized) {
       throw new Error('NEAR Protocol not initialized');
     }
@@ -237,7 +193,7 @@ export class NearProtocol {
     }
   }
 
-  async swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<{ hash: string; gasUsed?: number }> {
+  async swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<TransactionResult> {
     if (!this.isInitialized) {
       throw new Error('NEAR Protocol not initialized');
     }
@@ -259,7 +215,7 @@ export class NearProtocol {
     }
   }
 
-  async migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized) {
       throw new Error('NEAR Protocol not initialized');
     }
@@ -295,6 +251,10 @@ export class NearProtocol {
     }
   }
 
+  async getAgentAddress(): Promise<string> {
+    return (await agentAccountId()).accountId;
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       if (!this.isInitialized) {
@@ -347,6 +307,7 @@ export class NearProtocol {
       }));
     } catch (error) {
       logger.error('Error fetching Ref Finance opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'ref-finance' });
       return [];
     }
   }
@@ -405,6 +366,7 @@ export class NearProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Burrow opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'burrow' });
       return [];
     }
   }
@@ -434,6 +396,7 @@ export class NearProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Aurora opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'aurora-trisolaris' });
       return [];
     }
   }
@@ -463,6 +426,7 @@ export class NearProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Trisolaris opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'trisolaris' });
       return [];
     }
   }
@@ -1,73 +1,27 @@
 import { ethers } from 'ethers';
 import axios from 'axios';
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
+import { protocolFetchErrors, timeProtocolFetch } from '../utils/metrics';
+import { ChainAdapter, ChainMarketConditions, PositionData, TransactionResult, YieldOpportunity } from './ChainAdapter';
 import { chainSignatureService, ChainSignatureRequest } from '../lib/chain-signatures';
+import { EvmNetworkConfig, getNetworkProfile } from '../config/networks';
 
-export interface YieldOpportunity {
-  id: string;
-  protocol: string;
-  chain: 'polygon';
-  poolId: string;
-  token: string;
-  apy: number;
-  tvl: number;
-  riskScore: number;
-  minDeposit: number;
-  maxDeposit?: number;
-  lockPeriod?: number;
-  fees: {
-    deposit: number;
-    withdraw: number;
-    management: number;
-  };
-  metadata: {
-    poolType: string;
-    underlying?: string[];
-    leverage?: number;
-    autoCompound?: boolean;
-  };
-  lastUpdated: Date;
-}
-
-export interface PositionData {
-  symbol: string;
-  amount: number;
-  value: number;
-  currentPrice: number;
-  apy: number;
-  riskScore: number;
-  rewards?: {
-    token: string;
-    amount: number;
-    value: number;
-  }[];
-  metadata: {
-    poolId?: string;
-    leverage?: number;
-    collateralRatio?: number;
-    liquidationPrice?: number;
-  };
-}
-
-export interface MarketConditions {
-  gasPrice: number;
-  blockTime: number;
-  averageApy: number;
-  totalTvl: number;
-}
-
-export class PolygonProtocol {
+const logger = createLogger('protocols/PolygonProtocol');
+
+export class PolygonProtocol implements ChainAdapter {
+  readonly chain = 'polygon';
   private provider?: ethers.Provider;
   private signer?: ethers.Signer;
+  private network?: EvmNetworkConfig;
   private isInitialized: boolean = false;
 
   async initialize(): Promise<void> {
     try {
       logger.info('Initializing Polygon Protocol integration...');
       
-      // Initialize ethers provider
-      const rpcUrl = process.env.POLYGON_RPC_URL || 'https://polygon-mumbai.g.alchemy.com/v2/YOUR-API-KEY';
-      this.provider = new ethers.JsonRpcProvider(rpcUrl);
+      // Initialize ethers provider for the active network profile
+      this.network = getNetworkProfile().evm.polygon;
+      this.provider = new ethers.JsonRpcProvider(this.network.rpcUrl);
 
       // Initialize signer if private key is provided
       if (process.env.POLYGON_PRIVATE_KEY) {
@@ -79,7 +33,10 @@ export class PolygonProtocol {
 
       // Test connection
       const network = await this.provider.getNetwork();
-      logger.info(`Connected to Polygon network: ${network.name} (chainId: ${network.chainId})`);
+      if (Number(network.chainId) !== this.network.chainId) {
+        throw new Error(`Polygon RPC is on chainId ${network.chainId}, expected ${this.network.chainId} (${this.network.name})`);
+      }
+      logger.info(`Connected to Polygon network: ${this.network.name} (chainId: ${network.chainId})`);
 
       this.isInitialized = true;
       logger.info('Polygon Protocol integration initialized successfully');
@@ -105,19 +62,19 @@ export class PolygonProtocol {
       const opportunities: YieldOpportunity[] = [];
 
       // QuickSwap opportunities
-      const quickSwapOpportunities = await this.getQuickSwapOpportunities();
+      const quickSwapOpportunities = await timeProtocolFetch(this.chain, 'quickswap', () => this.getQuickSwapOpportunities());
       opportunities.push(...quickSwapOpportunities);
 
       // Aave Polygon opportunities
-      const aaveOpportunities = await this.getAavePolygonOpportunities();
+      const aaveOpportunities = await timeProtocolFetch(this.chain, 'aave-v3', () => this.getAavePolygonOpportunities());
       opportunities.push(...aaveOpportunities);
 
       // Curve Polygon opportunities
-      const curveOpportunities = await this.getCurvePolygonOpportunities();
+      const curveOpportunities = await timeProtocolFetch(this.chain, 'curve', () => this.getCurvePolygonOpportunities());
       opportunities.push(...curveOpportunities);
 
       // QiDao opportunities
-      const qiDaoOpportunities = await this.getQiDaoOpportunities();
+      const qiDaoOpportunities = await timeProtocolFetch(this.chain, 'qidao', () => this.getQiDaoOpportunities());
       opportunities.push(...qiDaoOpportunities);
 
       logger.info(`Found ${opportunities.length} Polygon yield opportunities`);
@@ -202,7 +159,7 @@ export class PolygonProtocol {
     }
   }
 
-  async getMarketConditions(): Promise<MarketConditions> {
+  async getMarketConditions(): Promise<ChainMarketConditions> {
     if (!this.isInitialized || !this.provider) {
       throw new Error('Polygon Protocol not initialized');
     }
@@ -229,7 +186,7 @@ export class PolygonProtocol {
     }
   }
 
-  async withdraw(walletAddress: string, token: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async withdraw(walletAddress: string, token: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('Polygon Protocol not initialized or no signer available');
     }
@@ -238,15 +195,15 @@ export class PolygonProtocol {
       // Use chain signature service for cross-chain withdrawal
       const request: ChainSignatureRequest = {
         chain: 'polygon',
-        method: 'withdraw',
+        method: 'withdraw(address,uint256)',
         params: [walletAddress, ethers.parseUnits(amount.toString(), 18).toString()],
         to: this.getProtocolContract(token),
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
-      logger.info(`Polygon withdraw executed via chain signatures: ${amount} ${token} for ${walletAddress}`);
+      logger.info(`Polygon withdraw executed via chain signatures from ${await this.getAgentAddress()}: ${amount} ${token} for ${walletAddress}`);
       
       return {
         hash: txHash,
@@ -258,7 +215,7 @@ export class PolygonProtocol {
     }
   }
 
-  async deposit(walletAddress: string, token: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async deposit(walletAddress: string, token: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('Polygon Protocol not initialized or no signer available');
     }
@@ -267,15 +224,15 @@ export class PolygonProtocol {
       // Use chain signature service for cross-chain deposit
       const request: ChainSignatureRequest = {
         chain: 'polygon',
-        method: 'deposit',
+        method: 'deposit(address,uint256)',
         params: [walletAddress, ethers.parseUnits(amount.toString(), 18).toString()],
         to: this.getProtocolContract(token),
         value: token === 'MATIC' ? ethers.parseEther(amount.toString()).toString() : '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
-      logger.info(`Polygon deposit executed via chain signatures: ${amount} ${token} for ${walletAddress}`);
+      logger.info(`Polygon deposit executed via chain signatures from ${await this.getAgentAddress()}: ${amount} ${token} for ${walletAddress}`);
       
       return {
         hash: txHash,
@@ -287,7 +244,7 @@ export class PolygonProtocol {
     }
   }
 
-  async swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<{ hash: string; gasUsed?: number }> {
+  async swap(walletAddress: string, token: string, amount: number, slippage?: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('Polygon Protocol not initialized or no signer available');
     }
@@ -296,19 +253,19 @@ export class PolygonProtocol {
       // Use chain signature service for cross-chain swap
       const request: ChainSignatureRequest = {
         chain: 'polygon',
-        method: 'swapExactTokensForTokens',
+        method: 'swapExactTokensForTokens(uint256,uint256,address[],address,uint256)',
         params: [
           ethers.parseUnits(amount.toString(), 18).toString(),
           '0', // Min amount out (calculated with slippage)
-          [token, 'USDC'], // Path
+          [this.getTokenAddress(token), this.getTokenAddress('USDC')], // Path
           walletAddress,
           Math.floor(Date.now() / 1000) + 3600 // Deadline
         ],
-        to: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff', // QuickSwap Router
+        to: this.getSwapRouter(),
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
       logger.info(`Polygon swap executed via chain signatures: ${amount} ${token} for ${walletAddress} with ${slippage}% slippage`);
       
@@ -322,7 +279,7 @@ export class PolygonProtocol {
     }
   }
 
-  async migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<{ hash: string; gasUsed?: number }> {
+  async migrate(walletAddress: string, fromProtocol: string, toProtocol: string, amount: number): Promise<TransactionResult> {
     if (!this.isInitialized || !this.signer) {
       throw new Error('Polygon Protocol not initialized or no signer available');
     }
@@ -331,13 +288,13 @@ export class PolygonProtocol {
       // Migration involves withdraw from one protocol and deposit to another
       const request: ChainSignatureRequest = {
         chain: 'polygon',
-        method: 'migrate',
+        method: 'migrate(string,string,uint256)',
         params: [fromProtocol, toProtocol, ethers.parseUnits(amount.toString(), 18).toString()],
         to: walletAddress, // Migration contract address
         value: '0'
       };
 
-      const txHash = await chainSignatureService.executeCrossChainTx(request);
+      const txHash = await chainSignatureService.executeCrossChainTx(request, this.provider!);
       
       logger.info(`Polygon migration executed via chain signatures: ${amount} from ${fromProtocol} to ${toProtocol} for ${walletAddress}`);
       
@@ -369,6 +326,13 @@ export class PolygonProtocol {
     }
   }
 
+  /**
+   * Address derived from the agent's chain-signature key for this chain
+   */
+  async getAgentAddress(): Promise<string> {
+    return (await chainSignatureService.deriveAccount(this.chain)).address;
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       if (!this.isInitialized || !this.provider) {
@@ -384,14 +348,24 @@ export class PolygonProtocol {
   }
 
   private getProtocolContract(token: string): string {
-    // Map tokens to their respective protocol contracts
-    const contracts: Record<string, string> = {
-      'QUICK': '0x831753DD7087CaC61aB5644b308642cc1c33Dc13', // QuickSwap
-      'AAVE': '0xD6DF932A45C0f255f85145f286eA0b292B21C90B', // Aave
-      'CRV': '0x172370d5Cd63279eFa6d502DAB29171933a610AF', // Curve
-      'QI': '0x580A84C73811E1839F75d86d75d88cCa0c241fF4', // QiDao
-    };
-    return contracts[token] || '0x0000000000000000000000000000000000000000';
+    // Token / protocol contracts come from the active network profile
+    return this.network?.tokens[token] || '0x0000000000000000000000000000000000000000';
+  }
+
+  private getTokenAddress(symbol: string): string {
+    const address = this.network?.tokens[symbol];
+    if (!address) {
+      throw new Error(`Unknown token ${symbol} for Polygon on ${this.network?.name}`);
+    }
+    return address;
+  }
+
+  private getSwapRouter(): string {
+    const router = this.network?.contracts.swapRouter;
+    if (!router) {
+      throw new Error(`No QuickSwap router configured for Polygon on ${this.network?.name}`);
+    }
+    return router;
   }
 
   private async getQuickSwapOpportunities(): Promise<YieldOpportunity[]> {
@@ -436,6 +410,7 @@ export class PolygonProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching QuickSwap opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'quickswap' });
       return [];
     }
   }
@@ -480,6 +455,7 @@ export class PolygonProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Aave Polygon opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'aave-v3' });
       return [];
     }
   }
@@ -508,6 +484,7 @@ export class PolygonProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching Curve Polygon opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'curve' });
       return [];
     }
   }
@@ -536,6 +513,7 @@ export class PolygonProtocol {
       ];
     } catch (error) {
       logger.error('Error fetching QiDao opportunities:', error);
+      protocolFetchErrors.inc({ chain: this.chain, protocol: 'qidao' });
       return [];
     }
   }
@@ -1,10 +1,13 @@
 import axios from 'axios';
 import { ethers } from 'ethers';
 import { requestSignature } from '../../lib/shade-agent';
+import { getNetworkProfile } from '../../config/networks';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('protocols/ethereum/aave');
 
 // Aave V3 Subgraph URL
 const AAVE_V3_SUBGRAPH = 'https://api.thegraph.com/subgraphs/name/aave/protocol-v3';
-const AAVE_DATA_PROVIDER = '0x7B4EB56E7CD4b454BA8ff71E4518426369a138a3'; // Mainnet
 
 export interface AaveYield {
   protocol: string;
@@ -71,7 +74,7 @@ export async function fetchAaveYields(): Promise<AaveYield[]> {
     
     return yields;
   } catch (error) {
-    console.error('Error fetching Aave yields:', error);
+    logger.error('Error fetching Aave yields:', error);
     return [];
   }
 }
@@ -79,7 +82,8 @@ export async function fetchAaveYields(): Promise<AaveYield[]> {
 export async function getAaveUserData(userAddress: string) {
   try {
     // This would connect to Aave protocol contracts
-    const provider = new ethers.JsonRpcProvider(process.env.ETH_RPC_URL);
+    const network = getNetworkProfile().evm.ethereum;
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
     
     // Mock user data
     return {
@@ -111,7 +115,7 @@ export async function getAaveUserData(userAddress: string) {
       ]
     };
   } catch (error) {
-    console.error('Error fetching Aave user data:', error);
+    logger.error('Error fetching Aave user data:', error);
     return null;
   }
 }
@@ -125,7 +129,7 @@ export async function calculateAaveRewards(userAddress: string) {
       claimable: true
     };
   } catch (error) {
-    console.error('Error calculating Aave rewards:', error);
+    logger.error('Error calculating Aave rewards:', error);
     return null;
   }
 }
\ No newline at end of file
@@ -1,6 +1,10 @@
 import axios from 'axios';
 import { ethers } from 'ethers';
 import { requestSignature } from '../../lib/shade-agent';
+import { getNetworkProfile } from '../../config/networks';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('protocols/ethereum/uniswap');
 
 // Uniswap V3 Subgraph URL
 const UNISWAP_V3_GRAPH_URL = 'https://api.thegraph.com/subgraphs/name/uniswap/uniswap-v3';
@@ -70,7 +74,7 @@ export async function fetchUniswapV3Yields(): Promise<UniswapYield[]> {
     );
 
     if (!response.data || !response.data.data || !response.data.data.pools) {
-      console.error('Invalid response from Uniswap subgraph');
+      logger.error('Invalid response from Uniswap subgraph');
       return getFallbackPools();
     }
 
@@ -107,7 +111,7 @@ export async function fetchUniswapV3Yields(): Promise<UniswapYield[]> {
       };
     }).filter((pool: UniswapYield) => pool.apy > 0); // Filter out pools with 0 APY
   } catch (error) {
-    console.error('Error fetching Uniswap yields:', error);
+    logger.error('Error fetching Uniswap yields:', error);
     return getFallbackPools();
   }
 }
@@ -171,10 +175,14 @@ function calculateIL(token0: string, token1: string): number {
 
 export async function getUniswapPosition(poolAddress: string, userAddress: string) {
   try {
-    const provider = new ethers.JsonRpcProvider(process.env.ETH_RPC_URL || 'https://eth-mainnet.g.alchemy.com/v2/demo');
+    const network = getNetworkProfile().evm.ethereum;
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
     
     // Uniswap V3 NFT Position Manager contract
-    const positionManagerAddress = '0xC36442b4a4522E871399CD717aBDD847Ab11FE88';
+    const positionManagerAddress = network.contracts.uniswapPositionManager;
+    if (!positionManagerAddress) {
+      throw new Error(`No Uniswap V3 position manager configured on ${network.name}`);
+    }
     const positionManagerABI = [
       'function positions(uint256 tokenId) view returns (uint96 nonce, address operator, address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)',
       'function balanceOf(address owner) view returns (uint256)'
@@ -197,7 +205,7 @@ export async function getUniswapPosition(poolAddress: string, userAddress: strin
       message: 'Use Moralis API for detailed position data'
     };
   } catch (error) {
-    console.error('Error fetching Uniswap position:', error);
+    logger.error('Error fetching Uniswap position:', error);
     return null;
   }
 }
\ No newline at end of file
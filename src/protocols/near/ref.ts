@@ -1,5 +1,8 @@
 import axios from 'axios';
 import { agentCall, agentView } from '../../lib/shade-agent';
+import { createLogger } from '../../utils/logger';
+
+const logger = createLogger('protocols/near/ref');
 
 // Ref Finance API endpoints
 const REF_API = 'https://api.ref.finance';
@@ -93,7 +96,7 @@ export async function fetchRefFinanceYields(): Promise<RefFinanceYield[]> {
 
     return yields;
   } catch (error) {
-    console.error('Error fetching Ref Finance yields:', error);
+    logger.error('Error fetching Ref Finance yields:', error);
     
     // Fallback to a smaller set of known pools if API fails
     try {
@@ -135,7 +138,7 @@ export async function fetchRefFinanceYields(): Promise<RefFinanceYield[]> {
         }
       ];
     } catch (fallbackError) {
-      console.error('Fallback fetch also failed:', fallbackError);
+      logger.error('Fallback fetch also failed:', fallbackError);
       return [];
     }
   }
@@ -208,7 +211,7 @@ export async function getRefFinanceUserPositions(accountId: string) {
       totalRewards: totalRewards.toFixed(2)
     };
   } catch (error) {
-    console.error('Error fetching Ref Finance positions:', error);
+    logger.error('Error fetching Ref Finance positions:', error);
     
     // Return empty data on error
     return {
@@ -243,7 +246,7 @@ export async function getRefFinancePoolDetails(poolId: string) {
       tokenAmounts: pool.token_amounts
     };
   } catch (error) {
-    console.error('Error fetching pool details:', error);
+    logger.error('Error fetching pool details:', error);
     return null;
   }
 }
@@ -281,7 +284,7 @@ export async function estimateRefFinanceSwap(
       minAmountOut: data.min_amount_out || data.amount_out
     };
   } catch (error) {
-    console.error('Error estimating Ref Finance swap:', error);
+    logger.error('Error estimating Ref Finance swap:', error);
     
     // Fallback to simple estimation based on common pairs
     const amountInNum = parseFloat(amountIn);
@@ -334,7 +337,7 @@ export async function getRefFinanceStats() {
       userCount: tvlResponse?.data?.user_count || 0
     };
   } catch (error) {
-    console.error('Error fetching Ref Finance stats:', error);
+    logger.error('Error fetching Ref Finance stats:', error);
     return {
       tvl: 0,
       volume24h: 0,
@@ -1,7 +1,12 @@
 import { Hono } from 'hono';
 import { agentAccountId, agent, agentInfo, getAgentBalance, getAgentState } from '../lib/shade-agent';
+import { chainSignatureService } from '../lib/chain-signatures';
+import { getNetworkProfile } from '../config/networks';
 
 import type { AppBindings } from '../types/hono';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('routes/agentStatus');
 
 const agentStatusRoutes = new Hono<AppBindings>();
 
@@ -18,7 +23,7 @@ agentStatusRoutes.get('/', async (c) => {
       lastSync: new Date().toISOString()
     });
   } catch (error) {
-    console.error('Error fetching agent status:', error);
+    logger.error('Error fetching agent status:', error);
     return c.json({ 
       isConnected: false,
       error: 'Failed to fetch agent status' 
@@ -30,12 +35,12 @@ agentStatusRoutes.get('/status', async (c) => {
   try {
     const accountId = await agentAccountId();
 
-    console.log('accountId', accountId);
+    logger.info('accountId', accountId);
 
     const balance = await getAgentBalance();
-    console.log('balance', balance);
+    logger.info('balance', balance);
     const info = await agentInfo();
-    console.log('info', info);
+    logger.info('info', info);
     
     return c.json({
       status: 'active',
@@ -46,7 +51,7 @@ agentStatusRoutes.get('/status', async (c) => {
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    console.error('Error fetching agent status:', error);
+    logger.error('Error fetching agent status:', error);
     return c.json({ error: 'Failed to fetch agent status' }, 500);
   }
 });
@@ -54,35 +59,37 @@ agentStatusRoutes.get('/status', async (c) => {
 agentStatusRoutes.get('/accounts', async (c) => {
   try {
     const nearAccount = await agentAccountId();
-    const contractId = process.env.CONTRACT_ID || `ac-proxy.${process.env.NEAR_ACCOUNT_ID}`;
+    const profile = getNetworkProfile();
     
-    // TODO: Implement proper EVM address derivation using chainsig.js
-    // For now, using placeholder addresses based on contract ID hash
-    const hashBase = Buffer.from(contractId).toString('hex').substring(0, 40);
-    const ethAddress = `0x${hashBase.padEnd(40, '0')}`;
-    const bscAddress = `0x${hashBase.padEnd(40, '1')}`;
-    const polygonAddress = `0x${hashBase.padEnd(40, '2')}`;
+    // EVM addresses are derived from the MPC root key, so they match the
+    // senders of the transactions signed through ChainSignatureService
+    const [ethereum, bsc, polygon] = await Promise.all(
+      ['ethereum', 'bsc', 'polygon'].map(chain => chainSignatureService.deriveAccount(chain))
+    );
     
     return c.json({
       near: {
         accountId: nearAccount,
-        network: 'testnet'
+        network: profile.near.networkId
       },
       ethereum: {
-        address: ethAddress,
-        network: 'sepolia'
+        address: ethereum.address,
+        derivationPath: ethereum.path,
+        network: profile.evm.ethereum.name
       },
       bsc: {
-        address: bscAddress,
-        network: 'testnet'
+        address: bsc.address,
+        derivationPath: bsc.path,
+        network: profile.evm.bsc.name
       },
       polygon: {
-        address: polygonAddress,
-        network: 'mumbai'
+        address: polygon.address,
+        derivationPath: polygon.path,
+        network: profile.evm.polygon.name
       }
     });
   } catch (error) {
-    console.error('Error fetching accounts:', error);
+    logger.error('Error fetching accounts:', error);
     return c.json({ error: 'Failed to fetch accounts' }, 500);
   }
 });
@@ -0,0 +1,375 @@
+import { Hono } from 'hono';
+import { YieldAlert, YieldMonitoringService } from '../services/YieldMonitoringService';
+import { validateAlertCondition } from '../services/alerts/conditions';
+import { generateWebhookSecret } from '../services/alerts/WebhookChannel';
+import { requireAuth, requireWallet } from '../middleware/auth';
+import { FieldRules, fields, integer, validate, validationError } from '../middleware/validation';
+import {
+  ValidationResult,
+  validateAPY,
+  validateAlertMethods,
+  validateAmount,
+  validateEmail,
+  validateRiskScore,
+  validateWebhookURL
+} from '../utils/validation';
+import type { AppBindings, AppContext } from '../types/hono';
+import { createLogger } from '../utils/logger';
+import { responseMetadata } from '../utils/response';
+
+const logger = createLogger('routes/alerts');
+
+const alertRoutes = new Hono<AppBindings>();
+
+function validateDestinationValues(destinations: Record<string, any>): ValidationResult {
+  const errors: string[] = [];
+
+  if (destinations.email !== undefined) {
+    errors.push(...validateEmail(destinations.email).errors.map(error => `email: ${error}`));
+  }
+  if (destinations.webhookUrl !== undefined) {
+    errors.push(...validateWebhookURL(destinations.webhookUrl).errors.map(error => `webhookUrl: ${error}`));
+  }
+  if (destinations.pushSubscription !== undefined) {
+    const subscription = destinations.pushSubscription;
+    if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      errors.push('pushSubscription: Must contain endpoint and keys.p256dh/keys.auth');
+    } else {
+      errors.push(...validateWebhookURL(subscription.endpoint).errors.map(error => `pushSubscription.endpoint: ${error}`));
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+// Fields an alert can be created or updated with
+const alertFields: FieldRules = {
+  minApy: { type: 'number', validator: validateAPY },
+  maxRisk: { type: 'number', validator: validateRiskScore },
+  protocols: {
+    type: 'array',
+    validator: (protocols: unknown[]) => ({
+      isValid: protocols.every(protocol => typeof protocol === 'string'),
+      errors: ['Must be an array of protocol names']
+    })
+  },
+  conditions: { type: 'object', nullable: true, validator: validateAlertCondition }, // null on update drops the tree
+  alertMethods: { type: 'array', validator: validateAlertMethods },
+  destinations: { type: 'object', validator: validateDestinationValues },
+  cooldownMinutes: {
+    type: 'number',
+    validator: integer(minutes => validateAmount(minutes, { max: 7 * 24 * 60, allowZero: true }))
+  },
+  isActive: { type: 'boolean' }
+};
+
+const walletQuery = validate('query', { wallet: fields.walletAddress });
+
+/**
+ * Every method on the alert needs somewhere to deliver to
+ */
+function validateDestinations(alert: Pick<YieldAlert, 'alertMethods' | 'destinations'>): string[] {
+  const destinations = alert.destinations || {};
+  const required: Record<YieldAlert['alertMethods'][number], [boolean, string]> = {
+    email: [!!destinations.email, 'destinations.email is required for email alerts'],
+    webhook: [!!destinations.webhookUrl, 'destinations.webhookUrl is required for webhook alerts'],
+    push: [!!destinations.pushSubscription, 'destinations.pushSubscription is required for push alerts']
+  };
+
+  return alert.alertMethods
+    .filter(method => !required[method][0])
+    .map(method => required[method][1]);
+}
+
+/**
+ * Webhooks are signed with a secret of their own alert; generate one when a
+ * webhook URL comes without it
+ */
+function withWebhookSecret(destinations: YieldAlert['destinations']): YieldAlert['destinations'] {
+  if (!destinations?.webhookUrl || destinations.webhookSecret) {
+    return destinations;
+  }
+  return { ...destinations, webhookSecret: generateWebhookSecret() };
+}
+
+// Never hand back webhook secrets or internal dedup state, except a secret
+// the agent just generated: it is shown once so the receiver can verify
+function toResponse(alert: YieldAlert, generatedSecret?: string) {
+  const { lastFingerprint, ...rest } = alert;
+  const { webhookSecret, ...destinations } = alert.destinations || {};
+
+  return {
+    ...rest,
+    destinations: {
+      ...destinations,
+      hasWebhookSecret: !!webhookSecret,
+      ...(generatedSecret && { webhookSecret: generatedSecret })
+    }
+  };
+}
+
+/**
+ * Alert `id` if it belongs to the `wallet` query parameter (EVM addresses in
+ * any case); alerts of other wallets look the same as missing ones
+ */
+function findScopedAlert(c: AppContext): YieldAlert | null {
+  const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
+  const alert = yieldService.getYieldAlert(c.req.param('id')!);
+  const wallet = c.req.query('wallet');
+
+  return alert && wallet && alert.walletAddress.toLowerCase() === wallet.toLowerCase() ? alert : null;
+}
+
+// List a wallet's alerts; destinations are personal data, so only the wallet (or its delegates) may read them
+alertRoutes.get('/', requireAuth('read'), walletQuery, requireWallet('query', 'wallet'), async (c) => {
+  try {
+    const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
+    const { wallet } = c.req.valid('query');
+
+    const alerts = yieldService.getYieldAlerts(wallet);
+
+    return c.json({
+      success: true,
+      data: alerts.map(alert => toResponse(alert)),
+      metadata: responseMetadata({
+        count: alerts.length
+      })
+    });
+  } catch (error) {
+    logger.error('Error listing alerts:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to list alerts',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Create an alert
+alertRoutes.post('/',
+  requireAuth('execute'),
+  validate('json', {
+    walletAddress: fields.walletAddress,
+    ...alertFields,
+    alertMethods: { ...alertFields.alertMethods, required: true }
+  }),
+  requireWallet('json'),
+  async (c) => {
+  try {
+    const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
+    const body = c.req.valid('json');
+
+    // minApy/maxRisk are only required when no condition tree replaces them
+    const errors = body.conditions
+      ? []
+      : (['minApy', 'maxRisk'] as const).filter(field => body[field] === undefined).map(field => `${field} is required`);
+    errors.push(...validateDestinations(body as YieldAlert));
+    if (errors.length > 0) {
+      return validationError(c, { body: errors });
+    }
+
+    const destinations = withWebhookSecret(body.destinations);
+    const alertId = await yieldService.createYieldAlert({
+      walletAddress: body.walletAddress,
+      minApy: body.minApy !== undefined ? Number(body.minApy) : 0,
+      maxRisk: body.maxRisk !== undefined ? Number(body.maxRisk) : 10,
+      protocols: body.protocols,
+      conditions: body.conditions ?? undefined,
+      alertMethods: body.alertMethods,
+      destinations,
+      cooldownMinutes: body.cooldownMinutes
+    });
+
+    const generatedSecret = destinations?.webhookSecret !== body.destinations?.webhookSecret
+      ? destinations?.webhookSecret
+      : undefined;
+
+    return c.json({
+      success: true,
+      data: toResponse(yieldService.getYieldAlert(alertId)!, generatedSecret),
+      message: 'Alert created successfully'
+    }, 201);
+  } catch (error) {
+    logger.error('Error creating alert:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to create alert',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Get one alert
+alertRoutes.get('/:id', requireAuth('read'), walletQuery, requireWallet('query', 'wallet'), async (c) => {
+  const alert = findScopedAlert(c);
+
+  if (!alert) {
+    return c.json({ success: false, error: 'Alert not found' }, 404);
+  }
+
+  return c.json({ success: true, data: toResponse(alert) });
+});
+
+// Update an alert; send { isActive: false } to pause it
+alertRoutes.put('/:id',
+  requireAuth('execute'),
+  walletQuery,
+  requireWallet('query', 'wallet'),
+  validate('json', alertFields),
+  async (c) => {
+  try {
+    const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
+    const alert = findScopedAlert(c);
+
+    if (!alert) {
+      return c.json({ success: false, error: 'Alert not found' }, 404);
+    }
+
+    const body = c.req.valid('json');
+    const errors = validateDestinations({
+      alertMethods: body.alertMethods ?? alert.alertMethods,
+      destinations: body.destinations ?? alert.destinations
+    });
+    if (errors.length > 0) {
+      return validationError(c, { body: errors });
+    }
+
+    // Keep the stored webhook secret unless a new one is supplied
+    const supplied = body.destinations && {
+      ...body.destinations,
+      webhookSecret: body.destinations.webhookSecret ?? alert.destinations?.webhookSecret
+    };
+    const destinations = withWebhookSecret(supplied);
+    const generatedSecret = destinations?.webhookSecret !== supplied?.webhookSecret
+      ? destinations?.webhookSecret
+      : undefined;
+
+    const updated = await yieldService.updateYieldAlert(alert.id, {
+      minApy: body.minApy !== undefined ? Number(body.minApy) : undefined,
+      maxRisk: body.maxRisk !== undefined ? Number(body.maxRisk) : undefined,
+      protocols: body.protocols,
+      conditions: body.conditions,
+      alertMethods: body.alertMethods,
+      destinations,
+      cooldownMinutes: body.cooldownMinutes,
+      isActive: body.isActive
+    });
+
+    return c.json({
+      success: true,
+      data: toResponse(updated, generatedSecret),
+      message: 'Alert updated successfully'
+    });
+  } catch (error) {
+    logger.error('Error updating alert:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to update alert',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Delete an alert
+alertRoutes.delete('/:id', requireAuth('execute'), walletQuery, requireWallet('query', 'wallet'), async (c) => {
+  try {
+    const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
+    const alert = findScopedAlert(c);
+
+    if (!alert) {
+      return c.json({ success: false, error: 'Alert not found' }, 404);
+    }
+
+    await yieldService.deleteYieldAlert(alert.id);
+
+    return c.json({
+      success: true,
+      message: 'Alert deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Error deleting alert:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to delete alert',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Send a sample notification through the alert's methods
+alertRoutes.post('/:id/test', requireAuth('execute'), walletQuery, requireWallet('query', 'wallet'), async (c) => {
+  try {
+    const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
+    const alert = findScopedAlert(c);
+
+    if (!alert) {
+      return c.json({ success: false, error: 'Alert not found' }, 404);
+    }
+
+    const deliveries = await yieldService.testYieldAlert(alert.id);
+    const summary = deliveries
+      .map(delivery => `${delivery.method}: ${delivery.status}${delivery.error ? ` (${delivery.error})` : ''}`)
+      .join(', ');
+
+    if (!deliveries.some(delivery => delivery.status === 'sent')) {
+      return c.json({
+        success: false,
+        error: 'Test notification was not delivered',
+        message: summary,
+        data: deliveries
+      }, 502);
+    }
+
+    return c.json({
+      success: true,
+      data: deliveries,
+      message: summary
+    });
+  } catch (error) {
+    logger.error('Error testing alert:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to send test notification',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+// Delivery log for an alert
+alertRoutes.get('/:id/deliveries',
+  requireAuth('read'),
+  validate('query', {
+    wallet: fields.walletAddress,
+    limit: { type: 'number', validator: integer(limit => validateAmount(limit, { min: 1, max: 200 })) }
+  }),
+  requireWallet('query', 'wallet'),
+  async (c) => {
+  try {
+    const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
+    const alert = findScopedAlert(c);
+
+    if (!alert) {
+      return c.json({ success: false, error: 'Alert not found' }, 404);
+    }
+
+    const { limit = 50 } = c.req.valid('query');
+    const deliveries = await yieldService.getAlertDeliveries(alert.id, limit);
+
+    return c.json({
+      success: true,
+      data: deliveries,
+      metadata: responseMetadata({
+        count: deliveries.length
+      })
+    });
+  } catch (error) {
+    logger.error('Error fetching alert deliveries:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to fetch alert deliveries',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+export { alertRoutes };
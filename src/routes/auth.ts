@@ -0,0 +1,280 @@
+import { Hono } from 'hono';
+import { AUTH_SCOPES, AuthError, AuthIdentity, ApiKey, Session } from '../services/AuthService';
+import { authError, requireAuth } from '../middleware/auth';
+import { fields, raw, trim, validate } from '../middleware/validation';
+import { validateDays, validateEnum } from '../utils/validation';
+import type { AppBindings, AppContext } from '../types/hono';
+import { createLogger } from '../utils/logger';
+import { responseMetadata } from '../utils/response';
+
+const logger = createLogger('routes/auth');
+
+const authRoutes = new Hono<AppBindings>();
+
+function failed(c: AppContext, error: unknown, action: string) {
+  if (error instanceof AuthError) {
+    return authError(c, error.status, error.message);
+  }
+
+  logger.error(`Error ${action}:`, error);
+  return c.json({
+    success: false,
+    error: `Failed ${action}`,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  }, 500);
+}
+
+function sessionResponse(token: string, session: Session) {
+  return {
+    token,
+    walletAddress: session.walletAddress,
+    chain: session.chain,
+    expiresAt: session.expiresAt
+  };
+}
+
+// Never hand back key hashes
+function toResponse(key: ApiKey) {
+  const { keyHash, ...rest } = key;
+  return rest;
+}
+
+// Get a nonce to sign in with
+authRoutes.post('/challenge',
+  validate('json', {
+    walletAddress: fields.walletAddress,
+    chain: { required: true, type: 'string', validator: value => validateEnum(value, ['ethereum', 'near']) }
+  }),
+  async (c) => {
+  try {
+    const { walletAddress, chain } = c.req.valid('json');
+    const challenge = await c.get('authService').createChallenge(walletAddress, chain);
+
+    return c.json({
+      success: true,
+      data: challenge
+    });
+  } catch (error) {
+    return failed(c, error, 'to create challenge');
+  }
+});
+
+// Sign in with Ethereum (EIP-4361)
+authRoutes.post('/login/ethereum',
+  validate('json', {
+    message: { required: true, type: 'string', sanitizer: raw },
+    signature: { required: true, type: 'string', sanitizer: trim }
+  }),
+  async (c) => {
+  try {
+    const { message, signature } = c.req.valid('json');
+    const { token, session } = await c.get('authService').loginWithEthereum(message, signature);
+
+    return c.json({
+      success: true,
+      data: sessionResponse(token, session)
+    });
+  } catch (error) {
+    return failed(c, error, 'to sign in');
+  }
+});
+
+// Sign in with a NEAR account (NEP-413 signMessage output)
+authRoutes.post('/login/near',
+  validate('json', {
+    accountId: fields.walletAddress,
+    publicKey: { required: true, type: 'string', sanitizer: trim },
+    signature: { required: true, type: 'string', sanitizer: trim },
+    message: { required: true, type: 'string', sanitizer: raw },
+    nonce: { required: true, type: 'string', sanitizer: trim },
+    callbackUrl: { type: 'string', sanitizer: raw }
+  }),
+  async (c) => {
+  try {
+    const body = c.req.valid('json');
+    const { token, session } = await c.get('authService').loginWithNear({
+      accountId: body.accountId,
+      publicKey: body.publicKey,
+      signature: body.signature,
+      message: body.message,
+      nonce: body.nonce,
+      callbackUrl: body.callbackUrl
+    });
+
+    return c.json({
+      success: true,
+      data: sessionResponse(token, session)
+    });
+  } catch (error) {
+    return failed(c, error, 'to sign in');
+  }
+});
+
+// Who the current token belongs to
+authRoutes.get('/session', requireAuth(), async (c) => {
+  const identity = c.get('auth') as AuthIdentity;
+
+  return c.json({
+    success: true,
+    data: identity
+  });
+});
+
+// End the current session
+authRoutes.post('/logout', requireAuth(), async (c) => {
+  try {
+    await c.get('authService').logout(c.get('auth') as AuthIdentity);
+
+    return c.json({
+      success: true,
+      message: 'Signed out'
+    });
+  } catch (error) {
+    return failed(c, error, 'to sign out');
+  }
+});
+
+// List the signed-in wallet's API keys
+authRoutes.get('/api-keys', requireAuth(), async (c) => {
+  try {
+    const identity = c.get('auth') as AuthIdentity;
+    const keys = await c.get('authService').listApiKeys(identity.walletAddress);
+
+    return c.json({
+      success: true,
+      data: keys.map(toResponse),
+      metadata: responseMetadata({
+        count: keys.length
+      })
+    });
+  } catch (error) {
+    return failed(c, error, 'to list API keys');
+  }
+});
+
+// Create an API key for the signed-in wallet; the key is only shown once
+authRoutes.post('/api-keys',
+  requireAuth('execute'),
+  validate('json', {
+    name: { required: true, type: 'string' },
+    scopes: {
+      required: true,
+      type: 'array',
+      validator: (scopes: string[]) => ({
+        isValid: scopes.length > 0 && scopes.every(scope => (AUTH_SCOPES as readonly string[]).includes(scope)),
+        errors: [`Must be a non-empty array of ${AUTH_SCOPES.join(', ')}`]
+      })
+    },
+    expiresInDays: { type: 'number', validator: validateDays }
+  }),
+  async (c) => {
+  try {
+    const { name, scopes, expiresInDays } = c.req.valid('json');
+    const { key, apiKey } = await c.get('authService').createApiKey(
+      c.get('auth') as AuthIdentity,
+      name,
+      scopes,
+      expiresInDays
+    );
+
+    return c.json({
+      success: true,
+      data: { ...toResponse(apiKey), key },
+      message: 'Store this key now; it cannot be shown again'
+    });
+  } catch (error) {
+    return failed(c, error, 'to create API key');
+  }
+});
+
+// Revoke one of the signed-in wallet's API keys
+authRoutes.delete('/api-keys/:id',
+  requireAuth('execute'),
+  validate('param', { id: fields.id }),
+  async (c) => {
+  try {
+    const identity = c.get('auth') as AuthIdentity;
+    const { id } = c.req.valid('param');
+    const revoked = await c.get('authService').revokeApiKey(identity.walletAddress, id);
+
+    if (!revoked) {
+      return c.json({ success: false, error: 'API key not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: 'API key revoked'
+    });
+  } catch (error) {
+    return failed(c, error, 'to revoke API key');
+  }
+});
+
+// Delegations the signed-in wallet granted or received
+authRoutes.get('/delegations', requireAuth(), async (c) => {
+  try {
+    const identity = c.get('auth') as AuthIdentity;
+    const delegations = await c.get('authService').listDelegations(identity.walletAddress);
+
+    return c.json({
+      success: true,
+      data: delegations,
+      metadata: responseMetadata({
+        count: delegations.length
+      })
+    });
+  } catch (error) {
+    return failed(c, error, 'to list delegations');
+  }
+});
+
+// Let another wallet (and its API keys) manage the signed-in wallet
+authRoutes.post('/delegations',
+  requireAuth('execute'),
+  validate('json', {
+    delegateWallet: fields.walletAddress,
+    expiresInDays: { type: 'number', validator: validateDays }
+  }),
+  async (c) => {
+  try {
+    const { delegateWallet, expiresInDays } = c.req.valid('json');
+    const delegation = await c.get('authService').createDelegation(
+      c.get('auth') as AuthIdentity,
+      delegateWallet,
+      expiresInDays
+    );
+
+    return c.json({
+      success: true,
+      data: delegation,
+      message: `${delegateWallet} can now act for ${delegation.ownerWallet}`
+    });
+  } catch (error) {
+    return failed(c, error, 'to create delegation');
+  }
+});
+
+// Revoke a delegation the signed-in wallet granted or received
+authRoutes.delete('/delegations/:id',
+  requireAuth('execute'),
+  validate('param', { id: fields.id }),
+  async (c) => {
+  try {
+    const identity = c.get('auth') as AuthIdentity;
+    const { id } = c.req.valid('param');
+    const revoked = await c.get('authService').revokeDelegation(identity.walletAddress, id);
+
+    if (!revoked) {
+      return c.json({ success: false, error: 'Delegation not found' }, 404);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Delegation revoked'
+    });
+  } catch (error) {
+    return failed(c, error, 'to revoke delegation');
+  }
+});
+
+export { authRoutes };
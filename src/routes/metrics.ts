@@ -0,0 +1,21 @@
+import { Hono } from 'hono';
+import type { AppBindings } from '../types/hono';
+import { createLogger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+
+const logger = createLogger('routes/metrics');
+
+const metricsRoutes = new Hono<AppBindings>();
+
+// Prometheus scrape target
+metricsRoutes.get('/metrics', async (c) => {
+  try {
+    const body = await metrics.render();
+    return c.body(body, 200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+  } catch (error) {
+    logger.error('Error rendering metrics:', error);
+    return c.text('Failed to collect metrics', 500);
+  }
+});
+
+export { metricsRoutes };
@@ -1,9 +1,19 @@
 import { Hono } from 'hono';
 import { PositionTrackingService } from '../services/PositionTrackingService';
+import { HISTORY_INTERVALS, HistoryInterval, defaultInterval } from '../utils/timeSeries';
+import { requireAuth, requireWallet } from '../middleware/auth';
+import { fields, trim, validate } from '../middleware/validation';
+import { validateAmount, validateChain, validateDays, validateEnum, validateProtocol } from '../utils/validation';
 import type { AppBindings } from '../types/hono';
+import { createLogger } from '../utils/logger';
+import { responseMetadata } from '../utils/response';
+
+const logger = createLogger('routes/positions');
 
 const positionsRoutes = new Hono<AppBindings>();
 
+const walletParam = validate('param', { walletAddress: fields.walletAddress });
+const positionParams = validate('param', { walletAddress: fields.walletAddress, positionId: fields.id });
 // Get all positions (demo endpoint without wallet)
 positionsRoutes.get('/', async (c) => {
   try {
@@ -38,13 +48,13 @@ positionsRoutes.get('/', async (c) => {
     return c.json({
       success: true,
       positions: mockPositions,
-      metadata: {
+      metadata: responseMetadata({
         totalValue: mockPositions.reduce((sum, p) => sum + p.value, 0),
         averageApy: mockPositions.reduce((sum, p) => sum + p.apy, 0) / mockPositions.length
-      }
+      })
     });
   } catch (error) {
-    console.error('Error getting positions:', error);
+    logger.error('Error getting positions:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch positions',
@@ -54,26 +64,31 @@ positionsRoutes.get('/', async (c) => {
 });
 
 // Get all positions for a wallet across chains
-positionsRoutes.get('/:walletAddress', async (c) => {
+positionsRoutes.get('/:walletAddress',
+  requireAuth('read'),
+  walletParam,
+  requireWallet('param'),
+  validate('query', { chain: { type: 'string', validator: validateChain } }),
+  async (c) => {
   try {
     const positionService = c.get('positionTrackingService') as PositionTrackingService;
-    const { walletAddress } = c.req.param();
-    const chain = c.req.query('chain'); // Optional filter by chain
+    const { walletAddress } = c.req.valid('param');
+    const { chain } = c.req.valid('query'); // Optional filter by chain
 
     const positions = await positionService.getPositions(walletAddress, chain);
 
     return c.json({
       success: true,
       data: positions,
-      metadata: {
+      metadata: responseMetadata({
         walletAddress,
         totalPositions: positions.length,
         chains: [...new Set(positions.map(p => p.chain))],
         totalValue: positions.reduce((sum, p) => sum + p.value, 0)
-      }
+      })
     });
   } catch (error) {
-    console.error('Error fetching positions:', error);
+    logger.error('Error fetching positions:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch positions',
@@ -83,10 +98,14 @@ positionsRoutes.get('/:walletAddress', async (c) => {
 });
 
 // Get detailed information about a specific position
-positionsRoutes.get('/:walletAddress/:positionId', async (c) => {
+positionsRoutes.get('/:walletAddress/:positionId',
+  requireAuth('read'),
+  positionParams,
+  requireWallet('param'),
+  async (c) => {
   try {
     const positionService = c.get('positionTrackingService') as PositionTrackingService;
-    const { walletAddress, positionId } = c.req.param();
+    const { walletAddress, positionId } = c.req.valid('param');
 
     const position = await positionService.getPositionDetails(walletAddress, positionId);
 
@@ -102,7 +121,7 @@ positionsRoutes.get('/:walletAddress/:positionId', async (c) => {
       data: position
     });
   } catch (error) {
-    console.error('Error fetching position details:', error);
+    logger.error('Error fetching position details:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch position details',
@@ -112,25 +131,36 @@ positionsRoutes.get('/:walletAddress/:positionId', async (c) => {
 });
 
 // Get position history and performance
-positionsRoutes.get('/:walletAddress/:positionId/history', async (c) => {
+positionsRoutes.get('/:walletAddress/:positionId/history',
+  requireAuth('read'),
+  positionParams,
+  requireWallet('param'),
+  validate('query', {
+    days: { type: 'number', validator: validateDays },
+    interval: { type: 'string', validator: value => validateEnum(value, HISTORY_INTERVALS) }
+  }),
+  async (c) => {
   try {
     const positionService = c.get('positionTrackingService') as PositionTrackingService;
-    const { walletAddress, positionId } = c.req.param();
-    const days = parseInt(c.req.query('days') || '30');
+    const { walletAddress, positionId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const days: number = query.days ?? 30;
+    const interval: HistoryInterval = query.interval ?? defaultInterval(days);
 
-    const history = await positionService.getPositionHistory(walletAddress, positionId, days);
+    const history = await positionService.getPositionHistory(walletAddress, positionId, days, interval);
 
     return c.json({
       success: true,
       data: history,
-      metadata: {
+      metadata: responseMetadata({
         positionId,
         days,
+        interval,
         dataPoints: history.length
-      }
+      })
     });
   } catch (error) {
-    console.error('Error fetching position history:', error);
+    logger.error('Error fetching position history:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch position history',
@@ -140,10 +170,14 @@ positionsRoutes.get('/:walletAddress/:positionId/history', async (c) => {
 });
 
 // Get portfolio summary across all chains
-positionsRoutes.get('/:walletAddress/portfolio', async (c) => {
+positionsRoutes.get('/:walletAddress/portfolio',
+  requireAuth('read'),
+  walletParam,
+  requireWallet('param'),
+  async (c) => {
   try {
     const positionService = c.get('positionTrackingService') as PositionTrackingService;
-    const { walletAddress } = c.req.param();
+    const { walletAddress } = c.req.valid('param');
 
     const portfolio = await positionService.getPortfolioSummary(walletAddress);
 
@@ -152,7 +186,7 @@ positionsRoutes.get('/:walletAddress/portfolio', async (c) => {
       data: portfolio
     });
   } catch (error) {
-    console.error('Error fetching portfolio summary:', error);
+    logger.error('Error fetching portfolio summary:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch portfolio summary',
@@ -162,10 +196,26 @@ positionsRoutes.get('/:walletAddress/portfolio', async (c) => {
 });
 
 // Track a new position
-positionsRoutes.post('/track', async (c) => {
+positionsRoutes.post('/track',
+  requireAuth('execute'),
+  validate('json', {
+    walletAddress: fields.walletAddress,
+    chain: { required: true, type: 'string', validator: validateChain },
+    protocol: { required: true, type: 'string', validator: validateProtocol },
+    positionType: {
+      required: true,
+      type: 'string',
+      validator: value => validateEnum(value, ['lending', 'liquidity', 'staking', 'farming'])
+    },
+    tokenAddress: { required: true, type: 'string', sanitizer: trim },
+    amount: { required: true, type: 'number', validator: value => validateAmount(value) },
+    metadata: { type: 'object' }
+  }),
+  requireWallet('json'),
+  async (c) => {
   try {
     const positionService = c.get('positionTrackingService') as PositionTrackingService;
-    const body = await c.req.json();
+    const body = c.req.valid('json');
 
     const {
       walletAddress,
@@ -193,7 +243,7 @@ positionsRoutes.post('/track', async (c) => {
       message: 'Position tracking started'
     });
   } catch (error) {
-    console.error('Error tracking position:', error);
+    logger.error('Error tracking position:', error);
     return c.json({
       success: false,
       error: 'Failed to track position',
@@ -203,10 +253,14 @@ positionsRoutes.post('/track', async (c) => {
 });
 
 // Stop tracking a position
-positionsRoutes.delete('/:walletAddress/:positionId', async (c) => {
+positionsRoutes.delete('/:walletAddress/:positionId',
+  requireAuth('execute'),
+  positionParams,
+  requireWallet('param'),
+  async (c) => {
   try {
     const positionService = c.get('positionTrackingService') as PositionTrackingService;
-    const { walletAddress, positionId } = c.req.param();
+    const { walletAddress, positionId } = c.req.valid('param');
 
     await positionService.stopTracking(walletAddress, positionId);
 
@@ -215,7 +269,7 @@ positionsRoutes.delete('/:walletAddress/:positionId', async (c) => {
       message: 'Position tracking stopped'
     });
   } catch (error) {
-    console.error('Error stopping position tracking:', error);
+    logger.error('Error stopping position tracking:', error);
     return c.json({
       success: false,
       error: 'Failed to stop position tracking',
@@ -225,10 +279,14 @@ positionsRoutes.delete('/:walletAddress/:positionId', async (c) => {
 });
 
 // Get position risk analysis
-positionsRoutes.get('/:walletAddress/:positionId/risk', async (c) => {
+positionsRoutes.get('/:walletAddress/:positionId/risk',
+  requireAuth('read'),
+  positionParams,
+  requireWallet('param'),
+  async (c) => {
   try {
     const positionService = c.get('positionTrackingService') as PositionTrackingService;
-    const { walletAddress, positionId } = c.req.param();
+    const { walletAddress, positionId } = c.req.valid('param');
 
     const riskAnalysis = await positionService.getRiskAnalysis(walletAddress, positionId);
 
@@ -237,7 +295,7 @@ positionsRoutes.get('/:walletAddress/:positionId/risk', async (c) => {
       data: riskAnalysis
     });
   } catch (error) {
-    console.error('Error getting risk analysis:', error);
+    logger.error('Error getting risk analysis:', error);
     return c.json({
       success: false,
       error: 'Failed to get risk analysis',
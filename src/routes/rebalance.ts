@@ -1,9 +1,52 @@
 import { Hono } from 'hono';
-import { RebalancingService } from '../services/RebalancingService';
+import { RebalancingService, RecoveryConflictError } from '../services/RebalancingService';
+import { authorizeWallet, requireAuth, requireWallet } from '../middleware/auth';
+import { FieldRules, fields, integer, validate } from '../middleware/validation';
+import {
+  ValidationResult,
+  validateAmount,
+  validateDays,
+  validatePagination,
+  validateRebalanceActions,
+  validateRebalanceStrategy
+} from '../utils/validation';
 import type { AppBindings } from '../types/hono';
+import { createLogger } from '../utils/logger';
+import { responseMetadata } from '../utils/response';
+
+const logger = createLogger('routes/rebalance');
 
 const rebalanceRoutes = new Hono<AppBindings>();
 
+// Slippage is a fraction here (0.01 = 1%)
+const slippage = (value: number) => validateAmount(value, { min: 0, max: 0.5, allowZero: true });
+
+function validateTriggers(triggers: Record<string, unknown>): ValidationResult {
+  const known = ['apyDropThreshold', 'riskIncreaseThreshold', 'timeInterval', 'valueThreshold'];
+  const errors = Object.entries(triggers).flatMap(([key, value]) => {
+    if (!known.includes(key)) return [`Unknown trigger: ${key}`];
+    return validateAmount(value as number, { allowZero: true }).errors.map(error => `${key}: ${error}`);
+  });
+
+  return { isValid: errors.length === 0, errors };
+}
+
+const strategyField = { required: true, type: 'string', validator: validateRebalanceStrategy } as const;
+
+const executionOptions: FieldRules = {
+  slippage: { type: 'number', validator: slippage },
+  gasPrice: { type: 'number', validator: value => validateAmount(value) },
+  dryRun: { type: 'boolean' }
+};
+
+const autoRebalanceSettings: FieldRules = {
+  strategy: { ...strategyField, required: false },
+  triggers: { type: 'object', validator: validateTriggers },
+  maxSlippage: { type: 'number', validator: slippage },
+  gasLimit: { type: 'number', validator: integer(value => validateAmount(value)) },
+  enabled: { type: 'boolean' }
+};
+
 // Get rebalancing recommendations (demo endpoint without wallet)
 rebalanceRoutes.get('/recommendations', async (c) => {
   try {
@@ -62,13 +105,12 @@ rebalanceRoutes.get('/recommendations', async (c) => {
     return c.json({
       success: true,
       recommendations: mockRecommendations,
-      metadata: {
-        totalRecommendations: mockRecommendations.length,
-        timestamp: new Date().toISOString()
-      }
+      metadata: responseMetadata({
+        totalRecommendations: mockRecommendations.length
+      })
     });
   } catch (error) {
-    console.error('Error getting rebalance recommendations:', error);
+    logger.error('Error getting rebalance recommendations:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch recommendations',
@@ -78,11 +120,16 @@ rebalanceRoutes.get('/recommendations', async (c) => {
 });
 
 // Get rebalancing recommendations for a wallet
-rebalanceRoutes.get('/recommendations/:walletAddress', async (c) => {
+rebalanceRoutes.get('/recommendations/:walletAddress',
+  requireAuth('read'),
+  validate('param', { walletAddress: fields.walletAddress }),
+  requireWallet('param'),
+  validate('query', { strategy: { ...strategyField, required: false } }),
+  async (c) => {
   try {
     const rebalanceService = c.get('rebalancingService') as RebalancingService;
-    const { walletAddress } = c.req.param();
-    const strategy = c.req.query('strategy') || 'yield_optimization';
+    const { walletAddress } = c.req.valid('param');
+    const strategy = c.req.valid('query').strategy || 'yield_optimization';
 
     const recommendations = await rebalanceService.getRebalanceRecommendations(
       walletAddress,
@@ -92,14 +139,13 @@ rebalanceRoutes.get('/recommendations/:walletAddress', async (c) => {
     return c.json({
       success: true,
       data: recommendations,
-      metadata: {
+      metadata: responseMetadata({
         walletAddress,
-        strategy,
-        timestamp: new Date().toISOString()
-      }
+        strategy
+      })
     });
   } catch (error) {
-    console.error('Error getting rebalance recommendations:', error);
+    logger.error('Error getting rebalance recommendations:', error);
     return c.json({
       success: false,
       error: 'Failed to get rebalance recommendations',
@@ -109,10 +155,19 @@ rebalanceRoutes.get('/recommendations/:walletAddress', async (c) => {
 });
 
 // Execute a rebalancing strategy
-rebalanceRoutes.post('/execute', async (c) => {
+rebalanceRoutes.post('/execute',
+  requireAuth('execute'),
+  validate('json', {
+    walletAddress: fields.walletAddress,
+    strategy: strategyField,
+    actions: { required: true, type: 'array', validator: validateRebalanceActions },
+    ...executionOptions
+  }),
+  requireWallet('json'),
+  async (c) => {
   try {
     const rebalanceService = c.get('rebalancingService') as RebalancingService;
-    const body = await c.req.json();
+    const body = c.req.valid('json');
 
     const {
       walletAddress,
@@ -132,13 +187,24 @@ rebalanceRoutes.post('/execute', async (c) => {
       dryRun
     });
 
+    // Failed or skipped actions leave the wallet half-rebalanced; don't report that as done
+    if (result.status !== 'completed') {
+      return c.json({
+        success: false,
+        error: result.status === 'partial' ? 'Rebalance partially applied' : 'Rebalance did not complete',
+        message: `Execution ${result.status}${result.error ? `: ${result.error}` : ''}` +
+          (result.compensation ? `; POST /api/rebalance/executions/${result.id}/recover to undo the confirmed steps` : ''),
+        data: result
+      }, 502);
+    }
+
     return c.json({
       success: true,
       data: result,
       message: dryRun ? 'Dry run completed' : 'Rebalance executed'
     });
   } catch (error) {
-    console.error('Error executing rebalance:', error);
+    logger.error('Error executing rebalance:', error);
     return c.json({
       success: false,
       error: 'Failed to execute rebalance',
@@ -147,28 +213,97 @@ rebalanceRoutes.post('/execute', async (c) => {
   }
 });
 
+// Run the compensation plan of a partially completed execution
+rebalanceRoutes.post('/executions/:id/recover',
+  requireAuth('execute'),
+  validate('param', { id: fields.id }),
+  validate('json', executionOptions),
+  async (c) => {
+  try {
+    const rebalanceService = c.get('rebalancingService') as RebalancingService;
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+    const { slippage = 0.01, gasPrice, dryRun = false } = body;
+
+    const execution = await rebalanceService.getExecution(id);
+
+    if (!execution) {
+      return c.json({
+        success: false,
+        error: 'Execution not found'
+      }, 404);
+    }
+
+    const denied = await authorizeWallet(c, execution.walletAddress);
+    if (denied) {
+      return denied;
+    }
+
+    if (execution.status !== 'partial' || !execution.compensation) {
+      return c.json({
+        success: false,
+        error: 'Execution has nothing to recover',
+        message: `Execution status is ${execution.status}`
+      }, 409);
+    }
+
+    const recovery = await rebalanceService.recoverExecution(id, { slippage, gasPrice, dryRun });
+
+    return c.json({
+      success: true,
+      data: {
+        execution: await rebalanceService.getExecution(id),
+        recovery
+      },
+      message: dryRun ? 'Recovery dry run completed' : 'Recovery executed'
+    });
+  } catch (error) {
+    if (error instanceof RecoveryConflictError) {
+      return c.json({
+        success: false,
+        error: 'Execution is already being recovered',
+        message: error.message
+      }, 409);
+    }
+
+    logger.error('Error recovering rebalance execution:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to recover rebalance execution',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
 // Get rebalancing history for a wallet
-rebalanceRoutes.get('/history/:walletAddress', async (c) => {
+rebalanceRoutes.get('/history/:walletAddress',
+  requireAuth('read'),
+  validate('param', { walletAddress: fields.walletAddress }),
+  requireWallet('param'),
+  validate('query', {
+    limit: { type: 'number', validator: integer(value => validatePagination(value)) },
+    offset: { type: 'number', validator: integer(value => validatePagination(undefined, value)) }
+  }),
+  async (c) => {
   try {
     const rebalanceService = c.get('rebalancingService') as RebalancingService;
-    const { walletAddress } = c.req.param();
-    const limit = parseInt(c.req.query('limit') || '50');
-    const offset = parseInt(c.req.query('offset') || '0');
+    const { walletAddress } = c.req.valid('param');
+    const { limit = 50, offset = 0 } = c.req.valid('query');
 
     const history = await rebalanceService.getRebalanceHistory(walletAddress, limit, offset);
 
     return c.json({
       success: true,
       data: history,
-      metadata: {
+      metadata: responseMetadata({
         walletAddress,
         limit,
         offset,
         count: history.length
-      }
+      })
     });
   } catch (error) {
-    console.error('Error fetching rebalance history:', error);
+    logger.error('Error fetching rebalance history:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch rebalance history',
@@ -189,7 +324,7 @@ rebalanceRoutes.get('/strategies', async (c) => {
       data: strategies
     });
   } catch (error) {
-    console.error('Error fetching strategies:', error);
+    logger.error('Error fetching strategies:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch strategies',
@@ -199,10 +334,23 @@ rebalanceRoutes.get('/strategies', async (c) => {
 });
 
 // Simulate a rebalancing strategy
-rebalanceRoutes.post('/simulate', async (c) => {
+rebalanceRoutes.post('/simulate',
+  validate('json', {
+    walletAddress: fields.walletAddress,
+    strategy: strategyField,
+    targetAllocations: {
+      type: 'object',
+      validator: (allocations: Record<string, unknown>) => ({
+        isValid: Object.values(allocations).every(share => typeof share === 'number' && share >= 0 && share <= 100),
+        errors: ['Allocations must be percentages between 0 and 100']
+      })
+    },
+    timeHorizon: { type: 'number', validator: validateDays }
+  }),
+  async (c) => {
   try {
     const rebalanceService = c.get('rebalancingService') as RebalancingService;
-    const body = await c.req.json();
+    const body = c.req.valid('json');
 
     const {
       walletAddress,
@@ -223,7 +371,7 @@ rebalanceRoutes.post('/simulate', async (c) => {
       data: simulation
     });
   } catch (error) {
-    console.error('Error running simulation:', error);
+    logger.error('Error running simulation:', error);
     return c.json({
       success: false,
       error: 'Failed to run simulation',
@@ -233,10 +381,21 @@ rebalanceRoutes.post('/simulate', async (c) => {
 });
 
 // Set up automatic rebalancing
-rebalanceRoutes.post('/auto-setup', async (c) => {
+rebalanceRoutes.post('/auto-setup',
+  requireAuth('execute'),
+  validate('json', {
+    walletAddress: fields.walletAddress,
+    ...autoRebalanceSettings,
+    strategy: strategyField,
+    triggers: { ...autoRebalanceSettings.triggers, required: true },
+    maxSlippage: { ...autoRebalanceSettings.maxSlippage, required: true },
+    gasLimit: { ...autoRebalanceSettings.gasLimit, required: true }
+  }),
+  requireWallet('json'),
+  async (c) => {
   try {
     const rebalanceService = c.get('rebalancingService') as RebalancingService;
-    const body = await c.req.json();
+    const body = c.req.valid('json');
 
     const {
       walletAddress,
@@ -262,7 +421,7 @@ rebalanceRoutes.post('/auto-setup', async (c) => {
       message: 'Auto-rebalancing setup completed'
     });
   } catch (error) {
-    console.error('Error setting up auto-rebalancing:', error);
+    logger.error('Error setting up auto-rebalancing:', error);
     return c.json({
       success: false,
       error: 'Failed to setup auto-rebalancing',
@@ -272,10 +431,14 @@ rebalanceRoutes.post('/auto-setup', async (c) => {
 });
 
 // Get auto-rebalancing status
-rebalanceRoutes.get('/auto-status/:walletAddress', async (c) => {
+rebalanceRoutes.get('/auto-status/:walletAddress',
+  requireAuth('read'),
+  validate('param', { walletAddress: fields.walletAddress }),
+  requireWallet('param'),
+  async (c) => {
   try {
     const rebalanceService = c.get('rebalancingService') as RebalancingService;
-    const { walletAddress } = c.req.param();
+    const { walletAddress } = c.req.valid('param');
 
     const status = await rebalanceService.getAutoRebalanceStatus(walletAddress);
 
@@ -284,7 +447,7 @@ rebalanceRoutes.get('/auto-status/:walletAddress', async (c) => {
       data: status
     });
   } catch (error) {
-    console.error('Error getting auto-rebalance status:', error);
+    logger.error('Error getting auto-rebalance status:', error);
     return c.json({
       success: false,
       error: 'Failed to get auto-rebalance status',
@@ -294,11 +457,16 @@ rebalanceRoutes.get('/auto-status/:walletAddress', async (c) => {
 });
 
 // Update auto-rebalancing settings
-rebalanceRoutes.put('/auto-settings/:walletAddress', async (c) => {
+rebalanceRoutes.put('/auto-settings/:walletAddress',
+  requireAuth('execute'),
+  validate('param', { walletAddress: fields.walletAddress }),
+  requireWallet('param'),
+  validate('json', autoRebalanceSettings),
+  async (c) => {
   try {
     const rebalanceService = c.get('rebalancingService') as RebalancingService;
-    const { walletAddress } = c.req.param();
-    const settings = await c.req.json();
+    const { walletAddress } = c.req.valid('param');
+    const settings = c.req.valid('json');
 
     await rebalanceService.updateAutoRebalanceSettings(walletAddress, settings);
 
@@ -307,7 +475,7 @@ rebalanceRoutes.put('/auto-settings/:walletAddress', async (c) => {
       message: 'Auto-rebalancing settings updated'
     });
   } catch (error) {
-    console.error('Error updating auto-rebalance settings:', error);
+    logger.error('Error updating auto-rebalance settings:', error);
     return c.json({
       success: false,
       error: 'Failed to update auto-rebalance settings',
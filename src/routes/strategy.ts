@@ -1,5 +1,11 @@
 import { Hono } from 'hono';
+import { requireAuth } from '../middleware/auth';
+import { trim, validate } from '../middleware/validation';
+import { validateAmount, validateAPY, validateChain, validateDays, validateEnum } from '../utils/validation';
 import type { AppBindings } from '../types/hono';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('routes/strategy');
 
 const app = new Hono<AppBindings>();
 
@@ -39,25 +45,43 @@ app.get('/current', async (c) => {
       }
     });
   } catch (error) {
-    console.error('Error fetching strategy:', error);
+    logger.error('Error fetching strategy:', error);
     return c.json({ error: 'Failed to fetch strategy' }, 500);
   }
 });
 
-app.post('/configure', async (c) => {
+app.post('/configure',
+  requireAuth('execute'),
+  validate('json', {
+    name: { type: 'string' },
+    riskTolerance: { type: 'string', validator: value => validateEnum(value, ['low', 'medium', 'high']) },
+    minAPY: { type: 'number', validator: validateAPY },
+    maxImpermanentLoss: {
+      type: 'number',
+      validator: value => validateAmount(value, { max: 100, allowZero: true })
+    },
+    preferredChains: {
+      type: 'array',
+      validator: (chains: string[]) => ({
+        isValid: chains.every(chain => validateChain(chain).isValid),
+        errors: ['Must be an array of supported chains']
+      })
+    },
+    preferredProtocols: {
+      type: 'array',
+      validator: (protocols: unknown[]) => ({
+        isValid: protocols.every(protocol => typeof protocol === 'string'),
+        errors: ['Must be an array of protocol names']
+      })
+    },
+    rebalanceThreshold: { type: 'number', validator: value => validateAmount(value, { max: 100, allowZero: true }) },
+    gasOptimization: { type: 'boolean' }
+  }),
+  async (c) => {
   try {
-    const body = await c.req.json<Partial<StrategyConfig>>();
-    
-    // Validate configuration
-    if (body.minAPY && body.minAPY < 0) {
-      return c.json({ error: 'Minimum APY must be positive' }, 400);
-    }
+    const body: Partial<StrategyConfig> = c.req.valid('json');
     
-    if (body.maxImpermanentLoss && (body.maxImpermanentLoss < 0 || body.maxImpermanentLoss > 100)) {
-      return c.json({ error: 'Max IL must be between 0 and 100' }, 400);
-    }
-    
-    console.log('Updating strategy configuration:', body);
+    logger.info('Updating strategy configuration:', body);
     
     return c.json({
       status: 'success',
@@ -66,7 +90,7 @@ app.post('/configure', async (c) => {
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    console.error('Error configuring strategy:', error);
+    logger.error('Error configuring strategy:', error);
     return c.json({ error: 'Failed to configure strategy' }, 500);
   }
 });
@@ -115,16 +139,25 @@ app.get('/templates', async (c) => {
     
     return c.json({ templates });
   } catch (error) {
-    console.error('Error fetching templates:', error);
+    logger.error('Error fetching templates:', error);
     return c.json({ error: 'Failed to fetch templates' }, 500);
   }
 });
 
-app.post('/apply-template/:templateId', async (c) => {
+app.post('/apply-template/:templateId',
+  requireAuth('execute'),
+  validate('param', {
+    templateId: {
+      required: true,
+      type: 'string',
+      validator: value => validateEnum(value, ['conservative', 'aggressive', 'stablecoin'])
+    }
+  }),
+  async (c) => {
   try {
-    const { templateId } = c.req.param();
+    const { templateId } = c.req.valid('param');
     
-    console.log(`Applying strategy template: ${templateId}`);
+    logger.info(`Applying strategy template: ${templateId}`);
     
     return c.json({
       status: 'success',
@@ -132,14 +165,19 @@ app.post('/apply-template/:templateId', async (c) => {
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    console.error('Error applying template:', error);
+    logger.error('Error applying template:', error);
     return c.json({ error: 'Failed to apply template' }, 500);
   }
 });
 
-app.get('/backtest', async (c) => {
+app.get('/backtest',
+  validate('query', {
+    strategy: { type: 'string', sanitizer: trim },
+    period: { type: 'number', validator: validateDays }
+  }),
+  async (c) => {
   try {
-    const { strategy, period = '30' } = c.req.query();
+    const { strategy, period = 30 } = c.req.valid('query');
     
     // Mock backtest results
     const backtestResults = {
@@ -156,7 +194,7 @@ app.get('/backtest', async (c) => {
         avgProfit: 89.23,
         avgLoss: -34.12
       },
-      chartData: Array.from({ length: parseInt(period) }, (_, i) => ({
+      chartData: Array.from({ length: period }, (_, i) => ({
         day: i + 1,
         value: 10000 + Math.random() * 2000 - 500
       }))
@@ -164,7 +202,7 @@ app.get('/backtest', async (c) => {
     
     return c.json(backtestResults);
   } catch (error) {
-    console.error('Error running backtest:', error);
+    logger.error('Error running backtest:', error);
     return c.json({ error: 'Failed to run backtest' }, 500);
   }
 });
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Hono } from 'hono';
+import { streamRoutes } from './stream';
+import { EventStreamService } from '../services/EventStreamService';
+import { AuthError } from '../services/AuthService';
+import type { AuthIdentity, AuthService } from '../services/AuthService';
+import type { AppBindings } from '../types/hono';
+
+const ALICE = '0x' + 'aa'.repeat(20);
+const BOB = '0x' + 'bb'.repeat(20);
+
+const identity: AuthIdentity = { type: 'session', id: 'session_1', walletAddress: ALICE, chain: 'ethereum', scopes: ['read'] };
+
+// Knows one token, for ALICE, and no delegations
+const authService = {
+  async authenticate(token: string) {
+    if (token !== 'alice-token') {
+      throw new AuthError('Invalid or expired token');
+    }
+    return identity;
+  },
+  async canActFor(caller: AuthIdentity, walletAddress: string) {
+    return caller.walletAddress.toLowerCase() === walletAddress.toLowerCase();
+  },
+  async recordDenial() {}
+} as unknown as AuthService;
+
+const app = new Hono<AppBindings>();
+app.use('*', async (c, next) => {
+  c.set('authService', authService);
+  c.set('eventStreamService', new EventStreamService());
+  await next();
+});
+app.route('/api/stream', streamRoutes);
+
+describe('GET /api/stream', () => {
+  it('needs a credential to follow a wallet', async () => {
+    const res = await app.request(`/api/stream?wallet=${ALICE}`);
+    assert.equal(res.status, 401);
+  });
+
+  it('rejects an invalid query token', async () => {
+    const res = await app.request(`/api/stream?wallet=${ALICE}&token=forged`);
+    assert.equal(res.status, 401);
+  });
+
+  it('refuses to stream another wallet', async () => {
+    const res = await app.request(`/api/stream?wallet=${BOB}&token=alice-token`);
+    assert.equal(res.status, 403);
+  });
+
+  it('streams the caller\'s own wallet', async () => {
+    const res = await app.request(`/api/stream?wallet=${ALICE}&token=alice-token`);
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('Content-Type'), 'text/event-stream');
+    await res.body?.cancel();
+  });
+});
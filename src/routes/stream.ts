@@ -0,0 +1,108 @@
+import { Hono } from 'hono';
+import { streamSSE, SSEMessage } from 'hono/streaming';
+import { STREAM_EVENTS, StreamEvent, StreamEventName } from '../services/EventStreamService';
+import { fields, validate } from '../middleware/validation';
+import { authenticateQuery, authorizeWallet } from '../middleware/auth';
+import type { AppBindings } from '../types/hono';
+
+const streamRoutes = new Hono<AppBindings>();
+
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+/**
+ * Server-Sent Events stream.
+ *
+ * Query parameters:
+ * - wallet: receive position, alert and rebalance events for this wallet
+ *   (opportunity updates are sent to every client). Needs a caller allowed
+ *   to act for it.
+ * - token: session token or API key, for EventSource which cannot send an
+ *   Authorization header
+ * - events: comma separated subset of STREAM_EVENTS
+ * - lastEventId: resume point, also read from the Last-Event-ID header that
+ *   EventSource sends on reconnect
+ *
+ * When the resume point is no longer buffered a `resync` event is sent first
+ * and the client should reload its state over REST.
+ */
+streamRoutes.get('/',
+  authenticateQuery,
+  validate('query', {
+    wallet: { ...fields.walletAddress, required: false },
+    events: {
+      type: 'array',
+      validator: (events: string[]) => {
+        const unknown = events.filter(e => !STREAM_EVENTS.includes(e as StreamEventName));
+        return {
+          isValid: unknown.length === 0,
+          errors: [`Unknown events: ${unknown.join(', ')}. Supported: ${STREAM_EVENTS.join(', ')}`]
+        };
+      }
+    }
+  }),
+  async (c) => {
+  const eventStream = c.get('eventStreamService');
+  const query = c.req.valid('query');
+  const walletAddress: string | undefined = query.wallet || undefined;
+  const requested: StreamEventName[] | undefined = query.events?.length ? query.events : undefined;
+
+  if (walletAddress) {
+    const denied = await authorizeWallet(c, walletAddress);
+    if (denied) {
+      return denied;
+    }
+  }
+
+  const filter = { walletAddress, events: requested };
+  const lastEventIdRaw = c.req.header('Last-Event-ID') || c.req.query('lastEventId');
+  const lastEventId = lastEventIdRaw !== undefined ? parseInt(lastEventIdRaw) : undefined;
+
+  return streamSSE(c, async (stream) => {
+    // Writes are chained so messages reach the client in order
+    let writes: Promise<void> = Promise.resolve();
+    const write = (message: SSEMessage) => {
+      writes = writes.then(() => stream.writeSSE(message)).catch(() => undefined);
+    };
+    const send = (event: StreamEvent) => write({
+      id: String(event.id),
+      event: event.event,
+      data: JSON.stringify({ data: event.data, timestamp: event.timestamp })
+    });
+
+    write({
+      event: 'ready',
+      data: JSON.stringify({ walletAddress: walletAddress || null, events: requested || STREAM_EVENTS }),
+      retry: 3000
+    });
+
+    // Replay and subscribe in the same tick so no event falls in between
+    const replay = lastEventId !== undefined && !Number.isNaN(lastEventId)
+      ? eventStream.replaySince(lastEventId, filter)
+      : [];
+    const unsubscribe = eventStream.subscribe(filter, send);
+
+    if (replay === null) {
+      write({
+        event: 'resync',
+        data: JSON.stringify({ reason: 'Events since the last received id are no longer available' })
+      });
+    } else {
+      replay.forEach(send);
+    }
+
+    stream.onAbort(() => {
+      unsubscribe();
+    });
+
+    while (!stream.aborted) {
+      await stream.sleep(HEARTBEAT_INTERVAL);
+      if (!stream.aborted) {
+        write({ event: 'ping', data: '' });
+      }
+    }
+
+    unsubscribe();
+  });
+});
+
+export { streamRoutes };
@@ -1,33 +1,75 @@
 import { Hono } from 'hono';
 import { YieldMonitoringService } from '../services/YieldMonitoringService';
+import { HISTORY_INTERVALS, HistoryInterval, defaultInterval } from '../utils/timeSeries';
+import { fields, integer, trim, validate } from '../middleware/validation';
+import {
+  validateAPY,
+  validateAmount,
+  validateChain,
+  validateDays,
+  validateEnum,
+  validatePagination,
+  validateProtocol,
+  validateRiskScore
+} from '../utils/validation';
 import type { AppBindings } from '../types/hono';
+import { createLogger } from '../utils/logger';
+import { responseMetadata } from '../utils/response';
+
+const logger = createLogger('routes/yield');
 
 const yieldRoutes = new Hono<AppBindings>();
 
+const SORT_FIELDS = ['apy', 'tvl', 'riskScore'] as const;
+type SortField = typeof SORT_FIELDS[number];
+
+// 'all' is accepted wherever a chain filter is
+const chainFilter = {
+  type: 'string',
+  validator: (chain: string) => chain === 'all' ? { isValid: true, errors: [] } : validateChain(chain)
+} as const;
+
 // Get all yield opportunities across supported protocols
-yieldRoutes.get('/opportunities', async (c) => {
+yieldRoutes.get('/opportunities',
+  validate('query', {
+    chain: chainFilter, // 'near', 'ethereum', or 'all'
+    protocol: { type: 'string', validator: validateProtocol },
+    token: { type: 'string' }, // matches either side of a pair, e.g. BNB in CAKE-BNB
+    minApy: { type: 'number', validator: validateAPY },
+    minTvl: { type: 'number', validator: value => validateAmount(value, { allowZero: true }) },
+    maxRisk: { type: 'number', validator: validateRiskScore },
+    sort: { type: 'string', validator: value => validateEnum(value, SORT_FIELDS) },
+    order: { type: 'string', validator: value => validateEnum(value, ['asc', 'desc']) },
+    limit: { type: 'number', validator: integer(value => validatePagination(value)) },
+    offset: { type: 'number', validator: integer(value => validatePagination(undefined, value)) }
+  }),
+  async (c) => {
   try {
     const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
-    const chain = c.req.query('chain'); // 'near', 'ethereum', or 'all'
-    const minApy = parseFloat(c.req.query('minApy') || '0');
-    const protocol = c.req.query('protocol'); // Optional filter by protocol
-
-    const opportunities = await yieldService.getYieldOpportunities({
-      chain,
-      minApy,
-      protocol
-    });
+    const { chain, protocol, token, minApy, minTvl, maxRisk, ...query } = c.req.valid('query');
+    const filters = { chain, protocol, token, minApy, minTvl, maxRisk };
+    const sort: SortField = query.sort || 'apy';
+    const order = query.order || (sort === 'riskScore' ? 'asc' : 'desc');
+    const { limit = 50, offset = 0 } = query;
+
+    const opportunities = [...await yieldService.getYieldOpportunities(filters)]
+      .sort((a, b) => order === 'asc' ? a[sort] - b[sort] : b[sort] - a[sort]);
+    const page = opportunities.slice(offset, offset + limit);
 
     return c.json({
       success: true,
-      data: opportunities,
-      metadata: {
-        count: opportunities.length,
-        timestamp: new Date().toISOString()
-      }
+      data: page,
+      metadata: responseMetadata({
+        count: page.length,
+        total: opportunities.length,
+        limit,
+        offset,
+        sort,
+        order
+      })
     });
   } catch (error) {
-    console.error('Error fetching yield opportunities:', error);
+    logger.error('Error fetching yield opportunities:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch yield opportunities',
@@ -36,89 +78,89 @@ yieldRoutes.get('/opportunities', async (c) => {
   }
 });
 
-// Get historical yield data for a specific protocol/pool
-yieldRoutes.get('/history/:protocol/:poolId', async (c) => {
+// Get a single yield opportunity
+yieldRoutes.get('/opportunities/:id', validate('param', { id: fields.id }), async (c) => {
   try {
     const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
-    const { protocol, poolId } = c.req.param();
-    const days = parseInt(c.req.query('days') || '30');
+    const opportunity = yieldService.getYieldOpportunity(c.req.valid('param').id);
 
-    const history = await yieldService.getYieldHistory(protocol, poolId, days);
+    if (!opportunity) {
+      return c.json({ success: false, error: 'Opportunity not found' }, 404);
+    }
 
     return c.json({
       success: true,
-      data: history,
-      metadata: {
-        protocol,
-        poolId,
-        days,
-        dataPoints: history.length
-      }
+      data: opportunity,
+      metadata: responseMetadata()
     });
   } catch (error) {
-    console.error('Error fetching yield history:', error);
+    logger.error('Error fetching yield opportunity:', error);
     return c.json({
       success: false,
-      error: 'Failed to fetch yield history',
+      error: 'Failed to fetch yield opportunity',
       message: error instanceof Error ? error.message : 'Unknown error'
     }, 500);
   }
 });
 
-// Get yield analytics and insights
-yieldRoutes.get('/analytics', async (c) => {
+// Get historical yield data for a specific protocol/pool
+yieldRoutes.get('/history/:protocol/:poolId',
+  validate('param', {
+    protocol: { required: true, type: 'string', validator: validateProtocol },
+    poolId: { required: true, type: 'string', sanitizer: trim }
+  }),
+  validate('query', {
+    days: { type: 'number', validator: validateDays },
+    interval: { type: 'string', validator: value => validateEnum(value, HISTORY_INTERVALS) }
+  }),
+  async (c) => {
   try {
     const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
-    const chain = c.req.query('chain');
+    const { protocol, poolId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const days: number = query.days ?? 30;
+    const interval: HistoryInterval = query.interval ?? defaultInterval(days);
 
-    const analytics = await yieldService.getYieldAnalytics(chain);
+    const history = await yieldService.getYieldHistory(protocol, poolId, days, interval);
 
     return c.json({
       success: true,
-      data: analytics
+      data: history,
+      metadata: responseMetadata({
+        protocol,
+        poolId,
+        days,
+        interval,
+        dataPoints: history.length
+      })
     });
   } catch (error) {
-    console.error('Error fetching yield analytics:', error);
+    logger.error('Error fetching yield history:', error);
     return c.json({
       success: false,
-      error: 'Failed to fetch yield analytics',
+      error: 'Failed to fetch yield history',
       message: error instanceof Error ? error.message : 'Unknown error'
     }, 500);
   }
 });
 
-// Subscribe to yield alerts
-yieldRoutes.post('/alerts', async (c) => {
+// Get yield analytics and insights
+yieldRoutes.get('/analytics', validate('query', { chain: chainFilter }), async (c) => {
   try {
     const yieldService = c.get('yieldMonitoringService') as YieldMonitoringService;
-    const body = await c.req.json();
-    
-    const { 
-      walletAddress,
-      minApy,
-      maxRisk,
-      protocols,
-      alertMethods 
-    } = body;
-
-    const alertId = await yieldService.createYieldAlert({
-      walletAddress,
-      minApy,
-      maxRisk,
-      protocols,
-      alertMethods
-    });
+    const { chain } = c.req.valid('query');
+
+    const analytics = await yieldService.getYieldAnalytics(chain);
 
     return c.json({
       success: true,
-      data: { alertId },
-      message: 'Yield alert created successfully'
+      data: analytics
     });
   } catch (error) {
-    console.error('Error creating yield alert:', error);
+    logger.error('Error fetching yield analytics:', error);
     return c.json({
       success: false,
-      error: 'Failed to create yield alert',
+      error: 'Failed to fetch yield analytics',
       message: error instanceof Error ? error.message : 'Unknown error'
     }, 500);
   }
@@ -136,7 +178,7 @@ yieldRoutes.get('/market-conditions', async (c) => {
       data: conditions
     });
   } catch (error) {
-    console.error('Error fetching market conditions:', error);
+    logger.error('Error fetching market conditions:', error);
     return c.json({
       success: false,
       error: 'Failed to fetch market conditions',
@@ -145,4 +187,4 @@ yieldRoutes.get('/market-conditions', async (c) => {
   }
 });
 
-export { yieldRoutes };
\ No newline at end of file
+export { yieldRoutes };
@@ -3,7 +3,13 @@ import { YieldOpportunity } from '../types/yield';
 import { fetchUniswapV3Yields } from '../protocols/ethereum/uniswap';
 import { fetchAaveYields } from '../protocols/ethereum/aave';
 import { fetchRefFinanceYields } from '../protocols/near/ref';
+import { validate } from '../middleware/validation';
+import { validateDays, validateProtocol } from '../utils/validation';
 import type { AppBindings } from '../types/hono';
+import { createLogger } from '../utils/logger';
+import { responseMetadata } from '../utils/response';
+
+const logger = createLogger('routes/yieldMonitor');
 
 const app = new Hono<AppBindings>();
 
@@ -26,13 +32,12 @@ app.get('/opportunities', async (c) => {
     return c.json({
       success: true,
       opportunities: opportunities.slice(0, 20), // Top 20 opportunities
-      metadata: {
-        count: opportunities.length,
-        timestamp: new Date().toISOString()
-      }
+      metadata: responseMetadata({
+        count: opportunities.length
+      })
     });
   } catch (error) {
-    console.error('Error fetching yield opportunities:', error);
+    logger.error('Error fetching yield opportunities:', error);
     
     // Return mock data for demo if service fails
     const mockOpportunities = [
@@ -61,10 +66,9 @@ app.get('/opportunities', async (c) => {
     return c.json({
       success: true,
       opportunities: mockOpportunities,
-      metadata: {
-        count: mockOpportunities.length,
-        timestamp: new Date().toISOString()
-      }
+      metadata: responseMetadata({
+        count: mockOpportunities.length
+      })
     });
   }
 });
@@ -105,18 +109,19 @@ app.get('/monitor', async (c) => {
       bestOpportunity: opportunities[0] || null
     });
   } catch (error) {
-    console.error('Error monitoring yields:', error);
+    logger.error('Error monitoring yields:', error);
     return c.json({ error: 'Failed to monitor yields' }, 500);
   }
 });
 
-app.get('/compare', async (c) => {
+app.get('/compare',
+  validate('query', {
+    protocol1: { required: true, type: 'string', validator: validateProtocol },
+    protocol2: { required: true, type: 'string', validator: validateProtocol }
+  }),
+  async (c) => {
   try {
-    const { protocol1, protocol2 } = c.req.query();
-    
-    if (!protocol1 || !protocol2) {
-      return c.json({ error: 'Please provide protocol1 and protocol2 parameters' }, 400);
-    }
+    const { protocol1, protocol2 } = c.req.valid('query');
     
     // Fetch and compare yields between two protocols
     // This is a simplified comparison - expand based on actual needs
@@ -138,20 +143,25 @@ app.get('/compare', async (c) => {
     
     return c.json(comparison);
   } catch (error) {
-    console.error('Error comparing yields:', error);
+    logger.error('Error comparing yields:', error);
     return c.json({ error: 'Failed to compare yields' }, 500);
   }
 });
 
-app.get('/historical', async (c) => {
+app.get('/historical',
+  validate('query', {
+    protocol: { type: 'string', validator: validateProtocol },
+    days: { type: 'number', validator: validateDays }
+  }),
+  async (c) => {
   try {
-    const { protocol, days = '7' } = c.req.query();
+    const { protocol, days = 7 } = c.req.valid('query');
     
     // Mock historical data - replace with actual data fetching
     const historicalData = {
       protocol,
       period: `${days} days`,
-      data: Array.from({ length: parseInt(days) }, (_, i) => ({
+      data: Array.from({ length: days }, (_, i) => ({
         date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
         apy: 10 + Math.random() * 10,
         tvl: 1000000 + Math.random() * 500000
@@ -160,7 +170,7 @@ app.get('/historical', async (c) => {
     
     return c.json(historicalData);
   } catch (error) {
-    console.error('Error fetching historical yields:', error);
+    logger.error('Error fetching historical yields:', error);
     return c.json({ error: 'Failed to fetch historical yields' }, 500);
   }
 });
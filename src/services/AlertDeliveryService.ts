@@ -0,0 +1,114 @@
+import { EventEmitter } from 'events';
+import { createHash, randomUUID } from 'crypto';
+import { createLogger } from '../utils/logger';
+import { AlertDeliveryRepository } from '../db/repositories/AlertDeliveryRepository';
+import { AlertChannel, AlertMethod, AlertNotification, DeliveryError } from './alerts/AlertChannel';
+import { EmailChannel } from './alerts/EmailChannel';
+import { WebhookChannel } from './alerts/WebhookChannel';
+import { PushChannel } from './alerts/PushChannel';
+import type { YieldAlert, YieldOpportunity } from './YieldMonitoringService';
+
+const logger = createLogger('services/AlertDeliveryService');
+
+export interface AlertDelivery {
+  id: string;
+  alertId: string;
+  method: AlertMethod;
+  status: 'sent' | 'failed' | 'skipped';
+  attempts: number;
+  fingerprint?: string;
+  test: boolean;
+  error?: string;
+  createdAt: Date;
+}
+
+/**
+ * Identifies the opportunities (and satisfied conditions) an alert fired for,
+ * so an unchanged match is not re-sent every monitoring cycle
+ */
+export function alertFingerprint(opportunities: YieldOpportunity[], reasons: string[] = []): string {
+  const key = [...opportunities.map(op => `${op.id}:${op.apy.toFixed(1)}`), ...reasons]
+    .sort()
+    .join('|');
+
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Sends alert notifications through every method configured on the alert and
+ * records each attempt in the delivery log
+ */
+export class AlertDeliveryService extends EventEmitter {
+  private channels: Map<AlertMethod, AlertChannel>;
+  private repository: AlertDeliveryRepository;
+
+  constructor(
+    channels: AlertChannel[] = [new EmailChannel(), new WebhookChannel(), new PushChannel()],
+    repository: AlertDeliveryRepository = new AlertDeliveryRepository()
+  ) {
+    super();
+    this.channels = new Map(channels.map(channel => [channel.method, channel]));
+    this.repository = repository;
+  }
+
+  async deliver(alert: YieldAlert, notification: AlertNotification, fingerprint?: string): Promise<AlertDelivery[]> {
+    const destinations = alert.destinations || {};
+
+    const deliveries = await Promise.all(alert.alertMethods.map(async (method): Promise<AlertDelivery> => {
+      const delivery: AlertDelivery = {
+        id: randomUUID(),
+        alertId: alert.id,
+        method,
+        status: 'skipped',
+        attempts: 0,
+        fingerprint,
+        test: notification.test,
+        createdAt: new Date()
+      };
+
+      const channel = this.channels.get(method);
+      const unavailable = channel ? channel.unavailableReason(destinations) : `No ${method} driver registered`;
+
+      if (unavailable) {
+        delivery.error = unavailable;
+        return delivery;
+      }
+
+      try {
+        delivery.attempts = await channel!.send(notification, destinations);
+        delivery.status = 'sent';
+      } catch (error) {
+        delivery.status = 'failed';
+        delivery.attempts = error instanceof DeliveryError ? error.attempts : 1;
+        delivery.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      return delivery;
+    }));
+
+    for (const delivery of deliveries) {
+      await this.record(delivery);
+
+      if (delivery.status === 'sent') {
+        this.emit('alertDelivered', delivery);
+      } else {
+        this.emit('alertDeliveryFailed', delivery);
+        logger.warn(`Alert ${alert.id} ${delivery.method} delivery ${delivery.status}: ${delivery.error}`);
+      }
+    }
+
+    return deliveries;
+  }
+
+  async getDeliveries(alertId: string, limit: number = 50): Promise<AlertDelivery[]> {
+    return this.repository.findByAlert(alertId, limit);
+  }
+
+  private async record(delivery: AlertDelivery): Promise<void> {
+    try {
+      await this.repository.record(delivery);
+    } catch (error) {
+      logger.error(`Failed to record delivery for alert ${delivery.alertId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,474 @@
+import { EventEmitter } from 'events';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { createLogger } from '../utils/logger';
+import { CacheManager } from '../utils/CacheManager';
+import { getNetworkProfile } from '../config/networks';
+import { AuthRepository } from '../db/repositories/AuthRepository';
+import { AuditRepository } from '../db/repositories/AuditRepository';
+import { verifySiweMessage } from './auth/siwe';
+import { SignedNearMessage, hasFullAccessKey, verifyNearSignature } from './auth/nep413';
+
+const logger = createLogger('services/AuthService');
+
+export type AuthScope = 'read' | 'execute';
+export type AuthChain = 'ethereum' | 'near';
+
+export const AUTH_SCOPES: readonly AuthScope[] = ['read', 'execute'];
+
+export interface Session {
+  id: string;
+  tokenHash: string;
+  walletAddress: string;
+  chain: AuthChain;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+export interface ApiKey {
+  id: string;
+  keyHash: string;
+  prefix: string;
+  name: string;
+  walletAddress: string; // wallet that created the key and that it acts for
+  chain: AuthChain;
+  scopes: AuthScope[];
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * Who is making a request, as resolved from its bearer token
+ */
+export interface AuthIdentity {
+  type: 'session' | 'apiKey';
+  id: string;
+  walletAddress: string;
+  chain: AuthChain;
+  scopes: AuthScope[];
+}
+
+/**
+ * Lets the delegate wallet, and API keys it created, act for the owner wallet
+ */
+export interface Delegation {
+  id: string;
+  ownerWallet: string;
+  delegateWallet: string;
+  createdAt: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface AuditEvent {
+  action: 'wallet_access_denied';
+  actor?: AuthIdentity;
+  targetWallet: string;
+  method: string;
+  path: string;
+  timestamp: Date;
+}
+
+export interface LoginChallenge {
+  nonce: string;
+  walletAddress: string;
+  chain: AuthChain;
+  domain: string; // SIWE domain, and the NEP-413 recipient
+  message?: string; // NEP-413 message to sign
+  expiresAt: Date;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status: 401 | 403 | 503 = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const NONCE_TTL_SECONDS = 5 * 60;
+const SESSION_PREFIX = 'dfs_';
+const API_KEY_PREFIX = 'dfk_';
+const NEAR_LOGIN_MESSAGE = 'Sign in to DeFiFlow';
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Wallet sign-in (SIWE for Ethereum, NEP-413 for NEAR) issuing bearer session
+ * tokens, plus scoped API keys for bots and delegations between wallets. Only
+ * hashes of tokens and keys are stored. Without a database, sessions, keys
+ * and delegations live in memory.
+ */
+export class AuthService extends EventEmitter {
+  private repository: AuthRepository;
+  private cache: CacheManager;
+  private domain: string;
+  private sessionTtlMs: number;
+  private sessions: Map<string, Session> = new Map();
+  private apiKeys: Map<string, ApiKey> = new Map();
+  private delegations: Map<string, Delegation> = new Map();
+  private audit: AuditRepository;
+
+  constructor(
+    repository: AuthRepository = new AuthRepository(),
+    cache: CacheManager = new CacheManager('auth'),
+    options: { domain?: string; sessionTtlHours?: number } = {},
+    audit: AuditRepository = new AuditRepository()
+  ) {
+    super();
+    this.repository = repository;
+    this.cache = cache;
+    this.audit = audit;
+    this.domain = options.domain ?? process.env.AUTH_DOMAIN ?? `localhost:${process.env.PORT || '3000'}`;
+    this.sessionTtlMs = (options.sessionTtlHours ?? parseFloat(process.env.AUTH_SESSION_TTL_HOURS || '24')) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Issue a single-use nonce for the wallet to sign
+   */
+  async createChallenge(walletAddress: string, chain: AuthChain): Promise<LoginChallenge> {
+    // SIWE nonces must be alphanumeric; NEP-413 nonces are 32 bytes
+    const nonce = chain === 'ethereum' ? randomBytes(16).toString('hex') : randomBytes(32).toString('base64');
+    const challenge: LoginChallenge = {
+      nonce,
+      walletAddress,
+      chain,
+      domain: this.domain,
+      message: chain === 'near' ? NEAR_LOGIN_MESSAGE : undefined,
+      expiresAt: new Date(Date.now() + NONCE_TTL_SECONDS * 1000)
+    };
+
+    await this.cache.set(`nonce:${nonce}`, challenge, NONCE_TTL_SECONDS);
+    return challenge;
+  }
+
+  async loginWithEthereum(message: string, signature: string): Promise<{ token: string; session: Session }> {
+    let siwe;
+    try {
+      siwe = verifySiweMessage(message, signature, this.domain);
+    } catch (error) {
+      throw new AuthError(error instanceof Error ? error.message : 'Invalid sign-in message');
+    }
+
+    await this.consumeNonce(siwe.nonce, siwe.address, 'ethereum');
+    return this.createSession(siwe.address, 'ethereum');
+  }
+
+  async loginWithNear(signed: Omit<SignedNearMessage, 'recipient'>): Promise<{ token: string; session: Session }> {
+    // A signature over any other text was given for some other purpose
+    if (signed.message !== NEAR_LOGIN_MESSAGE) {
+      throw new AuthError(`Signed message must be "${NEAR_LOGIN_MESSAGE}"`);
+    }
+
+    const message = { ...signed, recipient: this.domain };
+
+    let valid: boolean;
+    try {
+      valid = verifyNearSignature(message);
+    } catch (error) {
+      throw new AuthError(error instanceof Error ? error.message : 'Invalid signature');
+    }
+    if (!valid) {
+      throw new AuthError('Invalid signature');
+    }
+
+    let fullAccess: boolean;
+    try {
+      fullAccess = await hasFullAccessKey(getNetworkProfile().near.rpcUrl, signed.accountId, signed.publicKey);
+    } catch (error) {
+      logger.error('Error looking up NEAR access key:', error);
+      throw new AuthError('Could not verify the NEAR access key, try again later', 503);
+    }
+    if (!fullAccess) {
+      throw new AuthError(`${signed.publicKey} is not a full access key of ${signed.accountId}`);
+    }
+
+    await this.consumeNonce(signed.nonce, signed.accountId, 'near');
+    return this.createSession(signed.accountId, 'near');
+  }
+
+  /**
+   * Resolve a session token or API key. Throws AuthError when it is unknown,
+   * expired or revoked.
+   */
+  async authenticate(token: string): Promise<AuthIdentity> {
+    const now = new Date();
+
+    if (token.startsWith(SESSION_PREFIX)) {
+      const session = await this.findSession(hashToken(token));
+      if (!session || session.revokedAt || session.expiresAt <= now) {
+        throw new AuthError('Session is invalid or has expired');
+      }
+
+      return {
+        type: 'session',
+        id: session.id,
+        walletAddress: session.walletAddress,
+        chain: session.chain,
+        scopes: [...AUTH_SCOPES]
+      };
+    }
+
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const key = await this.findApiKey(hashToken(token));
+      if (!key || key.revokedAt || (key.expiresAt && key.expiresAt <= now)) {
+        throw new AuthError('API key is invalid or has expired');
+      }
+
+      if (!key.lastUsedAt || now.getTime() - key.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+        key.lastUsedAt = now;
+        this.repository.saveApiKey(key).catch(error => logger.error('Error recording API key use:', error));
+      }
+
+      return {
+        type: 'apiKey',
+        id: key.id,
+        walletAddress: key.walletAddress,
+        chain: key.chain,
+        scopes: key.scopes
+      };
+    }
+
+    throw new AuthError('Unrecognized token');
+  }
+
+  async logout(identity: AuthIdentity): Promise<void> {
+    if (identity.type !== 'session') {
+      throw new AuthError('Only sessions can be logged out; revoke API keys instead', 403);
+    }
+
+    const session = Array.from(this.sessions.values()).find(s => s.id === identity.id);
+    if (session) {
+      session.revokedAt = new Date();
+    }
+    await this.repository.revokeSession(identity.id);
+
+    this.emit('sessionRevoked', identity);
+  }
+
+  /**
+   * Create an API key acting for the signed-in wallet. The plaintext key is
+   * only returned here.
+   */
+  async createApiKey(
+    owner: AuthIdentity,
+    name: string,
+    scopes: AuthScope[],
+    expiresInDays?: number
+  ): Promise<{ key: string; apiKey: ApiKey }> {
+    if (owner.type !== 'session') {
+      throw new AuthError('API keys can only be created from a wallet session', 403);
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const apiKey: ApiKey = {
+      id: randomUUID(),
+      keyHash: hashToken(key),
+      prefix: key.substring(0, API_KEY_PREFIX.length + 8),
+      name,
+      walletAddress: owner.walletAddress,
+      chain: owner.chain,
+      scopes: [...new Set(scopes)],
+      createdAt: new Date(),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined
+    };
+
+    if (!this.repository.isEnabled()) {
+      this.apiKeys.set(apiKey.keyHash, apiKey);
+    }
+    await this.repository.saveApiKey(apiKey);
+
+    logger.info(`API key ${apiKey.prefix} created for ${owner.walletAddress} (${apiKey.scopes.join(', ')})`);
+    this.emit('apiKeyCreated', apiKey);
+    return { key, apiKey };
+  }
+
+  async listApiKeys(walletAddress: string): Promise<ApiKey[]> {
+    if (this.repository.isEnabled()) {
+      return this.repository.findApiKeysByWallet(walletAddress);
+    }
+
+    return Array.from(this.apiKeys.values())
+      .filter(key => key.walletAddress === walletAddress && !key.revokedAt);
+  }
+
+  async revokeApiKey(walletAddress: string, id: string): Promise<boolean> {
+    const key = (await this.listApiKeys(walletAddress)).find(k => k.id === id);
+    if (!key) {
+      return false;
+    }
+
+    key.revokedAt = new Date();
+    await this.repository.saveApiKey(key);
+
+    logger.info(`API key ${key.prefix} revoked for ${walletAddress}`);
+    this.emit('apiKeyRevoked', key);
+    return true;
+  }
+
+  /**
+   * Whether the caller may manage `walletAddress`: its own wallet, or one
+   * that delegated to the caller's wallet
+   */
+  async canActFor(identity: AuthIdentity, walletAddress: string): Promise<boolean> {
+    if (sameWallet(identity.walletAddress, walletAddress)) {
+      return true;
+    }
+
+    const now = new Date();
+    return (await this.findDelegations(identity.walletAddress)).some(delegation =>
+      sameWallet(delegation.delegateWallet, identity.walletAddress) &&
+      sameWallet(delegation.ownerWallet, walletAddress) &&
+      (!delegation.expiresAt || delegation.expiresAt > now)
+    );
+  }
+
+  async recordDenial(event: Omit<AuditEvent, 'action' | 'timestamp'>): Promise<void> {
+    const audit: AuditEvent = { ...event, action: 'wallet_access_denied', timestamp: new Date() };
+
+    logger.warn(
+      `Access denied: ${event.actor ? `${event.actor.type} ${event.actor.id} (${event.actor.walletAddress})` : 'anonymous'} ` +
+      `tried ${event.method} ${event.path} for ${event.targetWallet}`
+    );
+    this.emit('accessDenied', audit);
+
+    try {
+      await this.audit.record(audit);
+    } catch (error) {
+      logger.error('Error recording audit event:', error);
+    }
+  }
+
+  /**
+   * Allow `delegateWallet` to act for the signed-in wallet
+   */
+  async createDelegation(owner: AuthIdentity, delegateWallet: string, expiresInDays?: number): Promise<Delegation> {
+    if (owner.type !== 'session') {
+      throw new AuthError('Delegations can only be created from a wallet session', 403);
+    }
+    if (sameWallet(owner.walletAddress, delegateWallet)) {
+      throw new AuthError('A wallet cannot delegate to itself', 403);
+    }
+
+    const delegation: Delegation = {
+      id: randomUUID(),
+      ownerWallet: owner.walletAddress,
+      delegateWallet,
+      createdAt: new Date(),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined
+    };
+
+    if (!this.repository.isEnabled()) {
+      this.delegations.set(delegation.id, delegation);
+    }
+    await this.repository.saveDelegation(delegation);
+
+    logger.info(`${owner.walletAddress} delegated to ${delegateWallet}`);
+    this.emit('delegationCreated', delegation);
+    return delegation;
+  }
+
+  /**
+   * Active delegations the wallet granted or received
+   */
+  async listDelegations(walletAddress: string): Promise<Delegation[]> {
+    const now = new Date();
+    return (await this.findDelegations(walletAddress))
+      .filter(delegation => !delegation.expiresAt || delegation.expiresAt > now);
+  }
+
+  /**
+   * Revoke a delegation; either side may end it
+   */
+  async revokeDelegation(walletAddress: string, id: string): Promise<boolean> {
+    const delegation = (await this.findDelegations(walletAddress)).find(d => d.id === id);
+    if (!delegation) {
+      return false;
+    }
+
+    delegation.revokedAt = new Date();
+    await this.repository.saveDelegation(delegation);
+
+    logger.info(`Delegation from ${delegation.ownerWallet} to ${delegation.delegateWallet} revoked`);
+    this.emit('delegationRevoked', delegation);
+    return true;
+  }
+
+  private async findDelegations(walletAddress: string): Promise<Delegation[]> {
+    if (this.repository.isEnabled()) {
+      return this.repository.findDelegations(walletAddress);
+    }
+
+    return Array.from(this.delegations.values()).filter(delegation =>
+      !delegation.revokedAt &&
+      (sameWallet(delegation.ownerWallet, walletAddress) || sameWallet(delegation.delegateWallet, walletAddress))
+    );
+  }
+
+  private async createSession(walletAddress: string, chain: AuthChain): Promise<{ token: string; session: Session }> {
+    const token = `${SESSION_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const session: Session = {
+      id: randomUUID(),
+      tokenHash: hashToken(token),
+      walletAddress,
+      chain,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + this.sessionTtlMs)
+    };
+
+    if (!this.repository.isEnabled()) {
+      this.pruneSessions();
+      this.sessions.set(session.tokenHash, session);
+    }
+    await this.repository.saveSession(session);
+
+    logger.info(`Session created for ${walletAddress} (${chain})`);
+    this.emit('sessionCreated', session);
+    return { token, session };
+  }
+
+  // Nonces are deleted on first use, so a signed message can't be replayed
+  private async consumeNonce(nonce: string, walletAddress: string, chain: AuthChain): Promise<void> {
+    const key = `nonce:${nonce}`;
+    const challenge = await this.cache.get<LoginChallenge>(key);
+
+    if (!challenge || challenge.chain !== chain || !sameWallet(challenge.walletAddress, walletAddress)) {
+      throw new AuthError('Unknown or expired nonce');
+    }
+    if (!(await this.cache.delete(key))) {
+      throw new AuthError('Nonce has already been used');
+    }
+  }
+
+  private async findSession(tokenHash: string): Promise<Session | null> {
+    if (this.repository.isEnabled()) {
+      return this.repository.findSession(tokenHash);
+    }
+    return this.sessions.get(tokenHash) ?? null;
+  }
+
+  private async findApiKey(keyHash: string): Promise<ApiKey | null> {
+    if (this.repository.isEnabled()) {
+      return this.repository.findApiKey(keyHash);
+    }
+    return this.apiKeys.get(keyHash) ?? null;
+  }
+
+  private pruneSessions(): void {
+    const now = new Date();
+    for (const [hash, session] of this.sessions) {
+      if (session.revokedAt || session.expiresAt <= now) {
+        this.sessions.delete(hash);
+      }
+    }
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// EVM addresses compare case-insensitively; NEAR account ids are lowercase already
+function sameWallet(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
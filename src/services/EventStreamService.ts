@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import { createLogger } from '../utils/logger';
+import { AppEvents, EventBus, eventBus } from '../utils/EventBus';
+
+const logger = createLogger('services/EventStreamService');
+
+export const STREAM_EVENTS = [
+  'opportunitiesUpdated',
+  'positionsUpdated',
+  'significantPnlChange',
+  'yieldAlert',
+  'rebalanceCompleted',
+  'rebalanceFailed'
+] as const satisfies readonly (keyof AppEvents)[];
+
+export type StreamEventName = typeof STREAM_EVENTS[number];
+
+export interface StreamEvent {
+  id: number;
+  event: StreamEventName;
+  walletAddresses?: string[]; // undefined for events every client receives
+  data: unknown;
+  timestamp: Date;
+}
+
+export interface StreamFilter {
+  walletAddress?: string;
+  events?: StreamEventName[];
+}
+
+export type StreamListener = (event: StreamEvent) => void;
+
+/**
+ * Fans bus events out to streaming clients. Every event gets an increasing id
+ * and is kept in a bounded buffer so a reconnecting client can resume from
+ * its last seen id. Ids are per process; after a restart clients resync.
+ */
+export class EventStreamService extends EventEmitter {
+  private events: EventBus;
+  private buffer: StreamEvent[] = [];
+  private nextId = 1;
+  private subscriptions: (() => void)[] = [];
+  private bufferSize: number;
+
+  constructor(events: EventBus = eventBus, bufferSize: number = 500) {
+    super();
+    this.events = events;
+    this.bufferSize = bufferSize;
+    this.setMaxListeners(0); // one listener per connected client
+  }
+
+  async initialize(): Promise<void> {
+    this.subscriptions.push(
+      this.events.subscribe('opportunitiesUpdated', payload =>
+        this.record('opportunitiesUpdated', undefined, payload)),
+      // One entry per wallet, so no client learns which other wallets changed
+      this.events.subscribe('positionsUpdated', payload =>
+        payload.walletAddresses.forEach(walletAddress =>
+          this.record('positionsUpdated', [walletAddress], { ...payload, walletAddresses: [walletAddress] }))),
+      this.events.subscribe('significantPnlChange', payload =>
+        this.record('significantPnlChange', [payload.walletAddress], payload)),
+      this.events.subscribe('yieldAlert', payload =>
+        this.record('yieldAlert', [payload.walletAddress], payload)),
+      this.events.subscribe('rebalanceCompleted', payload =>
+        this.record('rebalanceCompleted', [payload.execution.walletAddress], payload)),
+      this.events.subscribe('rebalanceFailed', payload =>
+        this.record('rebalanceFailed', [payload.execution.walletAddress], payload))
+    );
+
+    logger.info('Event Stream Service initialized');
+  }
+
+  async shutdown(): Promise<void> {
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+    this.removeAllListeners('event');
+
+    logger.info('Event Stream Service shut down');
+  }
+
+  /**
+   * Listen for new events matching the filter; returns an unsubscribe function
+   */
+  subscribe(filter: StreamFilter, listener: StreamListener): () => void {
+    const handler = (event: StreamEvent) => {
+      if (this.matches(event, filter)) {
+        listener(event);
+      }
+    };
+
+    this.on('event', handler);
+    return () => {
+      this.off('event', handler);
+    };
+  }
+
+  /**
+   * Buffered events after `lastEventId` matching the filter, or null when
+   * events have already been dropped from the buffer (or the id is unknown)
+   * and the client has to reload its state instead.
+   */
+  replaySince(lastEventId: number, filter: StreamFilter): StreamEvent[] | null {
+    const oldest = this.buffer[0]?.id ?? this.nextId;
+
+    if (lastEventId >= this.nextId || lastEventId < oldest - 1) {
+      return null;
+    }
+
+    return this.buffer.filter(event => event.id > lastEventId && this.matches(event, filter));
+  }
+
+  private record(event: StreamEventName, walletAddresses: string[] | undefined, data: unknown): void {
+    const entry: StreamEvent = {
+      id: this.nextId++,
+      event,
+      walletAddresses: walletAddresses?.map(address => address.toLowerCase()),
+      data,
+      timestamp: new Date()
+    };
+
+    this.buffer.push(entry);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+
+    this.emit('event', entry);
+  }
+
+  private matches(event: StreamEvent, filter: StreamFilter): boolean {
+    if (filter.events && !filter.events.includes(event.event)) {
+      return false;
+    }
+
+    // Wallet-scoped events only go to clients subscribed to that wallet
+    if (event.walletAddresses) {
+      return !!filter.walletAddress && event.walletAddresses.includes(filter.walletAddress.toLowerCase());
+    }
+
+    return true;
+  }
+}
@@ -1,5 +1,8 @@
 import Moralis from 'moralis';
 import { EvmChain } from '@moralisweb3/common-evm-utils';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('services/MoralisService');
 
 export interface DeFiPosition {
   protocol_name: string;
@@ -45,9 +48,9 @@ export class MoralisService {
         apiKey: process.env.MORALIS_API_KEY || "YOUR_API_KEY_HERE"
       });
       this.initialized = true;
-      console.log('Moralis service initialized');
+      logger.info('Moralis service initialized');
     } catch (error) {
-      console.error('Failed to initialize Moralis:', error);
+      logger.error('Failed to initialize Moralis:', error);
       throw error;
     }
   }
@@ -66,7 +69,7 @@ export class MoralisService {
 
       return response.raw;
     } catch (error) {
-      console.error('Error fetching DeFi summary:', error);
+      logger.error('Error fetching DeFi summary:', error);
       throw error;
     }
   }
@@ -87,7 +90,7 @@ export class MoralisService {
       const positions = response.raw as unknown as DeFiPosition[];
       return positions;
     } catch (error) {
-      console.error('Error fetching DeFi positions:', error);
+      logger.error('Error fetching DeFi positions:', error);
       return [];
     }
   }
@@ -111,7 +114,7 @@ export class MoralisService {
 
       return response.raw as unknown as DeFiPosition;
     } catch (error) {
-      console.error(`Error fetching ${protocol} positions:`, error);
+      logger.error(`Error fetching ${protocol} positions:`, error);
       return null;
     }
   }
@@ -130,7 +133,7 @@ export class MoralisService {
 
       return response.raw;
     } catch (error) {
-      console.error('Error fetching token balances:', error);
+      logger.error('Error fetching token balances:', error);
       return [];
     }
   }
@@ -149,7 +152,7 @@ export class MoralisService {
 
       return response.raw;
     } catch (error) {
-      console.error('Error fetching NFT positions:', error);
+      logger.error('Error fetching NFT positions:', error);
       return [];
     }
   }
@@ -168,7 +171,7 @@ export class MoralisService {
 
       return response.raw;
     } catch (error) {
-      console.error('Error fetching transaction history:', error);
+      logger.error('Error fetching transaction history:', error);
       return [];
     }
   }
@@ -187,7 +190,7 @@ export class MoralisService {
 
       return response.raw;
     } catch (error) {
-      console.error('Error fetching token price:', error);
+      logger.error('Error fetching token price:', error);
       return null;
     }
   }
@@ -1,15 +1,18 @@
 import { EventEmitter } from 'events';
-import { NearProtocol } from '../protocols/NearProtocol';
-import { EthereumProtocol } from '../protocols/EthereumProtocol';
-import { BSCProtocol } from '../protocols/BSCProtocol';
-import { PolygonProtocol } from '../protocols/PolygonProtocol';
-import { logger } from '../utils/logger';
+import { ChainRegistry } from '../protocols/ChainRegistry';
+import { createLogger } from '../utils/logger';
+import { monitoringCycleDuration } from '../utils/metrics';
 import { CacheManager } from '../utils/CacheManager';
+import { EventBus, eventBus } from '../utils/EventBus';
+import { PositionRepository } from '../db/repositories/PositionRepository';
+import { HistoryInterval, INTERVAL_SECONDS, defaultInterval, fillGaps } from '../utils/timeSeries';
+
+const logger = createLogger('services/PositionTrackingService');
 
 export interface Position {
   id: string;
   walletAddress: string;
-  chain: 'near' | 'ethereum' | 'bsc' | 'polygon';
+  chain: string;
   protocol: string;
   positionType: 'lending' | 'liquidity' | 'staking' | 'farming';
   tokenAddress: string;
@@ -35,6 +38,7 @@ export interface Position {
     leverage?: number;
     collateralRatio?: number;
     liquidationPrice?: number;
+    healthFactor?: number;
     fees?: {
       entry: number;
       exit: number;
@@ -71,6 +75,7 @@ export interface PositionHistory {
   apy: number;
   pnl: number;
   rewards?: number;
+  filled?: boolean; // no sample in this bucket; values carried over from the previous one
 }
 
 export interface RiskAnalysis {
@@ -88,34 +93,34 @@ export interface RiskAnalysis {
 }
 
 export class PositionTrackingService extends EventEmitter {
-  private nearProtocol: NearProtocol;
-  private ethereumProtocol: EthereumProtocol;
-  private bscProtocol: BSCProtocol;
-  private polygonProtocol: PolygonProtocol;
+  private chains: ChainRegistry;
+  private events: EventBus;
   private cache: CacheManager;
+  private repository: PositionRepository;
   private trackingInterval?: NodeJS.Timeout;
   private positions: Map<string, Position[]> = new Map(); // walletAddress -> positions
+  private subscriptions: (() => void)[] = [];
+  private prewarm: boolean;
 
-  constructor() {
+  constructor(chains: ChainRegistry, events: EventBus = eventBus) {
     super();
-    this.nearProtocol = new NearProtocol();
-    this.ethereumProtocol = new EthereumProtocol();
-    this.bscProtocol = new BSCProtocol();
-    this.polygonProtocol = new PolygonProtocol();
+    this.chains = chains;
+    this.events = events;
     this.cache = new CacheManager('position-tracking');
+    this.repository = new PositionRepository();
+    this.prewarm = process.env.ENABLE_CACHE_PREWARM === 'true';
   }
 
   async initialize(): Promise<void> {
     try {
       logger.info('Initializing Position Tracking Service...');
       
-      await this.nearProtocol.initialize();
-      await this.ethereumProtocol.initialize();
-      await this.bscProtocol.initialize();
-      await this.polygonProtocol.initialize();
-      
       // Load existing positions from storage
       await this.loadPositions();
+
+      this.subscriptions.push(
+        this.events.subscribe('positionsUpdated', ({ walletAddresses }) => this.invalidatePositions(walletAddresses))
+      );
       
       logger.info('Position Tracking Service initialized successfully');
     } catch (error) {
@@ -127,10 +132,13 @@ export class PositionTrackingService extends EventEmitter {
   async startTracking(): Promise<void> {
     // Update positions every 2 minutes
     this.trackingInterval = setInterval(async () => {
+      const stopTimer = monitoringCycleDuration.startTimer({ loop: 'position_tracking' });
       try {
         await this.updateAllPositions();
       } catch (error) {
         logger.error('Error in position tracking cycle:', error);
+      } finally {
+        stopTimer();
       }
     }, 2 * 60 * 1000);
 
@@ -141,11 +149,9 @@ export class PositionTrackingService extends EventEmitter {
     if (this.trackingInterval) {
       clearInterval(this.trackingInterval);
     }
-    
-    await this.nearProtocol.shutdown();
-    await this.ethereumProtocol.shutdown();
-    await this.bscProtocol.shutdown();
-    await this.polygonProtocol.shutdown();
+
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
     
     logger.info('Position Tracking Service shut down');
   }
@@ -176,43 +182,20 @@ export class PositionTrackingService extends EventEmitter {
     return positions.find(pos => pos.id === positionId) || null;
   }
 
-  async getPositionHistory(walletAddress: string, positionId: string, days: number): Promise<PositionHistory[]> {
-    const cacheKey = `history:${walletAddress}:${positionId}:${days}`;
-    const cached = await this.cache.get<PositionHistory[]>(cacheKey);
-    
-    if (cached) {
-      return cached;
-    }
+  async getPositionHistory(
+    walletAddress: string,
+    positionId: string,
+    days: number,
+    interval: HistoryInterval = defaultInterval(days)
+  ): Promise<PositionHistory[]> {
+    const cacheKey = `history:${walletAddress}:${positionId}:${days}:${interval}`;
 
-    // In a real implementation, fetch from database
-    // For now, generate mock historical data
-    const history: PositionHistory[] = [];
-    const position = await this.getPositionDetails(walletAddress, positionId);
-    
-    if (!position) {
-      return [];
-    }
-
-    const now = new Date();
-    for (let i = days; i >= 0; i--) {
-      const timestamp = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
-      
-      // Generate realistic historical data with some randomness
-      const valueVariation = 1 + (Math.random() - 0.5) * 0.1; // ±5% variation
-      const apyVariation = 1 + (Math.random() - 0.5) * 0.2; // ±10% variation
-      
-      history.push({
-        positionId,
-        timestamp,
-        value: position.value * valueVariation,
-        apy: position.apy * apyVariation,
-        pnl: position.pnl * valueVariation,
-        rewards: (position.rewards?.reduce((sum, r) => sum + r.value, 0) || 0) * valueVariation
-      });
-    }
+    return this.cache.getOrSet(cacheKey, async () => {
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const buckets = await this.repository.findHistory(walletAddress, positionId, since, INTERVAL_SECONDS[interval]);
 
-    await this.cache.set(cacheKey, history, 300); // Cache for 5 minutes
-    return history;
+      return fillGaps(buckets, interval, since);
+    }, 300); // Cache for 5 minutes; dropped when positions update
   }
 
   async getPortfolioSummary(walletAddress: string): Promise<PortfolioSummary> {
@@ -302,7 +285,7 @@ export class PositionTrackingService extends EventEmitter {
 
   async trackPosition(positionConfig: {
     walletAddress: string;
-    chain: 'near' | 'ethereum' | 'bsc' | 'polygon';
+    chain: string;
     protocol: string;
     positionType: 'lending' | 'liquidity' | 'staking' | 'farming';
     tokenAddress: string;
@@ -313,7 +296,7 @@ export class PositionTrackingService extends EventEmitter {
     
     try {
       // Fetch current position data from blockchain
-      const protocolHandler = positionConfig.chain === 'near' ? this.nearProtocol : this.ethereumProtocol;
+      const protocolHandler = this.chains.get(positionConfig.chain);
       const positionData = await protocolHandler.getPositionData(
         positionConfig.tokenAddress,
         positionConfig.walletAddress
@@ -336,14 +319,19 @@ export class PositionTrackingService extends EventEmitter {
           ...positionData.metadata
         }
       };
+      await this.updateHealthFactor(position);
 
       const walletPositions = this.positions.get(positionConfig.walletAddress) || [];
       walletPositions.push(position);
       this.positions.set(positionConfig.walletAddress, walletPositions);
 
-      await this.savePositions();
+      await this.savePositions([position]);
       
       this.emit('positionTracked', position);
+      await this.events.publish('positionsUpdated', {
+        walletAddresses: [positionConfig.walletAddress],
+        timestamp: new Date()
+      });
       logger.info(`Started tracking position ${positionId} for wallet ${positionConfig.walletAddress}`);
       
       return positionId;
@@ -362,9 +350,10 @@ export class PositionTrackingService extends EventEmitter {
     }
 
     this.positions.set(walletAddress, updatedPositions);
-    await this.savePositions();
+    await this.repository.deactivate(walletAddress, positionId);
     
     this.emit('positionStopped', { walletAddress, positionId });
+    await this.events.publish('positionsUpdated', { walletAddresses: [walletAddress], timestamp: new Date() });
     logger.info(`Stopped tracking position ${positionId} for wallet ${walletAddress}`);
   }
 
@@ -394,11 +383,10 @@ export class PositionTrackingService extends EventEmitter {
 
   async healthCheck(): Promise<boolean> {
     try {
-      const nearHealth = await this.nearProtocol.healthCheck();
-      const ethHealth = await this.ethereumProtocol.healthCheck();
+      const chainHealth = await Promise.all(this.chains.list().map(adapter => adapter.healthCheck()));
       const totalPositions = Array.from(this.positions.values()).reduce((sum, positions) => sum + positions.length, 0);
       
-      return nearHealth && ethHealth && totalPositions >= 0; // Allow 0 positions
+      return chainHealth.every(Boolean) && totalPositions >= 0; // Allow 0 positions
     } catch (error) {
       logger.error('Position tracking health check failed:', error);
       return false;
@@ -416,18 +404,57 @@ export class PositionTrackingService extends EventEmitter {
 
     try {
       await Promise.allSettled(updatePromises);
-      await this.savePositions();
+      const positions = Array.from(this.positions.values()).flat();
+      await this.savePositions(positions);
+      await this.recordHistory(positions);
       
       this.emit('positionsUpdated', new Date());
+      await this.events.publish('positionsUpdated', {
+        walletAddresses: Array.from(this.positions.keys()),
+        timestamp: new Date()
+      });
       logger.info(`Updated ${updatePromises.length} positions`);
     } catch (error) {
       logger.error('Error updating positions:', error);
     }
   }
 
+  /**
+   * Drop cached positions and portfolio summaries for the given wallets,
+   * rebuilding the summaries right away when pre-warming is enabled
+   */
+  private async invalidatePositions(walletAddresses: string[]): Promise<void> {
+    for (const walletAddress of walletAddresses) {
+      await this.cache.deletePattern(`positions:${walletAddress}:*`);
+      await this.cache.delete(`portfolio:${walletAddress}`);
+      await this.cache.deletePattern(`history:${walletAddress}:*`);
+
+      if (this.prewarm) {
+        await this.getPortfolioSummary(walletAddress);
+      }
+    }
+  }
+
+  /**
+   * Lending positions carry the health factor of the wallet's borrowing on
+   * their protocol, when the chain adapter can report it
+   */
+  private async updateHealthFactor(position: Position): Promise<void> {
+    const adapter = this.chains.get(position.chain);
+    if (position.positionType !== 'lending' || !adapter.getHealthFactor) {
+      return;
+    }
+
+    try {
+      position.metadata.healthFactor = await adapter.getHealthFactor(position.walletAddress, position.protocol);
+    } catch (error) {
+      logger.error(`Error fetching health factor for position ${position.id}:`, error);
+    }
+  }
+
   private async updatePosition(walletAddress: string, position: Position): Promise<void> {
     try {
-      const protocolHandler = position.chain === 'near' ? this.nearProtocol : this.ethereumProtocol;
+      const protocolHandler = this.chains.get(position.chain);
       const updatedData = await protocolHandler.getPositionData(
         position.tokenAddress,
         walletAddress
@@ -439,6 +466,8 @@ export class PositionTrackingService extends EventEmitter {
       position.currentPrice = updatedData.currentPrice || position.currentPrice;
       position.apy = updatedData.apy || position.apy;
       position.rewards = updatedData.rewards || position.rewards;
+      position.metadata = { ...position.metadata, ...updatedData.metadata };
+      await this.updateHealthFactor(position);
       
       // Calculate PnL
       const totalInvested = position.amount * position.entryPrice;
@@ -451,6 +480,7 @@ export class PositionTrackingService extends EventEmitter {
       // Check for significant changes and emit events
       if (Math.abs(position.pnlPercentage) > 10) {
         this.emit('significantPnlChange', { walletAddress, position });
+        await this.events.publish('significantPnlChange', { walletAddress, position });
       }
     } catch (error) {
       logger.error(`Error updating position ${position.id}:`, error);
@@ -540,12 +570,25 @@ export class PositionTrackingService extends EventEmitter {
   }
 
   private async loadPositions(): Promise<void> {
-    // In a real implementation, load from database
-    // For now, keep in memory
+    this.positions = await this.repository.loadActive();
+
+    const total = Array.from(this.positions.values()).reduce((sum, positions) => sum + positions.length, 0);
+    logger.info(`Loaded ${total} positions for ${this.positions.size} wallets`);
+  }
+
+  private async savePositions(positions: Position[]): Promise<void> {
+    try {
+      await this.repository.saveMany(positions);
+    } catch (error) {
+      logger.error('Error saving positions:', error);
+    }
   }
 
-  private async savePositions(): Promise<void> {
-    // In a real implementation, save to database
-    // For now, keep in memory
+  private async recordHistory(positions: Position[]): Promise<void> {
+    try {
+      await this.repository.recordHistory(positions);
+    } catch (error) {
+      logger.error('Error recording position history:', error);
+    }
   }
 }
\ No newline at end of file
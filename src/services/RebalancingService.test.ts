@@ -0,0 +1,74 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { database } from '../db/Database';
+import { RebalanceRepository } from '../db/repositories/RebalanceRepository';
+import { RebalancingService } from './RebalancingService';
+import type { RebalanceAction, RebalanceExecution } from './RebalancingService';
+import type { ChainRegistry } from '../protocols/ChainRegistry';
+import type { YieldMonitoringService } from './YieldMonitoringService';
+import type { PositionTrackingService } from './PositionTrackingService';
+
+const WALLET = '0x' + 'ef'.repeat(20);
+
+const compensatingAction: RebalanceAction = {
+  id: 'redeposit',
+  type: 'deposit',
+  fromProtocol: 'aave-v3',
+  toProtocol: 'aave-v3',
+  toChain: 'ethereum',
+  token: 'USDC',
+  amount: 1000,
+  estimatedGas: 150000,
+  priority: 1
+};
+
+function partialExecution(): RebalanceExecution {
+  return {
+    id: randomUUID(),
+    walletAddress: WALLET,
+    strategy: 'yield_optimization',
+    status: 'partial',
+    actions: [],
+    transactions: [],
+    results: { totalGasUsed: 0, totalValue: 0, apyImprovement: 0, executionTime: 0 },
+    compensation: { actions: [compensatingAction], reason: 'deposit failed', status: 'proposed', createdAt: new Date() },
+    startedAt: new Date(),
+    completedAt: new Date()
+  };
+}
+
+describe('RebalancingService.recoverExecution', () => {
+  const repository = new RebalanceRepository();
+  const service = new RebalancingService(
+    {} as ChainRegistry,
+    {} as YieldMonitoringService,
+    {} as PositionTrackingService
+  );
+
+  before(() => database.initialize('memory://'));
+  after(() => database.shutdown());
+
+  it('releases the plan when the executor throws, so a retry can run it', async () => {
+    const execution = partialExecution();
+    await repository.saveExecution(execution);
+
+    let calls = 0;
+    service.executeRebalance = async (config) => {
+      calls++;
+      if (calls === 1) {
+        throw new Error('RPC unavailable');
+      }
+      return { ...partialExecution(), actions: config.actions, status: 'completed', compensation: undefined };
+    };
+
+    await assert.rejects(service.recoverExecution(execution.id), /RPC unavailable/);
+    assert.equal((await repository.findExecution(execution.id))?.compensation?.status, 'failed');
+
+    const recovery = await service.recoverExecution(execution.id);
+    const recovered = await repository.findExecution(execution.id);
+    assert.equal(calls, 2);
+    assert.equal(recovered?.compensation?.status, 'completed');
+    assert.equal(recovered?.compensation?.recoveryExecutionId, recovery.id);
+  });
+});
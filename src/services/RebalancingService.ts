@@ -1,12 +1,25 @@
 import { EventEmitter } from 'events';
-import { NearProtocol } from '../protocols/NearProtocol';
-import { EthereumProtocol } from '../protocols/EthereumProtocol';
-import { BSCProtocol } from '../protocols/BSCProtocol';
-import { PolygonProtocol } from '../protocols/PolygonProtocol';
+import { randomUUID } from 'crypto';
+import { ChainAdapter, TransactionResult } from '../protocols/ChainAdapter';
+import { ChainRegistry } from '../protocols/ChainRegistry';
 import { YieldMonitoringService } from './YieldMonitoringService';
 import { PositionTrackingService } from './PositionTrackingService';
-import { logger } from '../utils/logger';
+import { createLogger } from '../utils/logger';
+import {
+  executionQueueSize,
+  gasUsed,
+  metrics,
+  monitoringCycleDuration,
+  rebalanceDuration,
+  rebalanceExecutions
+} from '../utils/metrics';
 import { CacheManager } from '../utils/CacheManager';
+import { EventBus, eventBus } from '../utils/EventBus';
+import { database } from '../db/Database';
+import { RebalanceRepository } from '../db/repositories/RebalanceRepository';
+import { runActionGraph, validateActionGraph } from '../utils/actionGraph';
+
+const logger = createLogger('services/RebalancingService');
 
 export interface RebalanceRecommendation {
   id: string;
@@ -31,6 +44,7 @@ export interface RebalanceRecommendation {
 }
 
 export interface RebalanceAction {
+  id: string; // Stable within the execution, referenced by dependencies
   type: 'withdraw' | 'deposit' | 'swap' | 'migrate';
   fromProtocol?: string;
   toProtocol: string;
@@ -39,22 +53,26 @@ export interface RebalanceAction {
   token: string;
   amount: number;
   estimatedGas: number;
-  priority: number; // Execution order
+  priority: number; // Tie-breaker between actions that are ready at the same time
   dependencies?: string[]; // Action IDs this depends on
 }
 
+// 'submitting' is journaled before broadcast, 'pending' once the tx hash is known
+export type RebalanceActionStatus = 'queued' | 'submitting' | 'pending' | 'confirmed' | 'failed' | 'skipped';
+
 export interface RebalanceExecution {
   id: string;
   walletAddress: string;
   strategy: RebalanceStrategy;
   actions: RebalanceAction[];
-  status: 'pending' | 'executing' | 'completed' | 'failed' | 'partial';
+  status: 'pending' | 'executing' | 'completed' | 'failed' | 'partial' | 'needs_review';
   transactions: {
     actionId: string;
-    txHash: string;
-    status: 'pending' | 'confirmed' | 'failed';
+    txHash?: string; // Set once the transaction is broadcast
+    status: RebalanceActionStatus;
     gasUsed?: number;
-    timestamp: Date;
+    error?: string;
+    timestamp: Date; // Last status change
   }[];
   results: {
     totalGasUsed: number;
@@ -65,6 +83,19 @@ export interface RebalanceExecution {
   startedAt: Date;
   completedAt?: Date;
   error?: string;
+  compensation?: CompensationPlan;
+}
+
+/**
+ * Actions that undo confirmed steps of a partial execution, e.g. redepositing
+ * funds that were withdrawn but never reached their destination.
+ */
+export interface CompensationPlan {
+  actions: RebalanceAction[];
+  reason: string;
+  status: 'proposed' | 'executing' | 'completed' | 'failed';
+  recoveryExecutionId?: string;
+  createdAt: Date;
 }
 
 export type RebalanceStrategy = 
@@ -118,40 +149,74 @@ export interface AutoRebalanceSettings {
   lastExecuted?: Date;
 }
 
+/**
+ * Raised when one or more actions of an execution fail. `status` tells whether
+ * anything was confirmed before the failure.
+ */
+class ActionsFailedError extends Error {
+  constructor(public status: 'failed' | 'partial', message: string) {
+    super(message);
+    this.name = 'ActionsFailedError';
+  }
+}
+
+/**
+ * Raised when a recovery is requested for an execution whose compensation
+ * plan is already running or has completed
+ */
+export class RecoveryConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecoveryConflictError';
+  }
+}
+
 export class RebalancingService extends EventEmitter {
-  private nearProtocol: NearProtocol;
-  private ethereumProtocol: EthereumProtocol;
-  private bscProtocol: BSCProtocol;
-  private polygonProtocol: PolygonProtocol;
+  private chains: ChainRegistry;
   private yieldService: YieldMonitoringService;
   private positionService: PositionTrackingService;
+  private events: EventBus;
   private cache: CacheManager;
+  private repository: RebalanceRepository;
   private autoRebalanceSettings: Map<string, AutoRebalanceSettings> = new Map();
   private executionQueue: Map<string, RebalanceExecution> = new Map();
+  private journalWrites: Map<string, Promise<void>> = new Map();
   private monitoringInterval?: NodeJS.Timeout;
+  private subscriptions: (() => void)[] = [];
+  private prewarm: boolean;
 
-  constructor() {
+  constructor(
+    chains: ChainRegistry,
+    yieldService: YieldMonitoringService,
+    positionService: PositionTrackingService,
+    events: EventBus = eventBus
+  ) {
     super();
-    this.nearProtocol = new NearProtocol();
-    this.ethereumProtocol = new EthereumProtocol();
-    this.bscProtocol = new BSCProtocol();
-    this.polygonProtocol = new PolygonProtocol();
-    this.yieldService = new YieldMonitoringService();
-    this.positionService = new PositionTrackingService();
+    this.chains = chains;
+    this.yieldService = yieldService;
+    this.positionService = positionService;
+    this.events = events;
     this.cache = new CacheManager('rebalancing');
+    this.repository = new RebalanceRepository();
+    this.prewarm = process.env.ENABLE_CACHE_PREWARM === 'true';
   }
 
   async initialize(): Promise<void> {
     try {
       logger.info('Initializing Rebalancing Service...');
       
-      await this.nearProtocol.initialize();
-      await this.ethereumProtocol.initialize();
-      await this.bscProtocol.initialize();
-      await this.polygonProtocol.initialize();
-      
       // Load auto-rebalance settings
       await this.loadAutoRebalanceSettings();
+
+      // Pick up executions interrupted by a restart
+      await this.resumeExecutions();
+
+      // Recommendations are derived from opportunities and positions
+      this.subscriptions.push(
+        this.events.subscribe('opportunitiesUpdated', () => this.invalidateRecommendations()),
+        this.events.subscribe('positionsUpdated', ({ walletAddresses }) => this.invalidateRecommendations(walletAddresses)),
+        metrics.onCollect(() => executionQueueSize.set({}, this.getQueueSize()))
+      );
       
       // Start monitoring for auto-rebalance triggers
       this.startAutoRebalanceMonitoring();
@@ -167,11 +232,9 @@ export class RebalancingService extends EventEmitter {
     if (this.monitoringInterval) {
       clearInterval(this.monitoringInterval);
     }
-    
-    await this.nearProtocol.shutdown();
-    await this.ethereumProtocol.shutdown();
-    await this.bscProtocol.shutdown();
-    await this.polygonProtocol.shutdown();
+
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
     
     logger.info('Rebalancing Service shut down');
   }
@@ -218,15 +281,20 @@ export class RebalancingService extends EventEmitter {
     gasPrice?: number;
     dryRun?: boolean;
   }): Promise<RebalanceExecution> {
-    const executionId = `exec_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const executionId = randomUUID();
+    const actions = this.prepareActions(config.actions);
     
     const execution: RebalanceExecution = {
       id: executionId,
       walletAddress: config.walletAddress,
       strategy: config.strategy,
-      actions: config.actions,
+      actions,
       status: config.dryRun ? 'completed' : 'pending',
-      transactions: [],
+      transactions: actions.map(action => ({
+        actionId: action.id,
+        status: 'queued' as const,
+        timestamp: new Date()
+      })),
       results: {
         totalGasUsed: 0,
         totalValue: 0,
@@ -246,32 +314,42 @@ export class RebalancingService extends EventEmitter {
       return execution;
     }
 
+    execution.status = 'executing';
+    this.executionQueue.set(executionId, execution);
+    await this.saveExecution(execution);
+
+    return this.runExecution(execution, config.slippage, config.gasPrice);
+  }
+
+  /**
+   * Run the action graph of an execution to the end and persist the outcome.
+   * Actions already confirmed (e.g. before a restart) are not sent again.
+   */
+  private async runExecution(
+    execution: RebalanceExecution,
+    slippage?: number,
+    gasPrice?: number
+  ): Promise<RebalanceExecution> {
     try {
-      execution.status = 'executing';
-      this.executionQueue.set(executionId, execution);
-      
-      // Execute actions in order of priority
-      const sortedActions = config.actions.sort((a, b) => a.priority - b.priority);
-      
-      for (const action of sortedActions) {
-        const txResult = await this.executeAction(config.walletAddress, action, config.slippage, config.gasPrice);
-        
-        execution.transactions.push({
-          actionId: action.type + '_' + action.priority,
-          txHash: txResult.hash,
-          status: 'pending',
-          timestamp: new Date()
-        });
-        
-        // Wait for confirmation
-        await this.waitForConfirmation(txResult.hash, action.toChain as 'near' | 'ethereum' | 'bsc' | 'polygon');
-        
-        // Update transaction status
-        const txIndex = execution.transactions.length - 1;
-        execution.transactions[txIndex].status = 'confirmed';
-        execution.transactions[txIndex].gasUsed = txResult.gasUsed;
-        
-        execution.results.totalGasUsed += txResult.gasUsed || 0;
+      await runActionGraph(execution.actions, {
+        // Transactions on one chain share the signer's nonce, so keep them sequential
+        lane: action => action.toChain,
+        run: action => this.runAction(execution, action, slippage, gasPrice),
+        onSkip: (action, blockedBy) => {
+          this.updateTransaction(execution, action.id, {
+            status: 'skipped',
+            error: `Halted because ${blockedBy} did not complete`
+          });
+        }
+      });
+
+      const failed = execution.transactions.filter(tx => tx.status === 'failed');
+      if (failed.length > 0) {
+        const anyConfirmed = execution.transactions.some(tx => tx.status === 'confirmed');
+        throw new ActionsFailedError(
+          anyConfirmed ? 'partial' : 'failed',
+          failed.map(tx => `${tx.actionId}: ${tx.error}`).join('; ')
+        );
       }
       
       execution.status = 'completed';
@@ -282,23 +360,125 @@ export class RebalancingService extends EventEmitter {
       await this.calculateExecutionResults(execution);
       
       this.emit('rebalanceCompleted', execution);
-      logger.info(`Rebalance completed for ${config.walletAddress}: ${executionId}`);
+      await this.events.publish('rebalanceCompleted', { execution });
+      logger.info(`Rebalance completed for ${execution.walletAddress}: ${execution.id}`);
       
     } catch (error) {
-      execution.status = 'failed';
+      execution.status = error instanceof ActionsFailedError ? error.status : 'failed';
       execution.error = error instanceof Error ? error.message : 'Unknown error';
       execution.completedAt = new Date();
+
+      if (execution.status === 'partial') {
+        execution.compensation = this.buildCompensationPlan(execution);
+      }
       
       this.emit('rebalanceFailed', { execution, error });
-      logger.error(`Rebalance failed for ${config.walletAddress}:`, error);
+      await this.events.publish('rebalanceFailed', {
+        execution,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      logger.error(`Rebalance failed for ${execution.walletAddress}:`, error);
     }
 
+    this.recordOutcome(execution);
+    await this.journal(execution);
     return execution;
   }
 
+  private recordOutcome(execution: RebalanceExecution): void {
+    rebalanceExecutions.inc({ strategy: execution.strategy, status: execution.status });
+    if (execution.completedAt) {
+      rebalanceDuration.observe(
+        { strategy: execution.strategy, status: execution.status },
+        (execution.completedAt.getTime() - execution.startedAt.getTime()) / 1000
+      );
+    }
+  }
+
+  async getExecution(executionId: string): Promise<RebalanceExecution | null> {
+    return this.executionQueue.get(executionId) || await this.repository.findExecution(executionId);
+  }
+
+  /**
+   * Run the compensation plan of a partial execution. The compensating actions
+   * run as their own execution, which is linked from the original one.
+   */
+  async recoverExecution(executionId: string, options: {
+    slippage?: number;
+    gasPrice?: number;
+    dryRun?: boolean;
+  } = {}): Promise<RebalanceExecution> {
+    const execution = await this.getExecution(executionId);
+    if (!execution) {
+      throw new Error(`Execution not found: ${executionId}`);
+    }
+
+    const plan = execution.compensation;
+    if (execution.status !== 'partial' || !plan || plan.actions.length === 0) {
+      throw new Error(`Execution ${executionId} has no compensation plan`);
+    }
+    if (plan.status === 'executing' || plan.status === 'completed') {
+      throw new RecoveryConflictError(`Recovery of ${executionId} is already ${plan.status}`);
+    }
+
+    const recoveryConfig = {
+      walletAddress: execution.walletAddress,
+      strategy: execution.strategy,
+      actions: plan.actions,
+      slippage: options.slippage,
+      gasPrice: options.gasPrice
+    };
+
+    if (options.dryRun) {
+      return this.executeRebalance({ ...recoveryConfig, dryRun: true });
+    }
+
+    // Claim the plan before any await so concurrent requests in this process
+    // see it taken; the conditional update covers the other instances
+    const previousStatus = plan.status;
+    plan.status = 'executing';
+    const claimed = await this.repository.claimCompensation(executionId).catch(error => {
+      plan.status = previousStatus;
+      throw error;
+    });
+    if (!claimed) {
+      plan.status = previousStatus;
+      throw new RecoveryConflictError(`Recovery of ${executionId} is already executing or completed`);
+    }
+
+    let recovery: RebalanceExecution;
+    try {
+      recovery = await this.executeRebalance(recoveryConfig);
+    } catch (error) {
+      // Release the claim so the plan can be retried
+      plan.status = 'failed';
+      await this.saveExecution(execution);
+      throw error;
+    }
+
+    plan.recoveryExecutionId = recovery.id;
+    plan.status = recovery.status === 'completed' ? 'completed' : 'failed';
+    await this.saveExecution(execution);
+
+    this.emit('rebalanceRecovered', { execution, recovery });
+    logger.info(`Recovery of ${executionId} finished with status ${recovery.status}: ${recovery.id}`);
+
+    return recovery;
+  }
+
+  /**
+   * Executions currently running in this process
+   */
+  getQueueSize(): number {
+    return Array.from(this.executionQueue.values()).filter(execution => execution.status === 'executing').length;
+  }
+
   async getRebalanceHistory(walletAddress: string, limit: number = 50, offset: number = 0): Promise<RebalanceExecution[]> {
-    // In a real implementation, we will fetch from database
-    // For now, return from memory
+    if (database.isEnabled()) {
+      return this.repository.findExecutions(walletAddress, limit, offset);
+    }
+
+    // Without a database, fall back to the executions kept in memory
     const allExecutions = Array.from(this.executionQueue.values())
       .filter(exec => exec.walletAddress === walletAddress)
       .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
@@ -393,7 +573,8 @@ export class RebalancingService extends EventEmitter {
   }
 
   async setupAutoRebalance(config: Omit<AutoRebalanceSettings, 'id' | 'createdAt'>): Promise<string> {
-    const autoRebalanceId = `auto_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    // One settings row per wallet, so re-running setup keeps the existing id
+    const autoRebalanceId = this.autoRebalanceSettings.get(config.walletAddress)?.id ?? randomUUID();
     
     const settings: AutoRebalanceSettings = {
       id: autoRebalanceId,
@@ -402,7 +583,7 @@ export class RebalancingService extends EventEmitter {
     };
 
     this.autoRebalanceSettings.set(config.walletAddress, settings);
-    await this.saveAutoRebalanceSettings();
+    await this.saveAutoRebalanceSettings(settings);
     
     logger.info(`Auto-rebalance setup for ${config.walletAddress}: ${autoRebalanceId}`);
     return autoRebalanceId;
@@ -418,20 +599,19 @@ export class RebalancingService extends EventEmitter {
       throw new Error('Auto-rebalance settings not found');
     }
 
-    const updated = { ...current, ...updates };
+    const updated = { ...current, ...updates, id: current.id, walletAddress };
     this.autoRebalanceSettings.set(walletAddress, updated);
-    await this.saveAutoRebalanceSettings();
+    await this.saveAutoRebalanceSettings(updated);
     
     logger.info(`Updated auto-rebalance settings for ${walletAddress}`);
   }
 
   async healthCheck(): Promise<boolean> {
     try {
-      const nearHealth = await this.nearProtocol.healthCheck();
-      const ethHealth = await this.ethereumProtocol.healthCheck();
-      const queueSize = this.executionQueue.size;
+      const chainHealth = await Promise.all(this.chains.list().map(adapter => adapter.healthCheck()));
+      const queueSize = this.getQueueSize();
       
-      return nearHealth && ethHealth && queueSize < 100; // Reasonable queue limit
+      return chainHealth.every(Boolean) && queueSize < 100; // Reasonable queue limit
     } catch (error) {
       logger.error('Rebalancing service health check failed:', error);
       return false;
@@ -494,6 +674,7 @@ export class RebalancingService extends EventEmitter {
           strategy: 'yield_optimization' as RebalanceStrategy,
           actions: [
             {
+              id: 'withdraw',
               type: 'withdraw',
               fromProtocol: position.protocol,
               toProtocol: bestOpp.protocol,
@@ -505,6 +686,7 @@ export class RebalancingService extends EventEmitter {
               priority: 1
             },
             {
+              id: 'deposit',
               type: 'deposit',
               toProtocol: bestOpp.protocol,
               fromChain: position.chain,
@@ -547,6 +729,7 @@ export class RebalancingService extends EventEmitter {
         strategy: 'risk_reduction' as RebalanceStrategy,
         actions: [
           {
+            id: 'withdraw',
             type: 'withdraw' as const,
             fromProtocol: pos.protocol,
             toProtocol: 'aave', // Example safer protocol
@@ -662,6 +845,7 @@ export class RebalancingService extends EventEmitter {
       strategy: 'arbitrage' as RebalanceStrategy,
       actions: [
         {
+          id: 'withdraw',
           type: 'withdraw' as const,
           fromProtocol: arb.eth.protocol,
           toProtocol: arb.near.protocol,
@@ -690,12 +874,172 @@ export class RebalancingService extends EventEmitter {
     }));
   }
 
+  /**
+   * Copy the actions and reject graphs with missing or duplicate ids, unknown
+   * dependencies or cycles before anything is broadcast. Ids are required,
+   * as validateRebalanceActions already enforces for API callers.
+   */
+  private prepareActions(actions: RebalanceAction[]): RebalanceAction[] {
+    const prepared = actions.map(action => ({ ...action }));
+
+    validateActionGraph(prepared);
+    return prepared;
+  }
+
+  private async runAction(
+    execution: RebalanceExecution,
+    action: RebalanceAction,
+    slippage?: number,
+    gasPrice?: number
+  ): Promise<void> {
+    const transaction = execution.transactions.find(tx => tx.actionId === action.id);
+
+    // State left over from before a restart
+    if (transaction?.status === 'confirmed') {
+      return;
+    }
+    if (transaction?.status === 'failed') {
+      throw new Error(transaction.error || `Action ${action.id} failed`);
+    }
+
+    try {
+      let txHash = transaction?.status === 'pending' ? transaction.txHash : undefined;
+
+      if (!txHash) {
+        this.updateTransaction(execution, action.id, { status: 'submitting' });
+        await this.journal(execution);
+
+        const txResult = await this.executeAction(execution.walletAddress, action, slippage, gasPrice);
+        txHash = txResult.hash;
+
+        this.updateTransaction(execution, action.id, { status: 'pending', txHash, gasUsed: txResult.gasUsed });
+        await this.journal(execution);
+      }
+
+      await this.waitForConfirmation(txHash, action.toChain);
+
+      this.updateTransaction(execution, action.id, { status: 'confirmed' });
+      execution.results.totalGasUsed += transaction?.gasUsed || 0;
+      gasUsed.inc({ chain: action.toChain }, transaction?.gasUsed || 0);
+      await this.journal(execution);
+    } catch (error) {
+      this.updateTransaction(execution, action.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      logger.error(`Rebalance action ${action.id} failed for ${execution.walletAddress}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reload executions that were still running when the agent stopped.
+   * Broadcast transactions are re-checked and the rest of the graph continues;
+   * a step caught between journaling and broadcast may or may not have reached
+   * the chain, so that execution is left for an operator to review.
+   */
+  private async resumeExecutions(): Promise<void> {
+    const executions = await this.repository.findExecutionsByStatus('executing');
+
+    for (const execution of executions) {
+      const unknown = execution.transactions.filter(tx => tx.status === 'submitting');
+
+      if (unknown.length > 0) {
+        execution.status = 'needs_review';
+        execution.error = `Interrupted while broadcasting ${unknown.map(tx => tx.actionId).join(', ')}; ` +
+          'check the wallet before retrying';
+        await this.saveExecution(execution);
+
+        this.recordOutcome(execution);
+        this.emit('rebalanceNeedsReview', execution);
+        logger.warn(`Rebalance execution ${execution.id} needs operator review: ${execution.error}`);
+        continue;
+      }
+
+      logger.info(`Resuming rebalance execution ${execution.id} for ${execution.walletAddress}`);
+      this.executionQueue.set(execution.id, execution);
+
+      // Confirmations can take a while, so don't hold up startup
+      void this.runExecution(execution);
+    }
+  }
+
+  /**
+   * Work out how to undo confirmed steps whose follow-up actions never
+   * confirmed. Withdrawals are redeposited into the protocol they came from and
+   * migrations are migrated back; deposits and swaps that confirmed are left
+   * in place.
+   */
+  private buildCompensationPlan(execution: RebalanceExecution): CompensationPlan | undefined {
+    const statusById = new Map(execution.transactions.map(tx => [tx.actionId, tx.status]));
+    const actions: RebalanceAction[] = [];
+
+    for (const action of execution.actions) {
+      if (statusById.get(action.id) !== 'confirmed') continue;
+
+      const dependents = execution.actions.filter(a => a.dependencies?.includes(action.id));
+      const stranded = dependents.some(a => statusById.get(a.id) !== 'confirmed');
+      if (!stranded) continue;
+
+      const chain = action.fromChain || action.toChain;
+
+      if (action.type === 'withdraw') {
+        actions.push({
+          id: `compensate_${action.id}`,
+          type: 'deposit',
+          toProtocol: action.fromProtocol || action.toProtocol,
+          fromChain: chain,
+          toChain: chain,
+          token: action.token,
+          amount: action.amount,
+          estimatedGas: action.estimatedGas,
+          priority: action.priority
+        });
+      } else if (action.type === 'migrate' && action.fromProtocol) {
+        actions.push({
+          id: `compensate_${action.id}`,
+          type: 'migrate',
+          fromProtocol: action.toProtocol,
+          toProtocol: action.fromProtocol,
+          fromChain: action.toChain,
+          toChain: action.toChain,
+          token: action.token,
+          amount: action.amount,
+          estimatedGas: action.estimatedGas,
+          priority: action.priority
+        });
+      }
+    }
+
+    if (actions.length === 0) {
+      return undefined;
+    }
+
+    return {
+      actions,
+      reason: `Return funds from ${actions.map(a => a.id.replace(/^compensate_/, '')).join(', ')} to their original protocol`,
+      status: 'proposed',
+      createdAt: new Date()
+    };
+  }
+
+  private updateTransaction(
+    execution: RebalanceExecution,
+    actionId: string,
+    update: Partial<RebalanceExecution['transactions'][number]>
+  ): void {
+    const transaction = execution.transactions.find(tx => tx.actionId === actionId);
+    if (transaction) {
+      Object.assign(transaction, update, { timestamp: new Date() });
+    }
+  }
+
   private async executeAction(
     walletAddress: string,
     action: RebalanceAction,
     slippage?: number,
     gasPrice?: number
-  ): Promise<{ hash: string; gasUsed?: number }> {
+  ): Promise<TransactionResult> {
     const protocolHandler = this.getProtocolHandler(action.toChain);
     
     switch (action.type) {
@@ -712,24 +1056,13 @@ export class RebalancingService extends EventEmitter {
     }
   }
 
-  private async waitForConfirmation(txHash: string, chain: 'near' | 'ethereum' | 'bsc' | 'polygon'): Promise<void> {
+  private async waitForConfirmation(txHash: string, chain: string): Promise<void> {
     const protocolHandler = this.getProtocolHandler(chain);
     return await protocolHandler.waitForTransaction(txHash);
   }
 
-  private getProtocolHandler(chain: string): any {
-    switch (chain) {
-      case 'near':
-        return this.nearProtocol;
-      case 'ethereum':
-        return this.ethereumProtocol;
-      case 'bsc':
-        return this.bscProtocol;
-      case 'polygon':
-        return this.polygonProtocol;
-      default:
-        throw new Error(`Unsupported chain: ${chain}`);
-    }
+  private getProtocolHandler(chain: string): ChainAdapter {
+    return this.chains.get(chain);
   }
 
   private async simulateExecution(config: any): Promise<any> {
@@ -765,10 +1098,36 @@ export class RebalancingService extends EventEmitter {
   private startAutoRebalanceMonitoring(): void {
     // Check auto-rebalance triggers every hour
     this.monitoringInterval = setInterval(async () => {
+      const stopTimer = monitoringCycleDuration.startTimer({ loop: 'auto_rebalance' });
       await this.checkAutoRebalanceTriggers();
+      stopTimer();
     }, 60 * 60 * 1000);
   }
 
+  /**
+   * Drop cached recommendations for the given wallets (all wallets when
+   * omitted). With pre-warming enabled, recommendations for wallets with
+   * auto-rebalancing are regenerated right away.
+   */
+  private async invalidateRecommendations(walletAddresses?: string[]): Promise<void> {
+    if (walletAddresses) {
+      for (const walletAddress of walletAddresses) {
+        await this.cache.deletePattern(`recommendations:${walletAddress}:*`);
+      }
+    } else {
+      await this.cache.deletePattern('recommendations:*');
+    }
+
+    if (!this.prewarm) return;
+
+    for (const [walletAddress, settings] of this.autoRebalanceSettings.entries()) {
+      if (!settings.enabled) continue;
+      if (walletAddresses && !walletAddresses.includes(walletAddress)) continue;
+
+      await this.getRebalanceRecommendations(walletAddress, settings.strategy);
+    }
+  }
+
   private async checkAutoRebalanceTriggers(): Promise<void> {
     for (const [walletAddress, settings] of this.autoRebalanceSettings.entries()) {
       if (!settings.enabled) continue;
@@ -788,7 +1147,7 @@ export class RebalancingService extends EventEmitter {
             });
 
             settings.lastExecuted = new Date();
-            await this.saveAutoRebalanceSettings();
+            await this.saveAutoRebalanceSettings(settings);
           }
         }
       } catch (error) {
@@ -825,10 +1184,39 @@ export class RebalancingService extends EventEmitter {
   }
 
   private async loadAutoRebalanceSettings(): Promise<void> {
-    // @TODO: load from database
+    const settings = await this.repository.loadAutoRebalanceSettings();
+    this.autoRebalanceSettings = new Map(settings.map(s => [s.walletAddress, s]));
+
+    logger.info(`Loaded ${this.autoRebalanceSettings.size} auto-rebalance settings`);
+  }
+
+  private async saveAutoRebalanceSettings(settings: AutoRebalanceSettings): Promise<void> {
+    await this.repository.saveAutoRebalanceSettings(settings);
   }
 
-  private async saveAutoRebalanceSettings(): Promise<void> {
-    // @TODO: save to database
+  /**
+   * Persist an execution, keeping writes for the same execution in order since
+   * concurrent actions journal their progress independently.
+   */
+  private journal(execution: RebalanceExecution): Promise<void> {
+    const previous = this.journalWrites.get(execution.id) || Promise.resolve();
+    const next = previous.then(() => this.saveExecution(execution));
+
+    this.journalWrites.set(execution.id, next);
+    next.then(() => {
+      if (this.journalWrites.get(execution.id) === next) {
+        this.journalWrites.delete(execution.id);
+      }
+    });
+
+    return next;
   }
-}
\ No newline at end of file
+
+  private async saveExecution(execution: RebalanceExecution): Promise<void> {
+    try {
+      await this.repository.saveExecution(execution);
+    } catch (error) {
+      logger.error(`Error saving rebalance execution ${execution.id}:`, error);
+    }
+  }
+}
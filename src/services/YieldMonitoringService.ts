@@ -1,36 +1,22 @@
 import { EventEmitter } from 'events';
-import { NearProtocol } from '../protocols/NearProtocol';
-import { EthereumProtocol } from '../protocols/EthereumProtocol';
-import { BSCProtocol } from '../protocols/BSCProtocol';
-import { PolygonProtocol } from '../protocols/PolygonProtocol';
-import { logger } from '../utils/logger';
+import { randomUUID } from 'crypto';
+import { ChainMarketConditions, YieldOpportunity } from '../protocols/ChainAdapter';
+import { ChainRegistry } from '../protocols/ChainRegistry';
+import { createLogger } from '../utils/logger';
+import { monitoringCycleDuration } from '../utils/metrics';
 import { CacheManager } from '../utils/CacheManager';
+import { EventBus, eventBus } from '../utils/EventBus';
+import { AlertRepository } from '../db/repositories/AlertRepository';
+import { YieldSnapshotRepository } from '../db/repositories/YieldSnapshotRepository';
+import { HistoryInterval, INTERVAL_SECONDS, defaultInterval, fillGaps } from '../utils/timeSeries';
+import { AlertDelivery, AlertDeliveryService, alertFingerprint } from './AlertDeliveryService';
+import { AlertCondition, ConditionResult, evaluateCondition, usesMetric } from './alerts/conditions';
+import type { AlertDestinations } from './alerts/AlertChannel';
+import type { Position, PositionTrackingService } from './PositionTrackingService';
 
-export interface YieldOpportunity {
-  id: string;
-  protocol: string;
-  chain: 'near' | 'ethereum' | 'bsc' | 'polygon';
-  poolId: string;
-  token: string;
-  apy: number;
-  tvl: number;
-  riskScore: number;
-  minDeposit: number;
-  maxDeposit?: number;
-  lockPeriod?: number;
-  fees: {
-    deposit: number;
-    withdraw: number;
-    management: number;
-  };
-  metadata: {
-    poolType: string;
-    underlying?: string[];
-    leverage?: number;
-    autoCompound?: boolean;
-  };
-  lastUpdated: Date;
-}
+const logger = createLogger('services/YieldMonitoringService');
+
+export type { YieldOpportunity } from '../protocols/ChainAdapter';
 
 export interface YieldAlert {
   id: string;
@@ -38,39 +24,31 @@ export interface YieldAlert {
   minApy: number;
   maxRisk: number;
   protocols?: string[];
+  conditions?: AlertCondition; // replaces minApy/maxRisk/protocols matching when set
   alertMethods: ('email' | 'webhook' | 'push')[];
+  destinations?: AlertDestinations;
+  cooldownMinutes?: number; // minimum gap between deliveries, default 60
   isActive: boolean;
   createdAt: Date;
+  lastTriggeredAt?: Date;
+  lastFingerprint?: string; // opportunities the last delivery was about
+}
+
+const DEFAULT_ALERT_COOLDOWN_MINUTES = 60;
+const APY_SAMPLE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // longest apyChange window
+
+export interface OpportunityFilters {
+  chain?: string;
+  protocol?: string;
+  token?: string; // either side of a pair, e.g. BNB matches CAKE-BNB
+  minApy?: number;
+  minTvl?: number;
+  maxRisk?: number;
 }
 
 export interface MarketConditions {
   timestamp: Date;
-  chains: {
-    near: {
-      gasPrice: number;
-      blockTime: number;
-      averageApy: number;
-      totalTvl: number;
-    };
-    ethereum: {
-      gasPrice: number;
-      blockTime: number;
-      averageApy: number;
-      totalTvl: number;
-    };
-    bsc: {
-      gasPrice: number;
-      blockTime: number;
-      averageApy: number;
-      totalTvl: number;
-    };
-    polygon: {
-      gasPrice: number;
-      blockTime: number;
-      averageApy: number;
-      totalTvl: number;
-    };
-  };
+  chains: Record<string, ChainMarketConditions>;
   defiMetrics: {
     totalValueLocked: number;
     avgYield: number;
@@ -80,35 +58,43 @@ export interface MarketConditions {
 }
 
 export class YieldMonitoringService extends EventEmitter {
-  private nearProtocol: NearProtocol;
-  private ethereumProtocol: EthereumProtocol;
-  private bscProtocol: BSCProtocol;
-  private polygonProtocol: PolygonProtocol;
+  private chains: ChainRegistry;
+  private events: EventBus;
+  private delivery: AlertDeliveryService;
+  private positions?: PositionTrackingService;
   private cache: CacheManager;
+  private alertRepository: AlertRepository;
+  private snapshotRepository: YieldSnapshotRepository;
   private monitoringInterval?: NodeJS.Timeout;
   private alerts: Map<string, YieldAlert> = new Map();
   private opportunities: Map<string, YieldOpportunity> = new Map();
-
-  constructor() {
+  private apySamples: Map<string, { timestamp: number; apy: number }[]> = new Map();
+
+  constructor(
+    chains: ChainRegistry,
+    events: EventBus = eventBus,
+    delivery: AlertDeliveryService = new AlertDeliveryService(),
+    positions?: PositionTrackingService
+  ) {
     super();
-    this.nearProtocol = new NearProtocol();
-    this.ethereumProtocol = new EthereumProtocol();
-    this.bscProtocol = new BSCProtocol();
-    this.polygonProtocol = new PolygonProtocol();
+    this.chains = chains;
+    this.events = events;
+    this.delivery = delivery;
+    this.positions = positions;
     this.cache = new CacheManager('yield-monitoring');
+    this.alertRepository = new AlertRepository();
+    this.snapshotRepository = new YieldSnapshotRepository();
   }
 
   async initialize(): Promise<void> {
     try {
       logger.info('Initializing Yield Monitoring Service...');
       
-      await this.nearProtocol.initialize();
-      await this.ethereumProtocol.initialize();
-      await this.bscProtocol.initialize();
-      await this.polygonProtocol.initialize();
-      
       // Load existing alerts from storage
       await this.loadAlerts();
+
+      // APY history for apyChange conditions
+      await this.loadApySamples();
       
       // Initial fetch of yield opportunities
       await this.refreshYieldOpportunities();
@@ -123,11 +109,14 @@ export class YieldMonitoringService extends EventEmitter {
   async startMonitoring(): Promise<void> {
     // Monitor yields every 5 minutes
     this.monitoringInterval = setInterval(async () => {
+      const stopTimer = monitoringCycleDuration.startTimer({ loop: 'yield_monitoring' });
       try {
         await this.refreshYieldOpportunities();
         await this.checkAlerts();
       } catch (error) {
         logger.error('Error in yield monitoring cycle:', error);
+      } finally {
+        stopTimer();
       }
     }, 5 * 60 * 1000);
 
@@ -139,26 +128,23 @@ export class YieldMonitoringService extends EventEmitter {
       clearInterval(this.monitoringInterval);
     }
     
-    await this.nearProtocol.shutdown();
-    await this.ethereumProtocol.shutdown();
-    await this.bscProtocol.shutdown();
-    await this.polygonProtocol.shutdown();
-    
     logger.info('Yield Monitoring Service shut down');
   }
 
-  async getYieldOpportunities(filters: {
-    chain?: string;
-    minApy?: number;
-    protocol?: string;
-  } = {}): Promise<YieldOpportunity[]> {
+  async getYieldOpportunities(filters: OpportunityFilters = {}): Promise<YieldOpportunity[]> {
     const cacheKey = `opportunities:${JSON.stringify(filters)}`;
-    const cached = await this.cache.get<YieldOpportunity[]>(cacheKey);
-    
-    if (cached) {
-      return cached;
-    }
 
+    // Cache for 1 minute; for 30s after that the old list is served while one refresh runs
+    return this.cache.getOrSet(cacheKey, async () => this.filterOpportunities(filters), 60, {
+      staleWhileRevalidate: 30
+    });
+  }
+
+  getYieldOpportunity(opportunityId: string): YieldOpportunity | null {
+    return this.opportunities.get(opportunityId) || null;
+  }
+
+  private filterOpportunities(filters: OpportunityFilters): YieldOpportunity[] {
     let opportunities = Array.from(this.opportunities.values());
 
     // Apply filters
@@ -178,37 +164,49 @@ export class YieldMonitoringService extends EventEmitter {
       );
     }
 
+    if (filters.token) {
+      const token = filters.token.toUpperCase();
+      opportunities = opportunities.filter(op => op.token.toUpperCase().split(/[-/]/).includes(token));
+    }
+
+    if (filters.minTvl !== undefined) {
+      opportunities = opportunities.filter(op => op.tvl >= filters.minTvl!);
+    }
+
+    if (filters.maxRisk !== undefined) {
+      opportunities = opportunities.filter(op => op.riskScore <= filters.maxRisk!);
+    }
+
     // Sort by APY descending
     opportunities.sort((a, b) => b.apy - a.apy);
 
-    await this.cache.set(cacheKey, opportunities, 60); // Cache for 1 minute
     return opportunities;
   }
 
-  async getYieldHistory(protocol: string, poolId: string, days: number): Promise<any[]> {
-    const cacheKey = `history:${protocol}:${poolId}:${days}`;
-    const cached = await this.cache.get<any[]>(cacheKey);
-    
-    if (cached) {
-      return cached;
-    }
+  async getYieldHistory(
+    protocol: string,
+    poolId: string,
+    days: number,
+    interval: HistoryInterval = defaultInterval(days)
+  ): Promise<any[]> {
+    const cacheKey = `history:${protocol}:${poolId}:${days}:${interval}`;
 
-    // Fetch historical data from the appropriate protocol
-    let history: any[] = [];
-    
-    try {
-      if (protocol.includes('near') || protocol.includes('ref') || protocol.includes('burrow')) {
-        history = await this.nearProtocol.getYieldHistory(poolId, days);
-      } else {
-        history = await this.ethereumProtocol.getYieldHistory(poolId, days);
+    return this.cache.getOrSet(cacheKey, async () => {
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const series = await this.snapshotRepository.findSeries({ protocol, poolId }, since, INTERVAL_SECONDS[interval]);
+
+      if (series.length > 0) {
+        return fillGaps(series, interval, since);
       }
-    } catch (error) {
-      logger.error(`Error fetching yield history for ${protocol}:${poolId}:`, error);
-      return [];
-    }
 
-    await this.cache.set(cacheKey, history, 300); // Cache for 5 minutes
-    return history;
+      // Nothing recorded for this pool yet: ask the chain
+      try {
+        return await this.chains.get(this.resolvePoolChain(protocol, poolId)).getYieldHistory(poolId, days);
+      } catch (error) {
+        logger.error(`Error fetching yield history for ${protocol}:${poolId}:`, error);
+        return [];
+      }
+    }, 300); // Cache for 5 minutes
   }
 
   async getYieldAnalytics(chain?: string): Promise<any> {
@@ -246,8 +244,10 @@ export class YieldMonitoringService extends EventEmitter {
     return analytics;
   }
 
-  async createYieldAlert(alertConfig: Omit<YieldAlert, 'id' | 'isActive' | 'createdAt'>): Promise<string> {
-    const alertId = `alert_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  async createYieldAlert(
+    alertConfig: Omit<YieldAlert, 'id' | 'isActive' | 'createdAt' | 'lastTriggeredAt' | 'lastFingerprint'>
+  ): Promise<string> {
+    const alertId = randomUUID();
     
     const alert: YieldAlert = {
       id: alertId,
@@ -257,12 +257,94 @@ export class YieldMonitoringService extends EventEmitter {
     };
 
     this.alerts.set(alertId, alert);
-    await this.saveAlerts();
+    await this.saveAlert(alert);
 
     logger.info(`Created yield alert ${alertId} for wallet ${alert.walletAddress}`);
     return alertId;
   }
 
+  getYieldAlerts(walletAddress: string): YieldAlert[] {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.walletAddress.toLowerCase() === walletAddress.toLowerCase())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  getYieldAlert(alertId: string): YieldAlert | null {
+    return this.alerts.get(alertId) || null;
+  }
+
+  async updateYieldAlert(
+    alertId: string,
+    updates: Partial<Pick<YieldAlert,
+      'minApy' | 'maxRisk' | 'protocols' | 'alertMethods' | 'destinations' | 'cooldownMinutes' | 'isActive'>> & {
+      conditions?: AlertCondition | null; // null goes back to minApy/maxRisk matching
+    }
+  ): Promise<YieldAlert> {
+    const alert = this.alerts.get(alertId);
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+
+    const changes = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    const updated: YieldAlert = { ...alert, ...changes, conditions: updates.conditions ?? alert.conditions };
+
+    if (updates.conditions === null) {
+      delete updated.conditions;
+    }
+
+    // New conditions deserve a fresh notification
+    if (updates.minApy !== undefined || updates.maxRisk !== undefined || updates.protocols !== undefined ||
+        updates.conditions !== undefined) {
+      updated.lastFingerprint = undefined;
+    }
+
+    this.alerts.set(alertId, updated);
+    await this.saveAlert(updated);
+
+    logger.info(`Updated yield alert ${alertId}`);
+    return updated;
+  }
+
+  async deleteYieldAlert(alertId: string): Promise<void> {
+    if (!this.alerts.delete(alertId)) {
+      throw new Error('Alert not found');
+    }
+
+    await this.alertRepository.delete(alertId);
+    logger.info(`Deleted yield alert ${alertId}`);
+  }
+
+  /**
+   * Send a sample notification through the alert's methods without touching
+   * its cooldown or deduplication state
+   */
+  async testYieldAlert(alertId: string): Promise<AlertDelivery[]> {
+    const alert = this.alerts.get(alertId);
+    if (!alert) {
+      throw new Error('Alert not found');
+    }
+
+    const opportunities = Array.from(this.opportunities.values())
+      .sort((a, b) => b.apy - a.apy)
+      .slice(0, 3);
+
+    return this.delivery.deliver(alert, {
+      alertId: alert.id,
+      walletAddress: alert.walletAddress,
+      title: 'Test notification from DeFiFlow',
+      message: alert.conditions
+        ? 'This is a test of your yield alert.'
+        : `This is a test of your yield alert (APY >= ${alert.minApy}%, risk <= ${alert.maxRisk}).`,
+      opportunities,
+      timestamp: new Date(),
+      test: true
+    });
+  }
+
+  async getAlertDeliveries(alertId: string, limit?: number): Promise<AlertDelivery[]> {
+    return this.delivery.getDeliveries(alertId, limit);
+  }
+
   async getMarketConditions(): Promise<MarketConditions> {
     const cacheKey = 'market-conditions';
     const cached = await this.cache.get<MarketConditions>(cacheKey);
@@ -271,23 +353,14 @@ export class YieldMonitoringService extends EventEmitter {
       return cached;
     }
 
-    const [nearConditions, ethConditions, bscConditions, polygonConditions] = await Promise.all([
-      this.nearProtocol.getMarketConditions(),
-      this.ethereumProtocol.getMarketConditions(),
-      this.bscProtocol.getMarketConditions(),
-      this.polygonProtocol.getMarketConditions()
-    ]);
+    const adapters = this.chains.list();
+    const chainConditions = await Promise.all(adapters.map(adapter => adapter.getMarketConditions()));
 
     const opportunities = await this.getYieldOpportunities();
     
     const conditions: MarketConditions = {
       timestamp: new Date(),
-      chains: {
-        near: nearConditions,
-        ethereum: ethConditions,
-        bsc: bscConditions,
-        polygon: polygonConditions
-      },
+      chains: Object.fromEntries(adapters.map((adapter, i) => [adapter.chain, chainConditions[i]])),
       defiMetrics: {
         totalValueLocked: opportunities.reduce((sum, op) => sum + op.tvl, 0),
         avgYield: opportunities.reduce((sum, op) => sum + op.apy, 0) / opportunities.length || 0,
@@ -302,11 +375,10 @@ export class YieldMonitoringService extends EventEmitter {
 
   async healthCheck(): Promise<boolean> {
     try {
-      const nearHealth = await this.nearProtocol.healthCheck();
-      const ethHealth = await this.ethereumProtocol.healthCheck();
+      const chainHealth = await Promise.all(this.chains.list().map(adapter => adapter.healthCheck()));
       const opportunitiesCount = this.opportunities.size;
       
-      return nearHealth && ethHealth && opportunitiesCount > 0;
+      return chainHealth.every(Boolean) && opportunitiesCount > 0;
     } catch (error) {
       logger.error('Yield monitoring health check failed:', error);
       return false;
@@ -315,22 +387,28 @@ export class YieldMonitoringService extends EventEmitter {
 
   private async refreshYieldOpportunities(): Promise<void> {
     try {
-      const [nearOpportunities, ethOpportunities, bscOpportunities, polygonOpportunities] = await Promise.all([
-        this.nearProtocol.getYieldOpportunities(),
-        this.ethereumProtocol.getYieldOpportunities(),
-        this.bscProtocol.getYieldOpportunities(),
-        this.polygonProtocol.getYieldOpportunities()
-      ]);
+      const chainOpportunities = await Promise.all(
+        this.chains.list().map(adapter => adapter.getYieldOpportunities())
+      );
 
       // Clear existing opportunities
       this.opportunities.clear();
 
       // Add new opportunities
-      [...nearOpportunities, ...ethOpportunities, ...bscOpportunities, ...polygonOpportunities].forEach(opportunity => {
+      chainOpportunities.flat().forEach(opportunity => {
         this.opportunities.set(opportunity.id, opportunity);
       });
 
-      this.emit('opportunitiesUpdated', Array.from(this.opportunities.values()));
+      this.recordApySamples(chainOpportunities.flat());
+      await this.recordSnapshots(chainOpportunities.flat());
+
+      // Filtered lists and histories are derived from the set that just changed
+      await this.cache.deletePattern('opportunities:*');
+      await this.cache.deletePattern('history:*');
+
+      const opportunities = Array.from(this.opportunities.values());
+      this.emit('opportunitiesUpdated', opportunities);
+      await this.events.publish('opportunitiesUpdated', { opportunities, timestamp: new Date() });
       
       logger.info(`Refreshed ${this.opportunities.size} yield opportunities`);
     } catch (error) {
@@ -340,38 +418,165 @@ export class YieldMonitoringService extends EventEmitter {
 
   private async checkAlerts(): Promise<void> {
     const opportunities = Array.from(this.opportunities.values());
-    
-    for (const alert of this.alerts.values()) {
-      if (!alert.isActive) continue;
-
-      const matchingOpportunities = opportunities.filter(op => {
-        const meetsApy = op.apy >= alert.minApy;
-        const meetsRisk = op.riskScore <= alert.maxRisk;
-        const meetsProtocol = !alert.protocols || alert.protocols.includes(op.protocol);
-        
-        return meetsApy && meetsRisk && meetsProtocol;
+    const activeAlerts = Array.from(this.alerts.values()).filter(alert => alert.isActive);
+    const conditions = new Map(activeAlerts.map(alert => [alert.id, alert.conditions ?? this.legacyCondition(alert)]));
+
+    // Market data is only fetched when some alert looks at gas
+    const market = Array.from(conditions.values()).some(condition => usesMetric(condition, ['gasPrice']))
+      ? await this.getMarketConditions()
+      : undefined;
+
+    for (const alert of activeAlerts) {
+      const condition = conditions.get(alert.id)!;
+      const positions = usesMetric(condition, ['healthFactor', 'held'])
+        ? await this.getWalletPositions(alert.walletAddress)
+        : [];
+
+      const result = evaluateCondition(condition, {
+        opportunities,
+        positions,
+        market,
+        apyAt: (opportunityId, at) => this.apyAt(opportunityId, at)
       });
 
-      if (matchingOpportunities.length > 0) {
-        await this.triggerAlert(alert, matchingOpportunities);
+      if (result.matched) {
+        await this.triggerAlert(alert, result);
+      } else if (alert.lastFingerprint) {
+        // Conditions cleared; the next match is news again
+        alert.lastFingerprint = undefined;
+        await this.saveAlert(alert);
       }
     }
   }
 
-  private async triggerAlert(alert: YieldAlert, opportunities: YieldOpportunity[]): Promise<void> {
+  private legacyCondition(alert: YieldAlert): AlertCondition {
+    const pool = alert.protocols ? { protocols: alert.protocols } : undefined;
+
+    return {
+      all: [
+        { metric: 'apy', op: '>=', value: alert.minApy, pool },
+        { metric: 'riskScore', op: '<=', value: alert.maxRisk, pool }
+      ]
+    };
+  }
+
+  private async triggerAlert(alert: YieldAlert, result: ConditionResult): Promise<void> {
+    const opportunities = [...(result.opportunities || [])].sort((a, b) => b.apy - a.apy);
+    const top = opportunities.slice(0, 5); // Top 5 opportunities
+    const fingerprint = alertFingerprint(top, result.reasons);
+
+    // Same opportunities as the last delivery: nothing new to say
+    if (alert.lastFingerprint === fingerprint) {
+      return;
+    }
+
+    const cooldownMs = (alert.cooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES) * 60 * 1000;
+    if (alert.lastTriggeredAt && Date.now() - alert.lastTriggeredAt.getTime() < cooldownMs) {
+      logger.debug(`Yield alert ${alert.id} is cooling down`);
+      return;
+    }
+
     const alertData = {
       alertId: alert.id,
       walletAddress: alert.walletAddress,
-      opportunities: opportunities.slice(0, 5), // Top 5 opportunities
+      opportunities: top,
       timestamp: new Date()
     };
 
+    alert.lastTriggeredAt = alertData.timestamp;
+    alert.lastFingerprint = fingerprint;
+    await this.saveAlert(alert);
+
     // Emit event for alert processing
     this.emit('yieldAlert', alertData);
+    await this.events.publish('yieldAlert', alertData);
+
+    const best = top[0];
+    await this.delivery.deliver(alert, {
+      ...alertData,
+      title: best
+        ? `${opportunities.length} yield opportunities match your alert`
+        : 'Your alert conditions were met',
+      message: alert.conditions
+        ? `Matched: ${result.reasons.join('; ')}`
+        : `Best match: ${best.protocol} ${best.token} on ${best.chain} at ${best.apy.toFixed(2)}% APY`,
+      test: false
+    }, fingerprint);
 
     logger.info(`Triggered yield alert ${alert.id} with ${opportunities.length} opportunities`);
   }
 
+  private async getWalletPositions(walletAddress: string): Promise<Position[]> {
+    if (!this.positions) {
+      return [];
+    }
+
+    try {
+      return await this.positions.getPositions(walletAddress);
+    } catch (error) {
+      logger.error(`Error loading positions for alert wallet ${walletAddress}:`, error);
+      return [];
+    }
+  }
+
+  private recordApySamples(opportunities: YieldOpportunity[]): void {
+    const now = Date.now();
+
+    for (const op of opportunities) {
+      const samples = (this.apySamples.get(op.id) || [])
+        .filter(sample => now - sample.timestamp <= APY_SAMPLE_RETENTION_MS);
+      samples.push({ timestamp: now, apy: op.apy });
+      this.apySamples.set(op.id, samples);
+    }
+  }
+
+  private async loadApySamples(): Promise<void> {
+    try {
+      const series = await this.snapshotRepository.findApySeries(
+        new Date(Date.now() - APY_SAMPLE_RETENTION_MS),
+        INTERVAL_SECONDS.hour
+      );
+
+      for (const [opportunityId, points] of series) {
+        this.apySamples.set(opportunityId, points.map(point => ({ timestamp: point.timestamp.getTime(), apy: point.apy })));
+      }
+    } catch (error) {
+      logger.error('Error loading APY history:', error);
+    }
+  }
+
+  private async recordSnapshots(opportunities: YieldOpportunity[]): Promise<void> {
+    try {
+      await this.snapshotRepository.recordMany(opportunities);
+    } catch (error) {
+      logger.error('Error recording yield snapshots:', error);
+    }
+  }
+
+  // Latest APY sample taken at or before `at`
+  private apyAt(opportunityId: string, at: Date): number | undefined {
+    const samples = this.apySamples.get(opportunityId) || [];
+
+    for (let i = samples.length - 1; i >= 0; i--) {
+      if (samples[i].timestamp <= at.getTime()) {
+        return samples[i].apy;
+      }
+    }
+    return undefined;
+  }
+
+  private resolvePoolChain(protocol: string, poolId: string): string {
+    const opportunity = Array.from(this.opportunities.values())
+      .find(op => op.protocol === protocol && op.poolId === poolId);
+
+    if (opportunity) {
+      return opportunity.chain;
+    }
+
+    // Unknown pool: fall back to guessing from the protocol name
+    return protocol.includes('near') || protocol.includes('ref') || protocol.includes('burrow') ? 'near' : 'ethereum';
+  }
+
   private calculateVolatilityIndex(opportunities: YieldOpportunity[]): number {
     // Simple volatility calculation based on APY distribution
     if (opportunities.length === 0) return 0;
@@ -384,12 +589,13 @@ export class YieldMonitoringService extends EventEmitter {
   }
 
   private async loadAlerts(): Promise<void> {
-    // In a real implementation, load from database or persistent storage
-    // For now, keep in memory
+    const alerts = await this.alertRepository.loadAll();
+    this.alerts = new Map(alerts.map(alert => [alert.id, alert]));
+
+    logger.info(`Loaded ${this.alerts.size} yield alerts`);
   }
 
-  private async saveAlerts(): Promise<void> {
-    // In a real implementation, save to database or persistent storage
-    // For now, keep in memory
+  private async saveAlert(alert: YieldAlert): Promise<void> {
+    await this.alertRepository.save(alert);
   }
 }
\ No newline at end of file
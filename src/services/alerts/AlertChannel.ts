@@ -0,0 +1,41 @@
+import type { YieldOpportunity } from '../../protocols/ChainAdapter';
+
+export type AlertMethod = 'email' | 'webhook' | 'push';
+
+/**
+ * Where an alert is delivered, per method
+ */
+export interface AlertDestinations {
+  email?: string;
+  webhookUrl?: string;
+  webhookSecret?: string; // per alert, generated when not supplied
+  pushSubscription?: {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+  };
+}
+
+export interface AlertNotification {
+  alertId: string;
+  walletAddress: string;
+  title: string;
+  message: string;
+  opportunities: YieldOpportunity[];
+  timestamp: Date;
+  test: boolean;
+}
+
+export interface AlertChannel {
+  readonly method: AlertMethod;
+  /** Reason the destinations cannot be used with this channel, or null */
+  unavailableReason(destinations: AlertDestinations): string | null;
+  /** Deliver the notification, returning the number of attempts it took */
+  send(notification: AlertNotification, destinations: AlertDestinations): Promise<number>;
+}
+
+export class DeliveryError extends Error {
+  constructor(message: string, public attempts: number = 1) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
@@ -0,0 +1,63 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { AlertChannel, AlertDestinations, AlertNotification, DeliveryError } from './AlertChannel';
+
+export interface EmailConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * SMTP settings; the defaults point at a local mail catcher (see the mailpit
+ * service in docker-compose.yaml)
+ */
+export function loadEmailConfig(env: NodeJS.ProcessEnv = process.env): EmailConfig {
+  return {
+    host: env.SMTP_HOST || 'localhost',
+    port: parseInt(env.SMTP_PORT || '1025'),
+    secure: env.SMTP_SECURE === 'true',
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.EMAIL_FROM || 'noreply@defiflow.io'
+  };
+}
+
+export class EmailChannel implements AlertChannel {
+  readonly method = 'email';
+  private transporter: Transporter;
+
+  constructor(private config: EmailConfig = loadEmailConfig()) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined
+    });
+  }
+
+  unavailableReason(destinations: AlertDestinations): string | null {
+    return destinations.email ? null : 'No email address configured';
+  }
+
+  async send(notification: AlertNotification, destinations: AlertDestinations): Promise<number> {
+    const lines = notification.opportunities.map(op =>
+      `- ${op.protocol} ${op.token} (${op.poolId}) on ${op.chain}: ${op.apy.toFixed(2)}% APY, risk ${op.riskScore}/10`
+    );
+
+    try {
+      await this.transporter.sendMail({
+        from: this.config.from,
+        to: destinations.email,
+        subject: notification.title,
+        text: [notification.message, '', ...lines].join('\n')
+      });
+    } catch (error) {
+      throw new DeliveryError(error instanceof Error ? error.message : 'SMTP delivery failed');
+    }
+
+    return 1;
+  }
+}
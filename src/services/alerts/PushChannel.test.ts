@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createECDH, randomBytes } from 'crypto';
+import webpush from 'web-push';
+import { PushChannel } from './PushChannel';
+import { DeliveryError } from './AlertChannel';
+import type { AlertNotification } from './AlertChannel';
+
+const vapid = webpush.generateVAPIDKeys();
+const channel = new PushChannel({ ...vapid, subject: 'mailto:test@defiflow.io' });
+
+function subscription(endpoint: string) {
+  return {
+    endpoint,
+    keys: {
+      p256dh: createECDH('prime256v1').generateKeys().toString('base64url'),
+      auth: randomBytes(16).toString('base64url')
+    }
+  };
+}
+
+const notification: AlertNotification = {
+  alertId: 'alert_1',
+  walletAddress: 'alice.testnet',
+  title: 'Test',
+  message: 'Test notification',
+  opportunities: [],
+  timestamp: new Date(),
+  test: true
+};
+
+describe('PushChannel', () => {
+  it('accepts a public https endpoint', () => {
+    const reason = channel.unavailableReason({ pushSubscription: subscription('https://fcm.googleapis.com/fcm/send/abc') });
+    assert.equal(reason, null);
+  });
+
+  it('rejects plain http, loopback and private endpoints', () => {
+    for (const endpoint of ['http://fcm.googleapis.com/fcm/send/abc', 'https://127.0.0.1/push', 'https://localhost/push', 'https://10.0.0.5/push', 'https://[::1]/push']) {
+      const reason = channel.unavailableReason({ pushSubscription: subscription(endpoint) });
+      assert.match(reason ?? '', /^Push endpoint rejected/, endpoint);
+    }
+  });
+
+  it('refuses to connect when the endpoint host resolves to a non-public address', async () => {
+    // send() skips the URL check, so this is caught by the agent's lookup alone
+    await assert.rejects(
+      channel.send(notification, { pushSubscription: subscription('https://localhost:8443/push') }),
+      (error: unknown) => error instanceof DeliveryError && /non-public address/.test(error.message)
+    );
+  });
+});
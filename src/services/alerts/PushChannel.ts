@@ -0,0 +1,68 @@
+import webpush, { WebPushError } from 'web-push';
+import { publicAgent } from '../../utils/network';
+import { validateWebhookURL } from '../../utils/validation';
+import { AlertChannel, AlertDestinations, AlertNotification, DeliveryError } from './AlertChannel';
+
+export interface PushConfig {
+  publicKey?: string;
+  privateKey?: string;
+  subject: string;
+}
+
+/**
+ * Web Push (RFC 8030) with VAPID keys, e.g. from `npx web-push generate-vapid-keys`.
+ * The endpoint comes from the caller, so like webhooks it must be https on a
+ * public address, checked again on every connection.
+ */
+export class PushChannel implements AlertChannel {
+  readonly method = 'push';
+
+  constructor(private config: PushConfig = {
+    publicKey: process.env.VAPID_PUBLIC_KEY || undefined,
+    privateKey: process.env.VAPID_PRIVATE_KEY || undefined,
+    subject: process.env.VAPID_SUBJECT || 'mailto:noreply@defiflow.io'
+  }) {}
+
+  unavailableReason(destinations: AlertDestinations): string | null {
+    if (!this.config.publicKey || !this.config.privateKey) {
+      return 'Web push is not configured (VAPID keys missing)';
+    }
+    if (!destinations.pushSubscription) {
+      return 'No push subscription registered';
+    }
+
+    const { errors } = validateWebhookURL(destinations.pushSubscription.endpoint);
+    return errors.length > 0 ? `Push endpoint rejected: ${errors.join(', ')}` : null;
+  }
+
+  async send(notification: AlertNotification, destinations: AlertDestinations): Promise<number> {
+    const payload = JSON.stringify({
+      title: notification.title,
+      body: notification.message,
+      data: {
+        alertId: notification.alertId,
+        opportunityIds: notification.opportunities.map(op => op.id)
+      }
+    });
+
+    try {
+      await webpush.sendNotification(destinations.pushSubscription!, payload, {
+        TTL: 60 * 60,
+        agent: publicAgent,
+        vapidDetails: {
+          subject: this.config.subject,
+          publicKey: this.config.publicKey!,
+          privateKey: this.config.privateKey!
+        }
+      });
+    } catch (error) {
+      // 404/410 mean the browser dropped the subscription
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        throw new DeliveryError('Push subscription has expired');
+      }
+      throw new DeliveryError(error instanceof Error ? error.message : 'Push delivery failed');
+    }
+
+    return 1;
+  }
+}
@@ -0,0 +1,101 @@
+import { createHmac, randomBytes } from 'crypto';
+import axios from 'axios';
+import { createLogger } from '../../utils/logger';
+import { publicAgent } from '../../utils/network';
+import { validateWebhookURL } from '../../utils/validation';
+import { AlertChannel, AlertDestinations, AlertNotification, DeliveryError } from './AlertChannel';
+
+const logger = createLogger('services/alerts/WebhookChannel');
+
+export interface WebhookConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * Sign `<timestamp>.<body>` so receivers can verify the sender and reject replays
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Fresh signing secret for one alert's webhook
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Posts the notification as JSON with an HMAC-SHA256 signature, keyed with
+ * the alert's own secret, in X-DeFiFlow-Signature. Only https URLs on public
+ * addresses are reached and redirects are not followed. Network errors, 429
+ * and 5xx responses are retried with exponential backoff; other responses
+ * fail immediately.
+ */
+export class WebhookChannel implements AlertChannel {
+  readonly method = 'webhook';
+
+  constructor(private config: WebhookConfig = {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    timeoutMs: 10000
+  }) {}
+
+  unavailableReason(destinations: AlertDestinations): string | null {
+    if (!destinations.webhookUrl) {
+      return 'No webhook URL configured';
+    }
+    if (!destinations.webhookSecret) {
+      return 'No webhook secret configured';
+    }
+
+    const { errors } = validateWebhookURL(destinations.webhookUrl);
+    return errors.length > 0 ? `Webhook URL rejected: ${errors.join(', ')}` : null;
+  }
+
+  async send(notification: AlertNotification, destinations: AlertDestinations): Promise<number> {
+    const body = JSON.stringify({ type: 'yieldAlert', ...notification });
+    const secret = destinations.webhookSecret!;
+
+    for (let attempt = 1; ; attempt++) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+
+      try {
+        const response = await axios.post(destinations.webhookUrl!, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-DeFiFlow-Timestamp': timestamp,
+            'X-DeFiFlow-Signature': `sha256=${signWebhookPayload(secret, timestamp, body)}`
+          },
+          httpsAgent: publicAgent,
+          maxRedirects: 0,
+          proxy: false,
+          timeout: this.config.timeoutMs,
+          validateStatus: () => true
+        });
+
+        if (response.status >= 200 && response.status < 300) {
+          return attempt;
+        }
+
+        const retryable = response.status === 429 || response.status >= 500;
+        if (!retryable || attempt >= this.config.maxAttempts) {
+          throw new DeliveryError(`Webhook responded with ${response.status}`, attempt);
+        }
+      } catch (error) {
+        if (error instanceof DeliveryError) {
+          throw error;
+        }
+        if (attempt >= this.config.maxAttempts || (error as NodeJS.ErrnoException).code === 'EADDRNOTPUBLIC') {
+          throw new DeliveryError(error instanceof Error ? error.message : 'Webhook request failed', attempt);
+        }
+      }
+
+      const delay = this.config.baseDelayMs * 2 ** (attempt - 1);
+      logger.warn(`Webhook delivery for alert ${notification.alertId} failed, retrying in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
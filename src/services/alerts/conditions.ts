@@ -0,0 +1,321 @@
+import type { YieldOpportunity } from '../../protocols/ChainAdapter';
+import type { Position } from '../PositionTrackingService';
+import type { MarketConditions } from '../YieldMonitoringService';
+import type { ValidationResult } from '../../utils/validation';
+
+/**
+ * Alert condition language
+ *
+ * A condition is a tree of `all` / `any` groups over metric comparisons:
+ *
+ *   { any: [
+ *     { metric: 'apyChange', windowHours: 24, op: '<=', value: -20, pool: { opportunityId: 'aave-usdc' } },
+ *     { all: [
+ *       { metric: 'tvl', op: '<', value: 1_000_000, pool: { held: true } },
+ *       { metric: 'gasPrice', chain: 'ethereum', op: '<', value: 15 }
+ *     ] }
+ *   ] }
+ *
+ * Pool metrics (apy, apyChange, riskScore, tvl) are checked per opportunity.
+ * Inside `all`, conditions with the same pool selector must hold for the same
+ * pool; conditions on different selectors each need a matching pool of their
+ * own. Wallet and market metrics (healthFactor, gasPrice) are checked once.
+ */
+
+export type Comparator = '<' | '<=' | '>' | '>=';
+
+export interface PoolSelector {
+  opportunityId?: string;
+  protocols?: string[];
+  chain?: string;
+  held?: boolean; // only pools the alert's wallet has a position in
+}
+
+export type PoolCondition =
+  | { metric: 'apy' | 'riskScore' | 'tvl'; op: Comparator; value: number; pool?: PoolSelector }
+  | { metric: 'apyChange'; op: Comparator; value: number; windowHours: number; pool?: PoolSelector }; // value in %
+
+export type GlobalCondition =
+  | { metric: 'healthFactor'; op: Comparator; value: number; positionId?: string }
+  | { metric: 'gasPrice'; chain: string; op: Comparator; value: number }; // gwei
+
+export type AlertCondition =
+  | { all: AlertCondition[] }
+  | { any: AlertCondition[] }
+  | PoolCondition
+  | GlobalCondition;
+
+export interface ConditionContext {
+  opportunities: YieldOpportunity[];
+  positions: Position[]; // positions of the alert's wallet
+  market?: MarketConditions;
+  /** APY recorded for the opportunity at (or just before) the given time */
+  apyAt(opportunityId: string, at: Date): number | undefined;
+  now?: Date;
+}
+
+export interface ConditionResult {
+  matched: boolean;
+  /** Opportunities that satisfied the pool conditions; null when none were involved */
+  opportunities: YieldOpportunity[] | null;
+  /** Stable descriptions of the satisfied leaves, e.g. for deduplication */
+  reasons: string[];
+  /** Pool selector shared by every pool condition involved; unset when they differ */
+  selector?: string;
+}
+
+const COMPARATORS: Record<Comparator, (a: number, b: number) => boolean> = {
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b
+};
+
+const POOL_METRICS = ['apy', 'riskScore', 'tvl', 'apyChange'];
+const GLOBAL_METRICS = ['healthFactor', 'gasPrice'];
+const MAX_DEPTH = 5;
+const MAX_NODES = 50;
+
+export function evaluateCondition(condition: AlertCondition, context: ConditionContext): ConditionResult {
+  if ('all' in condition) {
+    const results = condition.all.map(child => evaluateCondition(child, context));
+    const poolResults = results.filter(r => r.opportunities !== null);
+    let opportunities: YieldOpportunity[] | null = null;
+    let poolsMatched = true;
+
+    if (poolResults.length > 0) {
+      // Intersect the matches of conditions on the same pools; results without
+      // a shared selector (mixed subgroups) stand on their own
+      const groups = new Map<unknown, ConditionResult[]>();
+      poolResults.forEach(r => {
+        const key = r.selector ?? r;
+        groups.set(key, [...(groups.get(key) ?? []), r]);
+      });
+
+      const matches = new Map<string, YieldOpportunity>();
+      for (const group of groups.values()) {
+        const ids = group
+          .map(r => new Set(r.opportunities!.map(op => op.id)))
+          .reduce((a, b) => new Set([...a].filter(id => b.has(id))));
+        const shared = group[0].opportunities!.filter(op => ids.has(op.id));
+
+        poolsMatched = poolsMatched && shared.length > 0;
+        shared.forEach(op => matches.set(op.id, op));
+      }
+      opportunities = Array.from(matches.values());
+    }
+
+    const matched = results.every(r => r.matched) && poolsMatched;
+    return {
+      matched,
+      opportunities,
+      reasons: matched ? results.flatMap(r => r.reasons) : [],
+      selector: sharedSelector(poolResults)
+    };
+  }
+
+  if ('any' in condition) {
+    const results = condition.any.map(child => evaluateCondition(child, context));
+    const matchedResults = results.filter(r => r.matched);
+    const involvesPools = results.some(r => r.opportunities !== null);
+    const opportunities = new Map<string, YieldOpportunity>();
+
+    matchedResults.forEach(r => r.opportunities?.forEach(op => opportunities.set(op.id, op)));
+
+    return {
+      matched: matchedResults.length > 0,
+      opportunities: involvesPools ? Array.from(opportunities.values()) : null,
+      reasons: matchedResults.flatMap(r => r.reasons),
+      selector: sharedSelector(results.filter(r => r.opportunities !== null))
+    };
+  }
+
+  switch (condition.metric) {
+    case 'apy':
+    case 'riskScore':
+    case 'tvl':
+    case 'apyChange': {
+      const matches = selectPools(condition.pool, context)
+        .filter(op => {
+          const actual = poolMetric(condition, op, context);
+          return actual !== undefined && COMPARATORS[condition.op](actual, condition.value);
+        });
+
+      return {
+        matched: matches.length > 0,
+        opportunities: matches,
+        reasons: matches.length > 0 ? [describe(condition)] : [],
+        selector: selectorKey(condition.pool)
+      };
+    }
+
+    case 'healthFactor': {
+      const matched = context.positions
+        .filter(position => !condition.positionId || position.id === condition.positionId)
+        .some(position => {
+          const healthFactor = position.metadata.healthFactor;
+          return healthFactor !== undefined && COMPARATORS[condition.op](healthFactor, condition.value);
+        });
+
+      return { matched, opportunities: null, reasons: matched ? [describe(condition)] : [] };
+    }
+
+    case 'gasPrice': {
+      const gasPrice = context.market?.chains[condition.chain]?.gasPrice;
+      const matched = gasPrice !== undefined && COMPARATORS[condition.op](gasPrice, condition.value);
+
+      return { matched, opportunities: null, reasons: matched ? [describe(condition)] : [] };
+    }
+  }
+}
+
+/**
+ * Whether any leaf of the condition uses one of the metrics, so callers only
+ * load positions or market data when needed
+ */
+export function usesMetric(condition: AlertCondition, metrics: string[]): boolean {
+  if ('all' in condition) return condition.all.some(child => usesMetric(child, metrics));
+  if ('any' in condition) return condition.any.some(child => usesMetric(child, metrics));
+  if (metrics.includes(condition.metric)) return true;
+  return 'pool' in condition && !!condition.pool?.held && metrics.includes('held');
+}
+
+export function validateAlertCondition(condition: unknown): ValidationResult {
+  const errors: string[] = [];
+  let nodes = 0;
+
+  const at = (path: string, key: string) => path ? `${path}.${key}` : key;
+  const visit = (node: any, path: string, depth: number) => {
+    nodes++;
+
+    if (depth > MAX_DEPTH) {
+      errors.push(`${path || 'root'}: Conditions can be nested at most ${MAX_DEPTH} levels deep`);
+      return;
+    }
+    if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+      errors.push(`${path || 'root'}: Must be an object`);
+      return;
+    }
+
+    for (const group of ['all', 'any'] as const) {
+      if (group in node) {
+        if (!Array.isArray(node[group]) || node[group].length === 0) {
+          errors.push(`${at(path, group)}: Must be a non-empty array`);
+          return;
+        }
+        node[group].forEach((child: unknown, i: number) => visit(child, `${at(path, group)}[${i}]`, depth + 1));
+        return;
+      }
+    }
+
+    if (![...POOL_METRICS, ...GLOBAL_METRICS].includes(node.metric)) {
+      errors.push(`${at(path, 'metric')}: Must be one of ${[...POOL_METRICS, ...GLOBAL_METRICS].join(', ')}`);
+      return;
+    }
+    if (!(node.op in COMPARATORS)) {
+      errors.push(`${at(path, 'op')}: Must be one of ${Object.keys(COMPARATORS).join(' ')}`);
+    }
+    if (typeof node.value !== 'number' || !Number.isFinite(node.value)) {
+      errors.push(`${at(path, 'value')}: Must be a number`);
+    }
+    if (node.metric === 'apyChange' &&
+        (typeof node.windowHours !== 'number' || node.windowHours <= 0 || node.windowHours > 24 * 30)) {
+      errors.push(`${at(path, 'windowHours')}: Must be between 0 and 720 hours`);
+    }
+    if (node.metric === 'gasPrice' && (typeof node.chain !== 'string' || !node.chain)) {
+      errors.push(`${at(path, 'chain')}: Is required for gasPrice`);
+    }
+    if (node.pool !== undefined) {
+      if (!POOL_METRICS.includes(node.metric)) {
+        errors.push(`${at(path, 'pool')}: Only applies to pool metrics`);
+      } else if (typeof node.pool !== 'object' || node.pool === null ||
+                 (node.pool.protocols !== undefined && !Array.isArray(node.pool.protocols))) {
+        errors.push(`${at(path, 'pool')}: Must be an object; protocols must be an array`);
+      }
+    }
+  };
+
+  visit(condition, '', 1);
+
+  if (nodes > MAX_NODES) {
+    errors.push(`At most ${MAX_NODES} conditions are allowed`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Canonical form of a selector, so equal selectors compare equal however
+ * their keys and protocols are ordered
+ */
+function selectorKey(selector: PoolSelector = {}): string {
+  return JSON.stringify([
+    selector.opportunityId ?? null,
+    selector.protocols ? [...selector.protocols].sort() : null,
+    selector.chain ?? null,
+    !!selector.held
+  ]);
+}
+
+function sharedSelector(results: ConditionResult[]): string | undefined {
+  const selector = results[0]?.selector;
+  return selector !== undefined && results.every(r => r.selector === selector) ? selector : undefined;
+}
+
+function selectPools(selector: PoolSelector | undefined, context: ConditionContext): YieldOpportunity[] {
+  if (!selector) {
+    return context.opportunities;
+  }
+
+  return context.opportunities.filter(op =>
+    (!selector.opportunityId || op.id === selector.opportunityId) &&
+    (!selector.protocols || selector.protocols.includes(op.protocol)) &&
+    (!selector.chain || op.chain === selector.chain) &&
+    (!selector.held || context.positions.some(position => holds(position, op)))
+  );
+}
+
+function holds(position: Position, op: YieldOpportunity): boolean {
+  if (position.chain !== op.chain) {
+    return false;
+  }
+  if (position.metadata.poolId) {
+    return position.metadata.poolId === op.poolId;
+  }
+  return position.protocol === op.protocol && position.tokenSymbol === op.token;
+}
+
+function poolMetric(condition: PoolCondition, op: YieldOpportunity, context: ConditionContext): number | undefined {
+  switch (condition.metric) {
+    case 'apy':
+      return op.apy;
+    case 'riskScore':
+      return op.riskScore;
+    case 'tvl':
+      return op.tvl;
+    case 'apyChange': {
+      const now = context.now ?? new Date();
+      const past = context.apyAt(op.id, new Date(now.getTime() - condition.windowHours * 60 * 60 * 1000));
+      if (past === undefined || past === 0) {
+        return undefined;
+      }
+      return ((op.apy - past) / past) * 100;
+    }
+  }
+}
+
+function describe(condition: PoolCondition | GlobalCondition): string {
+  switch (condition.metric) {
+    case 'apyChange':
+      return `apyChange(${condition.windowHours}h) ${condition.op} ${condition.value}%`;
+    case 'gasPrice':
+      return `gasPrice(${condition.chain}) ${condition.op} ${condition.value} gwei`;
+    case 'healthFactor':
+      return `healthFactor${condition.positionId ? `(${condition.positionId})` : ''} ${condition.op} ${condition.value}`;
+    default: {
+      const pool = condition.pool;
+      const scope = pool?.opportunityId || (pool?.held ? 'held pools' : pool?.protocols?.join('/') || pool?.chain);
+      return `${condition.metric}${scope ? `(${scope})` : ''} ${condition.op} ${condition.value}`;
+    }
+  }
+}
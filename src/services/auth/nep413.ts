@@ -0,0 +1,99 @@
+import axios from 'axios';
+import { createHash, createPublicKey, verify } from 'crypto';
+import { decodeBase58, toBeArray } from 'ethers';
+
+/**
+ * NEAR off-chain message signing (NEP-413), as returned by wallet
+ * `signMessage` calls
+ */
+export interface SignedNearMessage {
+  accountId: string;
+  publicKey: string; // ed25519:<base58>
+  signature: string; // base64
+  message: string;
+  nonce: string; // base64 of 32 bytes
+  recipient: string;
+  callbackUrl?: string;
+}
+
+// 2^31 + 413, prefixed so a signed message can never be a valid transaction
+const NEP413_TAG = 2147484061;
+
+/**
+ * Check the ed25519 signature over the NEP-413 payload. Does not check that
+ * the key belongs to the account; see `hasFullAccessKey`.
+ */
+export function verifyNearSignature(signed: SignedNearMessage): boolean {
+  const publicKey = decodePublicKey(signed.publicKey);
+  const nonce = Buffer.from(signed.nonce, 'base64');
+  const signature = Buffer.from(signed.signature, 'base64');
+
+  if (nonce.length !== 32 || signature.length !== 64) {
+    return false;
+  }
+
+  const payload = Buffer.concat([
+    u32(NEP413_TAG),
+    borshString(signed.message),
+    nonce,
+    borshString(signed.recipient),
+    signed.callbackUrl === undefined
+      ? Buffer.from([0])
+      : Buffer.concat([Buffer.from([1]), borshString(signed.callbackUrl)])
+  ]);
+  const hash = createHash('sha256').update(payload).digest();
+
+  const key = createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: publicKey.toString('base64url') },
+    format: 'jwk'
+  });
+
+  return verify(null, hash, key, signature);
+}
+
+/**
+ * Whether `publicKey` is a full access key of `accountId`. Function-call keys
+ * are rejected since any dapp can hold one.
+ */
+export async function hasFullAccessKey(rpcUrl: string, accountId: string, publicKey: string): Promise<boolean> {
+  const response = await axios.post(rpcUrl, {
+    jsonrpc: '2.0',
+    id: 'defiflow-auth',
+    method: 'query',
+    params: {
+      request_type: 'view_access_key',
+      finality: 'final',
+      account_id: accountId,
+      public_key: publicKey
+    }
+  }, { timeout: 10000 });
+
+  // Unknown keys come back as a result with an `error` field or as an RPC error
+  return response.data?.result?.permission === 'FullAccess';
+}
+
+function decodePublicKey(publicKey: string): Buffer {
+  const [curve, data] = publicKey.split(':');
+  if (curve !== 'ed25519' || !data) {
+    throw new Error('Only ed25519 public keys are supported');
+  }
+
+  const bytes = Buffer.from(toBeArray(decodeBase58(data)));
+  if (bytes.length > 32) {
+    throw new Error('Invalid ed25519 public key');
+  }
+
+  // Leading zero bytes are dropped by the numeric decoding
+  return Buffer.concat([Buffer.alloc(32 - bytes.length), bytes]);
+}
+
+function u32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function borshString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  return Buffer.concat([u32(bytes.length), bytes]);
+}
@@ -0,0 +1,120 @@
+import { getAddress, verifyMessage } from 'ethers';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) messages
+ */
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime?: Date;
+  notBefore?: Date;
+}
+
+const HEADER = / wants you to sign in with your Ethereum account:$/;
+
+const FIELDS: Record<string, keyof SiweMessage> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore'
+};
+
+/**
+ * Parse the EIP-4361 text format. Throws on anything malformed.
+ */
+export function parseSiweMessage(message: string): SiweMessage {
+  const lines = message.split('\n');
+
+  if (!HEADER.test(lines[0] ?? '')) {
+    throw new Error('Not a Sign-In with Ethereum message');
+  }
+
+  const parsed: Record<string, any> = {
+    domain: lines[0].replace(HEADER, ''),
+    address: getAddress(lines[1] ?? '')
+  };
+
+  // The statement is the optional paragraph between the address and the fields
+  let i = 2;
+  if (lines[i] === '' && lines[i + 1] !== undefined && !lines[i + 1].startsWith('URI: ')) {
+    parsed.statement = lines[i + 1];
+    i += 2;
+  }
+
+  for (const line of lines.slice(i)) {
+    const separator = line.indexOf(': ');
+    const key = FIELDS[line.substring(0, separator)];
+    if (separator > 0 && key) {
+      parsed[key] = line.substring(separator + 2);
+    }
+  }
+
+  for (const field of ['uri', 'version', 'chainId', 'nonce', 'issuedAt']) {
+    if (!parsed[field]) {
+      throw new Error(`Message is missing ${field}`);
+    }
+  }
+
+  const dates = ['issuedAt', 'expirationTime', 'notBefore'].filter(field => parsed[field] !== undefined);
+  for (const field of dates) {
+    parsed[field] = new Date(parsed[field]);
+    if (isNaN(parsed[field].getTime())) {
+      throw new Error(`Message has an invalid ${field}`);
+    }
+  }
+
+  parsed.chainId = Number(parsed.chainId);
+  if (!Number.isInteger(parsed.chainId)) {
+    throw new Error('Message has an invalid chainId');
+  }
+
+  return parsed as SiweMessage;
+}
+
+/**
+ * Check the signature and validity window of a SIWE message for our domain.
+ * Returns the parsed message; the caller still has to consume the nonce.
+ */
+export function verifySiweMessage(
+  message: string,
+  signature: string,
+  domain: string,
+  now: Date = new Date()
+): SiweMessage {
+  const parsed = parseSiweMessage(message);
+
+  if (parsed.domain !== domain) {
+    throw new Error(`Message is for ${parsed.domain}, expected ${domain}`);
+  }
+  if (parsed.version !== '1') {
+    throw new Error(`Unsupported message version ${parsed.version}`);
+  }
+  if (parsed.expirationTime && parsed.expirationTime <= now) {
+    throw new Error('Message has expired');
+  }
+  if (parsed.notBefore && parsed.notBefore > now) {
+    throw new Error('Message is not valid yet');
+  }
+
+  let signer: string;
+  try {
+    signer = verifyMessage(message, signature);
+  } catch {
+    throw new Error('Invalid signature');
+  }
+
+  if (signer !== parsed.address) {
+    throw new Error('Signature does not match the message address');
+  }
+
+  return parsed;
+}
@@ -2,12 +2,19 @@ import { Context } from 'hono';
 import { YieldMonitoringService } from '../services/YieldMonitoringService';
 import { RebalancingService } from '../services/RebalancingService';
 import { PositionTrackingService } from '../services/PositionTrackingService';
+import { EventStreamService } from '../services/EventStreamService';
+import { AuthIdentity, AuthService } from '../services/AuthService';
 
 export interface AppBindings {
   Variables: {
     yieldMonitoringService: YieldMonitoringService;
     rebalancingService: RebalancingService;
     positionTrackingService: PositionTrackingService;
+    eventStreamService: EventStreamService;
+    authService: AuthService;
+    auth?: AuthIdentity; // set by the authenticate middleware for signed-in callers
+    requestId: string; // correlation id, set by the requestContext middleware
+    rateLimitRemaining?: number; // tokens left in the emptiest bucket charged so far
   };
 }
 
@@ -74,6 +74,7 @@ export interface APIResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  details?: ErrorDetails; // set on validation, auth and rate-limit failures
   metadata?: {
     timestamp: string;
     requestId?: string;
@@ -116,15 +117,24 @@ export interface EnvironmentConfig {
   PORT: number;
   LOG_LEVEL: 'ERROR' | 'WARN' | 'INFO' | 'DEBUG';
   
+  // Network profile: mainnet, testnet or local-fork
+  NETWORK: 'mainnet' | 'testnet' | 'local-fork';
+  
   // NEAR config
-  NEAR_RPC_URL: string;
+  NEAR_RPC_URL?: string; // Overrides the profile RPC
+  NEAR_NETWORK?: string;
   NEAR_ACCOUNT_ID: string;
   NEAR_PRIVATE_KEY?: string;
   
   // Ethereum config
-  ETHEREUM_RPC_URL: string;
+  ETHEREUM_RPC_URL?: string; // Overrides the profile RPC
+  ETHEREUM_NETWORK?: string;
   ETHEREUM_PRIVATE_KEY?: string;
   
+  // Other EVM chains
+  BSC_RPC_URL?: string;
+  POLYGON_RPC_URL?: string;
+  
   // TEE config
   TEE_ENDPOINT: string;
   TEE_API_KEY?: string;
@@ -138,4 +148,5 @@ export interface EnvironmentConfig {
   ENABLE_CROSS_CHAIN: boolean;
   ENABLE_YIELD_ALERTS: boolean;
   MOCK_BLOCKCHAIN_CALLS: boolean;
+  ENABLE_CACHE_PREWARM: boolean;
 }
\ No newline at end of file
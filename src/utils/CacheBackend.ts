@@ -0,0 +1,271 @@
+import Redis from 'ioredis';
+import { createLogger } from './logger';
+
+const logger = createLogger('utils/CacheBackend');
+
+export interface CacheEntry<T = any> {
+  data: T;
+  timestamp: number;
+  ttl: number; // seconds
+  staleWhileRevalidate?: number; // seconds the entry may still be served after ttl
+}
+
+export interface TokenBucket {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  remaining: number; // tokens left after this request
+}
+
+/**
+ * Storage behind CacheManager. Keys arrive fully namespaced
+ * (`<namespace>:<key>`); patterns are globs where `*` matches anything.
+ */
+export interface CacheBackend {
+  readonly name: 'memory' | 'redis';
+  get(key: string): Promise<CacheEntry | null>;
+  mget(keys: string[]): Promise<(CacheEntry | null)[]>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(keys: string[]): Promise<number>;
+  keys(pattern: string): Promise<string[]>;
+  /** Take `cost` tokens from the bucket at `key` if it holds enough; atomic across callers */
+  takeTokens(key: string, bucket: TokenBucket, cost: number): Promise<TokenBucketResult>;
+  shutdown(): Promise<void>;
+}
+
+/** Past ttl; a stale entry is only kept around for stale-while-revalidate */
+export function isStale(entry: CacheEntry): boolean {
+  return (Date.now() - entry.timestamp) > (entry.ttl * 1000);
+}
+
+export function isExpired(entry: CacheEntry): boolean {
+  return (Date.now() - entry.timestamp) > (lifetime(entry) * 1000);
+}
+
+/** Seconds the backend has to keep the entry */
+export function lifetime(entry: CacheEntry): number {
+  return entry.ttl + (entry.staleWhileRevalidate || 0);
+}
+
+/** Seconds until an emptied bucket is full again, after which its state can go */
+function refillSeconds(bucket: TokenBucket): number {
+  return Math.ceil(bucket.capacity / bucket.refillPerSecond);
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * In-process backend, used when no Redis is configured
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries: Map<string, CacheEntry> = new Map();
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor() {
+    // Clean up expired entries every 5 minutes
+    this.cleanupInterval = setInterval(() => this.cleanup(), 5 * 60 * 1000);
+    this.cleanupInterval.unref();
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (isExpired(entry)) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  async mget(keys: string[]): Promise<(CacheEntry | null)[]> {
+    return Promise.all(keys.map(key => this.get(key)));
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    return keys.filter(key => this.entries.delete(key)).length;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const regex = globToRegExp(pattern);
+    return Array.from(this.entries.entries())
+      .filter(([key, entry]) => regex.test(key) && !isExpired(entry))
+      .map(([key]) => key);
+  }
+
+  async takeTokens(key: string, bucket: TokenBucket, cost: number): Promise<TokenBucketResult> {
+    const now = Date.now();
+    const entry = await this.get(key);
+    const state: { tokens: number; updatedAt: number } = entry?.data ?? { tokens: bucket.capacity, updatedAt: now };
+
+    const tokens = Math.min(bucket.capacity, state.tokens + ((now - state.updatedAt) / 1000) * bucket.refillPerSecond);
+    const allowed = tokens >= cost;
+    const remaining = allowed ? tokens - cost : tokens;
+
+    this.entries.set(key, { data: { tokens: remaining, updatedAt: now }, timestamp: now, ttl: refillSeconds(bucket) });
+    return { allowed, remaining };
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.cleanupInterval);
+    this.cleanup();
+  }
+
+  private cleanup(): void {
+    let removed = 0;
+
+    for (const [key, entry] of this.entries.entries()) {
+      if (isExpired(entry)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.debug(`Cache cleanup: removed ${removed} expired entries`);
+    }
+  }
+}
+
+/**
+ * Redis backend shared by all agent replicas. Entries are stored as JSON under
+ * `<prefix><namespace>:<key>` and expire through Redis' native TTL.
+ */
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+
+  constructor(private client: Redis, private prefix: string = 'defiflow:') {}
+
+  /**
+   * Connect to `url`, failing fast instead of queueing commands while Redis is down
+   */
+  static async connect(url: string, prefix?: string): Promise<RedisCacheBackend> {
+    const client = new Redis(url, {
+      lazyConnect: true,
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false
+    });
+
+    client.on('error', (error) => logger.error('Redis cache error:', error));
+
+    try {
+      await client.connect();
+      await client.ping();
+    } catch (error) {
+      client.disconnect();
+      throw error;
+    }
+
+    return new RedisCacheBackend(client, prefix);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const raw = await this.client.get(this.prefix + key);
+    return raw ? deserialize(raw) : null;
+  }
+
+  async mget(keys: string[]): Promise<(CacheEntry | null)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const values = await this.client.mget(keys.map(key => this.prefix + key));
+    return values.map(raw => raw ? deserialize(raw) : null);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const ttl = Math.max(1, Math.ceil(lifetime(entry)));
+    await this.client.set(this.prefix + key, serialize(entry), 'EX', ttl);
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    return this.client.del(...keys.map(key => this.prefix + key));
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    const match = this.prefix + pattern.replace(/[?[\]\\]/g, '\\$&');
+    let cursor = '0';
+
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', match, 'COUNT', 200);
+      keys.push(...batch.map(key => key.substring(this.prefix.length)));
+      cursor = next;
+    } while (cursor !== '0');
+
+    return keys;
+  }
+
+  async takeTokens(key: string, bucket: TokenBucket, cost: number): Promise<TokenBucketResult> {
+    const [allowed, remaining] = await this.client.eval(
+      TAKE_TOKENS_SCRIPT,
+      1,
+      this.prefix + key,
+      bucket.capacity,
+      bucket.refillPerSecond,
+      cost,
+      Date.now(),
+      refillSeconds(bucket)
+    ) as [number, string];
+
+    return { allowed: allowed === 1, remaining: parseFloat(remaining) };
+  }
+
+  async shutdown(): Promise<void> {
+    await this.client.quit();
+  }
+}
+
+// Refill, take and store in one step so replicas can't both spend the same tokens
+const TAKE_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) / 1000 * rate)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+return { allowed, tostring(tokens) }
+`;
+
+// Dates survive the JSON round trip so cached objects look the same as with the memory backend
+function serialize(entry: CacheEntry): string {
+  return JSON.stringify(entry, function (key, value) {
+    return this[key] instanceof Date ? { __date: value } : value;
+  });
+}
+
+function deserialize(raw: string): CacheEntry {
+  return JSON.parse(raw, (_key, value) =>
+    value && typeof value === 'object' && typeof value.__date === 'string' && Object.keys(value).length === 1
+      ? new Date(value.__date)
+      : value
+  );
+}
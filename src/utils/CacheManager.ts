@@ -1,168 +1,319 @@
-import { logger } from './logger';
+import { createLogger } from './logger';
+import {
+  CacheBackend,
+  CacheEntry,
+  MemoryCacheBackend,
+  RedisCacheBackend,
+  globToRegExp,
+  isStale,
+  lifetime
+} from './CacheBackend';
+import { cacheEntries, cacheHitRatio, cacheLookups, metrics } from './metrics';
+
+const logger = createLogger('utils/CacheManager');
+
+export type { CacheEntry } from './CacheBackend';
+
+/**
+ * Process-wide cache storage. Starts on the in-memory backend and switches to
+ * Redis on initialize() when REDIS_URL is set and reachable, so every
+ * CacheManager (and every agent replica) shares the same entries.
+ */
+export class CacheStore {
+  private current: CacheBackend = new MemoryCacheBackend();
+  private managers: Set<CacheManager> = new Set();
+  private stopCollecting?: () => void;
+
+  get backend(): CacheBackend {
+    return this.current;
+  }
+
+  async initialize(redisUrl: string | undefined = process.env.REDIS_URL): Promise<void> {
+    this.stopCollecting ??= metrics.onCollect(() => this.collectMetrics());
+
+    if (!redisUrl || this.current.name === 'redis') {
+      logger.info(`Cache backend: ${this.current.name}`);
+      return;
+    }
+
+    try {
+      const redis = await RedisCacheBackend.connect(redisUrl);
+      await this.current.shutdown();
+      this.current = redis;
+      logger.info('Cache backend: redis');
+    } catch (error) {
+      logger.warn('Redis unavailable, falling back to in-memory cache:', error);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.stopCollecting?.();
+    this.stopCollecting = undefined;
+
+    await this.current.shutdown();
+    this.current = new MemoryCacheBackend();
+  }
+
+  /**
+   * Remember a CacheManager using this store so its statistics show up in stats()
+   */
+  track(manager: CacheManager): void {
+    this.managers.add(manager);
+  }
+
+  async stats(options: { detailed?: boolean } = {}): Promise<CacheStats[]> {
+    return Promise.all(Array.from(this.managers).map(manager => manager.stats(options)));
+  }
+
+  private async collectMetrics(): Promise<void> {
+    for (const stats of await this.stats()) {
+      const { namespace } = stats;
+
+      cacheLookups.set({ namespace, result: 'hit' }, stats.hits);
+      cacheLookups.set({ namespace, result: 'stale_hit' }, stats.staleHits);
+      cacheLookups.set({ namespace, result: 'miss' }, stats.misses);
+      cacheLookups.set({ namespace, result: 'coalesced' }, stats.coalesced);
+      cacheEntries.set({ namespace }, stats.totalEntries);
+      if (stats.hitRate !== undefined) {
+        cacheHitRatio.set({ namespace }, stats.hitRate);
+      }
+    }
+  }
+}
+
+export const cacheStore = new CacheStore();
+
+export interface CacheStats {
+  namespace: string;
+  backend: string;
+  /** Unexpired entries this process wrote and has not deleted */
+  totalEntries: number;
+  hits: number;
+  misses: number;
+  staleHits: number;
+  coalesced: number;
+  hitRate?: number;
+  /** Rough size in bytes of every entry in the namespace; only with `detailed` */
+  memoryUsage?: number;
+}
 
-export interface CacheEntry<T = any> {
-  data: T;
-  timestamp: number;
-  ttl: number; // seconds
+export interface GetOrSetOptions {
+  /** Seconds past the TTL during which the old value is served while one refresh runs */
+  staleWhileRevalidate?: number;
 }
 
 export class CacheManager {
-  private cache: Map<string, CacheEntry> = new Map();
-  private cleanupInterval: NodeJS.Timeout;
   private namespace: string;
+  private inFlight: Map<string, Promise<any>> = new Map();
+  private expiries: Map<string, number> = new Map(); // key -> ms, for running entry counts
+  private counters = { hits: 0, misses: 0, staleHits: 0, coalesced: 0 };
 
-  constructor(namespace: string = 'default') {
+  constructor(namespace: string = 'default', private store: CacheStore = cacheStore) {
     this.namespace = namespace;
-    
-    // Clean up expired entries every 5 minutes
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup();
-    }, 5 * 60 * 1000);
-
+    store.track(this);
     logger.debug(`CacheManager initialized for namespace: ${namespace}`);
   }
 
+  private get backend(): CacheBackend {
+    return this.store.backend;
+  }
+
   private getKey(key: string): string {
     return `${this.namespace}:${key}`;
   }
 
-  private isExpired(entry: CacheEntry): boolean {
-    const now = Date.now();
-    return (now - entry.timestamp) > (entry.ttl * 1000);
+  private stripKey(fullKey: string): string {
+    return fullKey.substring(this.namespace.length + 1);
+  }
+
+  // A failing backend degrades to cache misses instead of failing the caller
+  private async safely<T>(operation: string, fallback: T, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run();
+    } catch (error) {
+      logger.error(`Cache ${operation} failed for namespace ${this.namespace}:`, error);
+      return fallback;
+    }
   }
 
   async get<T = any>(key: string): Promise<T | null> {
     const fullKey = this.getKey(key);
-    const entry = this.cache.get(fullKey);
+    const entry = await this.safely('get', null, () => this.backend.get(fullKey));
 
-    if (!entry) {
+    if (!entry || isStale(entry)) {
+      this.counters.misses++;
       logger.debug(`Cache miss for key: ${fullKey}`);
       return null;
     }
 
-    if (this.isExpired(entry)) {
-      logger.debug(`Cache expired for key: ${fullKey}`);
-      this.cache.delete(fullKey);
-      return null;
-    }
-
+    this.counters.hits++;
     logger.debug(`Cache hit for key: ${fullKey}`);
     return entry.data as T;
   }
 
-  async set<T = any>(key: string, data: T, ttlSeconds: number = 300): Promise<void> {
+  async set<T = any>(
+    key: string,
+    data: T,
+    ttlSeconds: number = 300,
+    options: GetOrSetOptions = {}
+  ): Promise<void> {
     const fullKey = this.getKey(key);
     const entry: CacheEntry<T> = {
       data,
       timestamp: Date.now(),
-      ttl: ttlSeconds
+      ttl: ttlSeconds,
+      staleWhileRevalidate: options.staleWhileRevalidate
     };
 
-    this.cache.set(fullKey, entry);
+    this.expiries.set(key, entry.timestamp + lifetime(entry) * 1000);
+    await this.safely('set', undefined, () => this.backend.set(fullKey, entry));
     logger.debug(`Cache set for key: ${fullKey}, TTL: ${ttlSeconds}s`);
   }
 
   async delete(key: string): Promise<boolean> {
     const fullKey = this.getKey(key);
-    const deleted = this.cache.delete(fullKey);
-    
+    this.forget([key]);
+    const deleted = await this.safely('delete', 0, () => this.backend.delete([fullKey])) > 0;
+
     if (deleted) {
       logger.debug(`Cache deleted for key: ${fullKey}`);
     }
-    
+
     return deleted;
   }
 
   async clear(): Promise<void> {
-    const keysToDelete = Array.from(this.cache.keys())
-      .filter(key => key.startsWith(`${this.namespace}:`));
-    
-    keysToDelete.forEach(key => this.cache.delete(key));
-    
-    logger.debug(`Cache cleared for namespace: ${this.namespace}, deleted ${keysToDelete.length} entries`);
+    const deleted = await this.deletePattern('*');
+    logger.debug(`Cache cleared for namespace: ${this.namespace}, deleted ${deleted} entries`);
   }
 
   async has(key: string): Promise<boolean> {
-    const fullKey = this.getKey(key);
-    const entry = this.cache.get(fullKey);
-    
-    if (!entry) {
-      return false;
-    }
-
-    if (this.isExpired(entry)) {
-      this.cache.delete(fullKey);
-      return false;
-    }
-
-    return true;
+    const entry = await this.safely('get', null, () => this.backend.get(this.getKey(key)));
+    return entry !== null && !isStale(entry);
   }
 
   async keys(): Promise<string[]> {
-    const prefix = `${this.namespace}:`;
-    return Array.from(this.cache.keys())
-      .filter(key => key.startsWith(prefix))
-      .map(key => key.substring(prefix.length));
+    const fullKeys = await this.safely('keys', [] as string[], () => this.backend.keys(this.getKey('*')));
+    return fullKeys.map(key => this.stripKey(key));
   }
 
   async size(): Promise<number> {
-    const prefix = `${this.namespace}:`;
-    return Array.from(this.cache.keys())
-      .filter(key => key.startsWith(prefix)).length;
-  }
-
-  // Get cache statistics
-  async stats(): Promise<{
-    namespace: string;
-    totalEntries: number;
-    hitRate?: number;
-    memoryUsage: number;
-  }> {
-    const totalEntries = await this.size();
-    
-    // Calculate approximate memory usage
-    let memoryUsage = 0;
-    const prefix = `${this.namespace}:`;
-    
-    for (const [key, entry] of this.cache.entries()) {
-      if (key.startsWith(prefix)) {
-        // Rough estimation of memory usage
-        memoryUsage += JSON.stringify(entry).length;
+    return (await this.keys()).length;
+  }
+
+  /**
+   * Cache statistics. Cheap enough for every metrics scrape: entries are
+   * counted as they are written and deleted. `detailed` also reads every
+   * entry of the namespace to estimate its memory usage, which on Redis
+   * means a SCAN, so keep it to diagnostics.
+   */
+  async stats(options: { detailed?: boolean } = {}): Promise<CacheStats> {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.expiries) {
+      if (expiresAt <= now) {
+        this.expiries.delete(key);
       }
     }
 
-    return {
+    const { hits, misses, staleHits, coalesced } = this.counters;
+    const lookups = hits + misses + staleHits + coalesced;
+    const stats: CacheStats = {
       namespace: this.namespace,
-      totalEntries,
-      memoryUsage
+      backend: this.backend.name,
+      totalEntries: this.expiries.size,
+      ...this.counters,
+      hitRate: lookups > 0 ? (hits + staleHits) / lookups : undefined
     };
+
+    if (options.detailed) {
+      const keys = await this.keys();
+      const entries = await this.safely('mget', [] as (CacheEntry | null)[], () =>
+        this.backend.mget(keys.map(key => this.getKey(key)))
+      );
+
+      stats.memoryUsage = entries.reduce((total, entry) =>
+        total + (entry ? JSON.stringify(entry).length : 0), 0);
+    }
+
+    return stats;
   }
 
   // Advanced cache operations
   async getOrSet<T>(
     key: string,
     fetchFunction: () => Promise<T>,
-    ttlSeconds: number = 300
+    ttlSeconds: number = 300,
+    options: GetOrSetOptions = {}
   ): Promise<T> {
-    const cached = await this.get<T>(key);
-    
-    if (cached !== null) {
-      return cached;
+    const fullKey = this.getKey(key);
+    const entry = await this.safely('get', null, () => this.backend.get(fullKey));
+
+    if (entry && !isStale(entry)) {
+      this.counters.hits++;
+      return entry.data as T;
     }
 
-    logger.debug(`Cache miss for key: ${key}, fetching data...`);
-    const data = await fetchFunction();
-    await this.set(key, data, ttlSeconds);
-    
-    return data;
+    if (entry) {
+      // Serve the stale value; at most one refresh per key runs in the background
+      this.counters.staleHits++;
+      this.refresh(key, fetchFunction, ttlSeconds, options).catch(error =>
+        logger.warn(`Background refresh failed for key: ${fullKey}:`, error)
+      );
+      return entry.data as T;
+    }
+
+    if (this.inFlight.has(key)) {
+      this.counters.coalesced++;
+    } else {
+      this.counters.misses++;
+      logger.debug(`Cache miss for key: ${fullKey}, fetching data...`);
+    }
+
+    return this.refresh(key, fetchFunction, ttlSeconds, options);
+  }
+
+  // Concurrent callers for the same key share one fetch. Deleting the key
+  // drops the fetch from inFlight, and its result is then not cached since it
+  // may have been read before the change that caused the delete.
+  private refresh<T>(
+    key: string,
+    fetchFunction: () => Promise<T>,
+    ttlSeconds: number,
+    options: GetOrSetOptions
+  ): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const fetching: Promise<T> = Promise.resolve()
+      .then(fetchFunction)
+      .then(async data => {
+        if (this.inFlight.get(key) === fetching) {
+          await this.set(key, data, ttlSeconds, options);
+        }
+        return data;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === fetching) {
+          this.inFlight.delete(key);
+        }
+      });
+
+    this.inFlight.set(key, fetching);
+    return fetching;
   }
 
   async mget<T = any>(keys: string[]): Promise<Record<string, T | null>> {
+    const entries = await this.safely('mget', keys.map(() => null) as (CacheEntry | null)[], () =>
+      this.backend.mget(keys.map(key => this.getKey(key)))
+    );
+
     const result: Record<string, T | null> = {};
-    
-    for (const key of keys) {
-      result[key] = await this.get<T>(key);
-    }
+    keys.forEach((key, i) => {
+      const entry = entries[i];
+      result[key] = entry && !isStale(entry) ? entry.data as T : null;
+    });
 
     return result;
   }
@@ -175,72 +326,53 @@ export class CacheManager {
     await Promise.all(promises);
   }
 
-  // Pattern matching for keys
+  // Pattern matching for keys; `*` matches any run of characters
   async deletePattern(pattern: string): Promise<number> {
-    const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-    const keysToDelete: string[] = [];
-    const prefix = `${this.namespace}:`;
-
-    for (const fullKey of this.cache.keys()) {
-      if (fullKey.startsWith(prefix)) {
-        const key = fullKey.substring(prefix.length);
-        if (regex.test(key)) {
-          keysToDelete.push(fullKey);
-        }
-      }
-    }
+    const regex = globToRegExp(pattern);
+    this.forget([...this.inFlight.keys(), ...this.expiries.keys()].filter(key => regex.test(key)));
 
-    keysToDelete.forEach(key => this.cache.delete(key));
-    
-    logger.debug(`Deleted ${keysToDelete.length} cache entries matching pattern: ${pattern}`);
-    return keysToDelete.length;
+    const deleted = await this.safely('deletePattern', 0, async () => {
+      const keys = await this.backend.keys(this.getKey(pattern));
+      return this.backend.delete(keys);
+    });
+
+    logger.debug(`Deleted ${deleted} cache entries matching pattern: ${pattern}`);
+    return deleted;
   }
 
   // Refresh TTL for existing entry
   async touch(key: string, ttlSeconds?: number): Promise<boolean> {
     const fullKey = this.getKey(key);
-    const entry = this.cache.get(fullKey);
 
-    if (!entry || this.isExpired(entry)) {
-      return false;
-    }
-
-    entry.timestamp = Date.now();
-    if (ttlSeconds !== undefined) {
-      entry.ttl = ttlSeconds;
-    }
+    return this.safely('touch', false, async () => {
+      const entry = await this.backend.get(fullKey);
 
-    logger.debug(`Cache entry touched for key: ${fullKey}`);
-    return true;
-  }
-
-  private cleanup(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
-    const prefix = `${this.namespace}:`;
+      if (!entry) {
+        return false;
+      }
 
-    for (const [key, entry] of this.cache.entries()) {
-      if (key.startsWith(prefix) && this.isExpired(entry)) {
-        keysToDelete.push(key);
+      entry.timestamp = Date.now();
+      if (ttlSeconds !== undefined) {
+        entry.ttl = ttlSeconds;
       }
-    }
 
-    keysToDelete.forEach(key => this.cache.delete(key));
+      await this.backend.set(fullKey, entry);
+      this.expiries.set(key, entry.timestamp + lifetime(entry) * 1000);
+      logger.debug(`Cache entry touched for key: ${fullKey}`);
+      return true;
+    });
+  }
 
-    if (keysToDelete.length > 0) {
-      logger.debug(`Cache cleanup: removed ${keysToDelete.length} expired entries from namespace ${this.namespace}`);
+  // Stop counting the keys and abandon their in-flight fetches
+  private forget(keys: string[]): void {
+    for (const key of keys) {
+      this.inFlight.delete(key);
+      this.expiries.delete(key);
     }
   }
 
-  // Graceful shutdown
+  // Graceful shutdown; the shared backend is closed by cacheStore.shutdown()
   async shutdown(): Promise<void> {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-    }
-
-    // Final cleanup
-    this.cleanup();
-    
     logger.debug(`CacheManager shut down for namespace: ${this.namespace}`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import { createLogger } from './logger';
+import type { YieldOpportunity } from '../protocols/ChainAdapter';
+import type { Position } from '../services/PositionTrackingService';
+import type { RebalanceExecution } from '../services/RebalancingService';
+
+const logger = createLogger('utils/EventBus');
+
+/**
+ * Events shared between services, keyed by name
+ */
+export interface AppEvents {
+  opportunitiesUpdated: {
+    opportunities: YieldOpportunity[];
+    timestamp: Date;
+  };
+  positionsUpdated: {
+    walletAddresses: string[];
+    timestamp: Date;
+  };
+  significantPnlChange: {
+    walletAddress: string;
+    position: Position;
+  };
+  yieldAlert: {
+    alertId: string;
+    walletAddress: string;
+    opportunities: YieldOpportunity[];
+    timestamp: Date;
+  };
+  rebalanceCompleted: {
+    execution: RebalanceExecution;
+  };
+  rebalanceFailed: {
+    execution: RebalanceExecution;
+    error: string;
+  };
+}
+
+export type AppEventHandler<K extends keyof AppEvents> = (payload: AppEvents[K]) => void | Promise<void>;
+
+/**
+ * In-process event bus. Handlers run one after another in subscription order,
+ * so a subscriber registered later (e.g. recommendations) sees the caches that
+ * earlier subscribers (e.g. positions) have already invalidated. A failing
+ * handler is logged and does not stop the others.
+ */
+export class EventBus extends EventEmitter {
+  subscribe<K extends keyof AppEvents>(event: K, handler: AppEventHandler<K>): () => void {
+    this.on(event, handler);
+    return () => {
+      this.off(event, handler);
+    };
+  }
+
+  async publish<K extends keyof AppEvents>(event: K, payload: AppEvents[K]): Promise<void> {
+    for (const handler of this.listeners(event) as AppEventHandler<K>[]) {
+      try {
+        await handler(payload);
+      } catch (error) {
+        logger.error(`Error handling ${event} event:`, error);
+      }
+    }
+  }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,67 @@
+import { createLogger } from './logger';
+import { CacheStore, cacheStore } from './CacheManager';
+import type { TokenBucket } from './CacheBackend';
+
+const logger = createLogger('utils/RateLimiter');
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the request would be allowed; 0 when it was */
+  retryAfter: number;
+}
+
+/**
+ * Token-bucket rate limiter. Buckets live in the cache backend, so with
+ * Redis every agent replica draws from the same bucket.
+ */
+export class RateLimiter {
+  private counters = { allowed: 0, limited: 0, errors: 0 };
+
+  constructor(
+    private bucket: TokenBucket,
+    private namespace: string = 'ratelimit',
+    private store: CacheStore = cacheStore
+  ) {}
+
+  /**
+   * Take `cost` tokens from `key`'s bucket. Fails open when the backend errors
+   * so a cache outage doesn't take the API down with it.
+   */
+  async take(key: string, cost: number = 1): Promise<RateLimitResult> {
+    // A cost above capacity could never be paid
+    const price = Math.min(cost, this.bucket.capacity);
+
+    try {
+      const { allowed, remaining } = await this.store.backend.takeTokens(`${this.namespace}:${key}`, this.bucket, price);
+      this.counters[allowed ? 'allowed' : 'limited']++;
+
+      return {
+        allowed,
+        limit: this.bucket.capacity,
+        remaining: Math.floor(remaining),
+        retryAfter: allowed ? 0 : Math.ceil((price - remaining) / this.bucket.refillPerSecond)
+      };
+    } catch (error) {
+      this.counters.errors++;
+      logger.error(`Rate limit check failed for ${key}:`, error);
+      return { allowed: true, limit: this.bucket.capacity, remaining: this.bucket.capacity, retryAfter: 0 };
+    }
+  }
+
+  stats(): { allowed: number; limited: number; errors: number } {
+    return { ...this.counters };
+  }
+}
+
+/**
+ * Limiter for API callers: RATE_LIMIT_MAX_REQUESTS tokens each, refilled
+ * evenly over RATE_LIMIT_WINDOW_MS
+ */
+export function createRateLimiter(env: NodeJS.ProcessEnv = process.env): RateLimiter {
+  const capacity = parseInt(env.RATE_LIMIT_MAX_REQUESTS || '100');
+  const windowMs = parseInt(env.RATE_LIMIT_WINDOW_MS || '900000');
+
+  return new RateLimiter({ capacity, refillPerSecond: capacity / (windowMs / 1000) });
+}
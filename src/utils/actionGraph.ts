@@ -0,0 +1,155 @@
+/**
+ * Dependency graph scheduling for rebalance actions.
+ *
+ * Actions reference each other by id through `dependencies`. The graph is
+ * validated up front (unique ids, known dependencies, no cycles). Each action
+ * starts as soon as all of its parents have succeeded, so independent branches
+ * proceed concurrently, while actions sharing a lane (e.g. the same chain,
+ * where transactions share a nonce sequence) still run one after another.
+ */
+
+export interface GraphAction {
+  id: string;
+  priority: number;
+  dependencies?: string[];
+}
+
+export type ActionOutcome =
+  | { status: 'succeeded' }
+  | { status: 'failed'; error: string }
+  | { status: 'skipped'; blockedBy: string };
+
+export interface ActionGraphHooks<T extends GraphAction> {
+  /** Execute one action; a thrown error marks it as failed */
+  run(action: T): Promise<void>;
+  /** Actions with the same lane key never run concurrently */
+  lane?(action: T): string;
+  /** Called for every dependent that will not run because `blockedBy` failed */
+  onSkip?(action: T, blockedBy: string): void | Promise<void>;
+}
+
+/**
+ * Check the graph and return the actions in a valid execution order
+ * (dependencies first, ties broken by priority).
+ */
+export function validateActionGraph<T extends GraphAction>(actions: T[]): T[] {
+  const byId = new Map<string, T>();
+
+  for (const action of actions) {
+    if (!action.id) {
+      throw new Error('Every rebalance action needs an id');
+    }
+    if (byId.has(action.id)) {
+      throw new Error(`Duplicate action id: ${action.id}`);
+    }
+    byId.set(action.id, action);
+  }
+
+  for (const action of actions) {
+    for (const dependency of action.dependencies || []) {
+      if (!byId.has(dependency)) {
+        throw new Error(`Action ${action.id} depends on unknown action ${dependency}`);
+      }
+      if (dependency === action.id) {
+        throw new Error(`Action ${action.id} depends on itself`);
+      }
+    }
+  }
+
+  // Kahn's algorithm; anything left over sits on a cycle
+  const remaining = new Map(actions.map(a => [a.id, new Set(a.dependencies || [])]));
+  const ordered: T[] = [];
+
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.entries())
+      .filter(([, deps]) => deps.size === 0)
+      .map(([id]) => byId.get(id)!)
+      .sort(byPriority);
+
+    if (ready.length === 0) {
+      throw new Error(`Dependency cycle between actions: ${Array.from(remaining.keys()).join(', ')}`);
+    }
+
+    for (const action of ready) {
+      remaining.delete(action.id);
+      ordered.push(action);
+    }
+    for (const deps of remaining.values()) {
+      ready.forEach(action => deps.delete(action.id));
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Run every action in the graph, returning the outcome per action id. A failed
+ * action halts all of its (transitive) dependents; unrelated branches carry on.
+ */
+export async function runActionGraph<T extends GraphAction>(
+  actions: T[],
+  hooks: ActionGraphHooks<T>
+): Promise<Map<string, ActionOutcome>> {
+  const ordered = validateActionGraph(actions);
+  const outcomes = new Map<string, ActionOutcome>();
+  const lanes = new Map<string, Promise<void>>();
+  const started = new Set<string>();
+
+  const runInLane = (action: T): Promise<void> => {
+    const key = hooks.lane?.(action);
+    const execute = async () => {
+      try {
+        await hooks.run(action);
+        outcomes.set(action.id, { status: 'succeeded' });
+      } catch (error) {
+        outcomes.set(action.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    };
+
+    if (key === undefined) {
+      return execute();
+    }
+
+    const next = (lanes.get(key) || Promise.resolve()).then(execute);
+    lanes.set(key, next);
+    return next;
+  };
+
+  const inFlight = new Map<string, Promise<string>>();
+
+  while (outcomes.size < ordered.length) {
+    for (const action of ordered) {
+      if (started.has(action.id)) continue;
+
+      const dependencies = action.dependencies || [];
+      const blockedBy = dependencies.find(dep => {
+        const outcome = outcomes.get(dep);
+        return outcome !== undefined && outcome.status !== 'succeeded';
+      });
+
+      if (blockedBy) {
+        started.add(action.id);
+        outcomes.set(action.id, { status: 'skipped', blockedBy });
+        await hooks.onSkip?.(action, blockedBy);
+      } else if (dependencies.every(dep => outcomes.get(dep)?.status === 'succeeded')) {
+        started.add(action.id);
+        inFlight.set(action.id, runInLane(action).then(() => action.id));
+      }
+    }
+
+    if (inFlight.size === 0) break;
+
+    // Re-evaluate as soon as any action settles so its dependents start right away
+    const settled = await Promise.race(inFlight.values());
+    inFlight.delete(settled);
+  }
+
+  return outcomes;
+}
+
+function byPriority(a: GraphAction, b: GraphAction): number {
+  return a.priority - b.priority;
+}
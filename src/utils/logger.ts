@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { createWriteStream } from 'fs';
 import { join } from 'path';
 
@@ -17,50 +18,169 @@ const LOG_LEVELS: LogLevel = {
 
 const LOG_LEVEL_NAMES = ['ERROR', 'WARN', 'INFO', 'DEBUG'];
 
-class Logger {
-  private logLevel: number;
-  private logToFile: boolean;
-  private logStream?: NodeJS.WritableStream;
+/**
+ * Fields attached to every log line written while handling one request,
+ * e.g. its correlation id
+ */
+export interface LogContext {
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run `fn` with `context` added to every log line it (and anything it
+ * awaits or schedules) writes
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run(context, fn);
+}
+
+export function getLogContext(): LogContext | undefined {
+  return logContext.getStore();
+}
+
+const REDACTED = '[REDACTED]';
+
+// Matched against object keys at any depth
+const SENSITIVE_KEYS = /private_?key|secret|signature|seed_?phrase|mnemonic|password|authorization|api_?key/i;
+
+// Matched inside strings. Bare 32-byte hex is left alone since it is usually a tx hash.
+const SENSITIVE_PATTERNS: [RegExp, string][] = [
+  [/\b(dfs|dfk)_[A-Za-z0-9_-]{20,}/g, `$1_${REDACTED}`], // session tokens and API keys
+  [/\bBearer\s+\S+/gi, `Bearer ${REDACTED}`],
+  [/\bed25519:[1-9A-HJ-NP-Za-km-z]{60,}/g, `ed25519:${REDACTED}`], // NEAR secret keys (public keys are shorter)
+  [/\b0x[0-9a-fA-F]{130}\b/g, REDACTED] // 65-byte ECDSA signatures
+];
+
+export function redactString(value: string): string {
+  return SENSITIVE_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+}
+
+/**
+ * Copy of `value` safe to log: secrets under sensitive keys or in known
+ * formats are replaced and errors become plain objects
+ */
+export function redact(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (seen.has(value) || depth >= 6) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      stack: value.stack ? redactString(value.stack) : undefined
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEYS.test(key) ? REDACTED : redact(item, depth + 1, seen);
+  }
+  return result;
+}
+
+/**
+ * Where log lines go; shared by a logger and all of its children
+ */
+class LogSink {
+  level: number;
+  format: 'json' | 'pretty';
+  private stream?: NodeJS.WritableStream;
 
   constructor() {
-    this.logLevel = LOG_LEVELS[process.env.LOG_LEVEL as keyof LogLevel] ?? LOG_LEVELS.INFO;
-    this.logToFile = process.env.LOG_TO_FILE === 'true';
+    this.level = LOG_LEVELS[process.env.LOG_LEVEL as keyof LogLevel] ?? LOG_LEVELS.INFO;
+    this.format = process.env.LOG_FORMAT === 'pretty' ? 'pretty' : 'json';
 
-    if (this.logToFile) {
+    if (process.env.LOG_TO_FILE === 'true') {
       const logDir = process.env.LOG_DIR || './logs';
-      const logFile = join(logDir, 'defiflow-agent.log');
-      this.logStream = createWriteStream(logFile, { flags: 'a' });
+      this.stream = createWriteStream(join(logDir, 'defiflow-agent.log'), { flags: 'a' });
     }
   }
 
-  private formatMessage(level: string, message: string, meta?: any): string {
-    const timestamp = new Date().toISOString();
-    const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
-    return `[${timestamp}] [${level}] ${message}${metaStr}`;
+  write(level: number, entry: Record<string, unknown>): void {
+    const line = JSON.stringify(entry);
+
+    if (this.format === 'pretty') {
+      const colors = ['\x1b[31m', '\x1b[33m', '\x1b[36m', '\x1b[90m']; // error red, warn yellow, info cyan, debug gray
+      const { time, level: levelName, msg, ...fields } = entry;
+      const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+      process.stdout.write(`${colors[level]}[${time}] [${String(levelName).toUpperCase()}] ${msg}${extra}\x1b[0m\n`);
+    } else {
+      process.stdout.write(`${line}\n`);
+    }
+
+    this.stream?.write(`${line}\n`);
+  }
+
+  async close(): Promise<void> {
+    const stream = this.stream;
+    if (stream && 'end' in stream) {
+      this.stream = undefined;
+      return new Promise((resolve) => {
+        stream.end(() => resolve());
+      });
+    }
+  }
+}
+
+/**
+ * JSON-lines logger. Each line carries the time, level, message, the
+ * logger's bound fields (see `child`), the current request's log context and
+ * any `meta` passed in, with secrets redacted. LOG_FORMAT=pretty prints
+ * colored text for local development instead.
+ */
+class Logger {
+  private timers: Map<string, number> = new Map();
+
+  constructor(private sink: LogSink = new LogSink(), private fields: Record<string, unknown> = {}) {}
+
+  /**
+   * Logger that adds `fields` (e.g. `{ module }`) to every line
+   */
+  child(fields: Record<string, unknown>): Logger {
+    return new Logger(this.sink, { ...this.fields, ...fields });
   }
 
   private log(level: number, message: string, meta?: any): void {
-    if (level > this.logLevel) return;
-
-    const levelName = LOG_LEVEL_NAMES[level];
-    const formattedMessage = this.formatMessage(levelName, message, meta);
-
-    // Console output with colors
-    const colors = {
-      ERROR: '\x1b[31m', // Red
-      WARN: '\x1b[33m',  // Yellow
-      INFO: '\x1b[36m',  // Cyan
-      DEBUG: '\x1b[90m', // Gray
-      RESET: '\x1b[0m'
+    if (level > this.sink.level) return;
+
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level: LOG_LEVEL_NAMES[level].toLowerCase(),
+      msg: redactString(message),
+      ...this.fields,
+      ...getLogContext()
     };
 
-    const color = colors[levelName as keyof typeof colors] || colors.RESET;
-    console.log(`${color}${formattedMessage}${colors.RESET}`);
-
-    // File output
-    if (this.logToFile && this.logStream) {
-      this.logStream.write(`${formattedMessage}\n`);
+    // Callers pass either an error, a bag of fields or a single value
+    if (meta instanceof Error) {
+      entry.error = redact(meta);
+    } else if (meta !== undefined && meta !== null && typeof meta === 'object' && !Array.isArray(meta)) {
+      Object.assign(entry, redact(meta));
+    } else if (meta !== undefined) {
+      entry.meta = redact(meta);
     }
+
+    this.sink.write(level, entry);
   }
 
   error(message: string, meta?: any): void {
@@ -80,27 +200,36 @@ class Logger {
   }
 
   // Utility method for HTTP request logging
-  request(method: string, url: string, statusCode: number, duration: number): void {
-    this.info(`${method} ${url} ${statusCode} - ${duration}ms`);
+  request(method: string, path: string, status: number, durationMs: number): void {
+    this.info(`${method} ${path} ${status}`, { method, path, status, durationMs });
   }
 
   // Utility method for performance timing
   time(label: string): void {
-    console.time(`[PERF] ${label}`);
+    this.timers.set(label, Date.now());
   }
 
   timeEnd(label: string): void {
-    console.timeEnd(`[PERF] ${label}`);
+    const started = this.timers.get(label);
+    if (started !== undefined) {
+      this.timers.delete(label);
+      this.debug(`[PERF] ${label}`, { durationMs: Date.now() - started });
+    }
   }
 
   // Graceful shutdown
   async close(): Promise<void> {
-    if (this.logStream && 'end' in this.logStream) {
-      return new Promise((resolve) => {
-        this.logStream!.end(() => resolve());
-      });
-    }
+    await this.sink.close();
   }
 }
 
-export const logger = new Logger();
\ No newline at end of file
+export type { Logger };
+
+export const logger = new Logger();
+
+/**
+ * Logger for one module, e.g. `createLogger('RebalancingService')`
+ */
+export function createLogger(module: string): Logger {
+  return logger.child({ module });
+}
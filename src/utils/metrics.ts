@@ -0,0 +1,246 @@
+/**
+ * Minimal Prometheus instrumentation: counters, gauges and histograms with
+ * labels, rendered in the text exposition format by MetricsRegistry.render().
+ */
+
+type Labels = Record<string, string>;
+
+// Seconds; covers cache hits through MPC signatures that poll for a minute
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const pairs = Object.entries({ ...labels, ...extra })
+    .map(([name, value]) => `${name}="${String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} can only go up`);
+    }
+
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels, value: (current?.value ?? 0) + amount });
+  }
+
+  samples(): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  samples(): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing; call the returned function to observe the elapsed seconds.
+   * Labels passed to it are added to the ones given here (e.g. an outcome).
+   */
+  startTimer(labels: Labels = {}): (extra?: Labels) => number {
+    const started = process.hrtime.bigint();
+
+    return (extra: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      this.observe({ ...labels, ...extra }, seconds);
+      return seconds;
+    };
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: formatValue(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+type Collector = () => void | Promise<void>;
+
+/**
+ * Named set of metrics. Collectors run before each render to refresh gauges
+ * that are read from elsewhere (queue sizes, cache statistics, ...).
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: Collector[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.add(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.add(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.add(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Run `collector` before every render; returns a function that removes it
+   */
+  onCollect(collector: Collector): () => void {
+    this.collectors.push(collector);
+    return () => {
+      this.collectors = this.collectors.filter(c => c !== collector);
+    };
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map(collector => collector()));
+    return Array.from(this.metrics.values()).map(metric => metric.render()).join('\n\n') + '\n';
+  }
+
+  private add<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// Agent metrics, recorded by the modules they describe
+
+export const protocolFetchDuration = metrics.histogram(
+  'defiflow_protocol_fetch_duration_seconds',
+  'Time to fetch yield opportunities from one protocol'
+);
+
+export const protocolFetchErrors = metrics.counter(
+  'defiflow_protocol_fetch_errors_total',
+  'Failed yield opportunity fetches per protocol'
+);
+
+export const cacheLookups = metrics.gauge(
+  'defiflow_cache_lookups',
+  'Cache lookups since startup by namespace and result (hit, stale_hit, miss, coalesced)'
+);
+
+export const cacheHitRatio = metrics.gauge(
+  'defiflow_cache_hit_ratio',
+  'Share of cache lookups served from the cache, including stale hits'
+);
+
+export const cacheEntries = metrics.gauge(
+  'defiflow_cache_entries',
+  'Unexpired cache entries written by this process, per namespace'
+);
+
+export const monitoringCycleDuration = metrics.histogram(
+  'defiflow_monitoring_cycle_duration_seconds',
+  'Duration of one run of a background monitoring loop'
+);
+
+export const rebalanceExecutions = metrics.counter(
+  'defiflow_rebalance_executions_total',
+  'Finished rebalance executions by strategy and final status'
+);
+
+export const rebalanceDuration = metrics.histogram(
+  'defiflow_rebalance_duration_seconds',
+  'Time from start to final status of a rebalance execution',
+  [1, 5, 15, 30, 60, 120, 300, 600, 1800]
+);
+
+export const executionQueueSize = metrics.gauge(
+  'defiflow_rebalance_queue_size',
+  'Rebalance executions currently running'
+);
+
+export const gasUsed = metrics.counter(
+  'defiflow_gas_used_total',
+  'Gas used by confirmed rebalance transactions per chain'
+);
+
+export const signatureRequestDuration = metrics.histogram(
+  'defiflow_signature_request_duration_seconds',
+  'Time from requesting an MPC chain signature until it is available, by chain and outcome'
+);
+
+/**
+ * Run one protocol's opportunity fetch, recording how long it took. Fetchers
+ * that swallow their errors count them in protocolFetchErrors themselves.
+ */
+export async function timeProtocolFetch<T>(chain: string, protocol: string, fetch: () => Promise<T>): Promise<T> {
+  const stop = protocolFetchDuration.startTimer({ chain, protocol });
+  try {
+    return await fetch();
+  } finally {
+    stop();
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Guards for outbound requests to user-supplied URLs (alert webhooks, push
+ * endpoints): only public unicast addresses may be reached, never the agent's
+ * own network.
+ */
+
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns';
+import { Agent } from 'https';
+import type { LookupAddress, LookupOptions } from 'dns';
+
+const nonPublic = new BlockList();
+
+[
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4] // reserved, broadcast
+].forEach(([network, prefix]) => nonPublic.addSubnet(network as string, prefix as number, 'ipv4')); // also matches IPv4-mapped IPv6
+
+[
+  ['::', 128], // unspecified
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8] // multicast
+].forEach(([network, prefix]) => nonPublic.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return !nonPublic.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Drop-in for dns.lookup that fails when the host resolves to any non-public
+ * address. Used as the agent's lookup, so the address checked is the one
+ * connected to and a DNS answer cannot change in between.
+ */
+export function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      const refused: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to ${blocked ? `non-public address ${blocked.address}` : 'no address'}`
+      );
+      refused.code = 'EADDRNOTPUBLIC';
+      callback(refused, '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+// Connects only to public addresses, checked on the address actually dialled
+export const publicAgent = new Agent({ lookup: publicLookup });
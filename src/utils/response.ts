@@ -0,0 +1,14 @@
+import { getLogContext } from './logger';
+import type { APIResponse } from '../types';
+
+/**
+ * `metadata` of an APIResponse: `fields` plus the time and the correlation
+ * id of the request being handled
+ */
+export function responseMetadata(fields: Record<string, unknown> = {}): NonNullable<APIResponse['metadata']> {
+  return {
+    ...fields,
+    timestamp: new Date().toISOString(),
+    requestId: getLogContext()?.requestId
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Helpers for bucketed history series (yield snapshots, position history)
+ */
+
+export type HistoryInterval = 'hour' | 'day';
+
+export const HISTORY_INTERVALS: HistoryInterval[] = ['hour', 'day'];
+
+export const INTERVAL_SECONDS: Record<HistoryInterval, number> = {
+  hour: 60 * 60,
+  day: 24 * 60 * 60
+};
+
+/**
+ * Hourly buckets up to a week, daily beyond that
+ */
+export function defaultInterval(days: number): HistoryInterval {
+  return days <= 7 ? 'hour' : 'day';
+}
+
+/**
+ * Start of the UTC bucket containing `date`
+ */
+export function bucketStart(date: Date, interval: HistoryInterval): Date {
+  const size = INTERVAL_SECONDS[interval] * 1000;
+  return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+/**
+ * Put bucketed points on a regular grid from `since` to `until`. Empty buckets
+ * after the first sample repeat the previous values and are flagged `filled`;
+ * nothing is invented before the first sample.
+ */
+export function fillGaps<T extends { timestamp: Date }>(
+  points: T[],
+  interval: HistoryInterval,
+  since: Date,
+  until: Date = new Date()
+): (T & { filled?: boolean })[] {
+  const size = INTERVAL_SECONDS[interval] * 1000;
+  const byBucket = new Map(points.map(point => [bucketStart(point.timestamp, interval).getTime(), point]));
+  const series: (T & { filled?: boolean })[] = [];
+  let previous: T | undefined;
+
+  for (let t = bucketStart(since, interval).getTime(); t <= until.getTime(); t += size) {
+    const point = byBucket.get(t);
+
+    if (point) {
+      series.push(point);
+      previous = point;
+    } else if (previous) {
+      series.push({ ...previous, timestamp: new Date(t), filled: true });
+    }
+  }
+
+  return series;
+}
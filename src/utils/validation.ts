@@ -2,6 +2,10 @@
  * Input validation utilities for DeFiFlow agent
  */
 
+import { isIP } from 'net';
+import { validateActionGraph } from './actionGraph';
+import { isPublicAddress } from './network';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -38,11 +42,11 @@ export function validateNearAddress(address: string): ValidationResult {
     return { isValid: false, errors };
   }
 
-  // NEAR addresses can be account names (ending with .near) or implicit addresses (64 hex chars)
-  const nearAccountRegex = /^[a-z0-9_-]+\.near$/;
-  const nearImplicitRegex = /^[a-f0-9]{64}$/;
+  // NEAR account ID rules: 2-64 chars, dot-separated parts of lowercase alphanumerics joined by
+  // single - or _ (alice.near, bob.testnet, app.alice.near); implicit accounts (64 hex chars) match too
+  const nearAccountRegex = /^(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+$/;
 
-  if (!nearAccountRegex.test(address) && !nearImplicitRegex.test(address)) {
+  if (address.length < 2 || address.length > 64 || !nearAccountRegex.test(address)) {
     errors.push('Invalid NEAR address format');
   }
 
@@ -57,16 +61,16 @@ export function validateWalletAddress(address: string, chain?: string): Validati
     // Try to auto-detect chain
     if (address.startsWith('0x') && address.length === 42) {
       return validateEthereumAddress(address);
-    } else if (address.includes('.near') || address.length === 64) {
-      return validateNearAddress(address);
-    } else {
-      return { isValid: false, errors: ['Unable to determine address format'] };
     }
+    // Anything else has to be a NEAR account ID (named, sub-account or implicit)
+    return validateNearAddress(address);
   }
 
   switch (chain.toLowerCase()) {
     case 'ethereum':
     case 'eth':
+    case 'bsc':
+    case 'polygon':
       return validateEthereumAddress(address);
     case 'near':
       return validateNearAddress(address);
@@ -245,7 +249,7 @@ export function validateProtocol(protocol: string): ValidationResult {
  */
 export function validateChain(chain: string): ValidationResult {
   const errors: string[] = [];
-  const supportedChains = ['ethereum', 'near', 'eth'];
+  const supportedChains = ['ethereum', 'near', 'eth', 'bsc', 'polygon'];
 
   if (!chain) {
     errors.push('Chain is required');
@@ -284,6 +288,79 @@ export function validateRebalanceStrategy(strategy: string): ValidationResult {
   return { isValid: errors.length === 0, errors };
 }
 
+/**
+ * Validate rebalance actions as submitted for execution
+ */
+export function validateRebalanceActions(actions: any[]): ValidationResult {
+  const errors: string[] = [];
+  const actionTypes = ['withdraw', 'deposit', 'swap', 'migrate'];
+
+  if (!actions || actions.length === 0) {
+    errors.push('At least one action is required');
+    return { isValid: false, errors };
+  }
+
+  const ids = new Set(actions.map(action => action?.id));
+
+  actions.forEach((action, i) => {
+    if (typeof action !== 'object' || action === null) {
+      errors.push(`Action ${i} must be an object`);
+      return;
+    }
+    if (typeof action.id !== 'string' || !action.id) {
+      errors.push(`Action ${i}: id is required`);
+    }
+    if (!actionTypes.includes(action.type)) {
+      errors.push(`Action ${i}: type must be one of ${actionTypes.join(', ')}`);
+    }
+    for (const field of ['toProtocol', 'toChain', 'token']) {
+      if (typeof action[field] !== 'string' || !action[field]) {
+        errors.push(`Action ${i}: ${field} is required`);
+      }
+    }
+    if (action.toChain && !validateChain(action.toChain).isValid) {
+      errors.push(`Action ${i}: Unsupported chain: ${action.toChain}`);
+    }
+    errors.push(...validateAmount(action.amount).errors.map(e => `Action ${i}: ${e}`));
+    if (typeof action.estimatedGas !== 'number' || action.estimatedGas < 0) {
+      errors.push(`Action ${i}: estimatedGas must be a non-negative number`);
+    }
+    if (typeof action.priority !== 'number') {
+      errors.push(`Action ${i}: priority must be a number`);
+    }
+    if (action.dependencies !== undefined &&
+        (!Array.isArray(action.dependencies) || action.dependencies.some((id: unknown) => !ids.has(id)))) {
+      errors.push(`Action ${i}: dependencies must reference other action ids`);
+    }
+  });
+
+  if (ids.size !== actions.length) {
+    errors.push('Action ids must be unique');
+  }
+
+  // Self-dependencies and cycles can't be scheduled
+  if (errors.length === 0) {
+    try {
+      validateActionGraph(actions);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Invalid action dependencies');
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate a value against a fixed set of options
+ */
+export function validateEnum(value: string, options: readonly string[]): ValidationResult {
+  if (!options.includes(value)) {
+    return { isValid: false, errors: [`Must be one of ${options.join(', ')}`] };
+  }
+
+  return { isValid: true, errors: [] };
+}
+
 /**
  * Validate email address
  */
@@ -323,6 +400,31 @@ export function validateURL(url: string): ValidationResult {
   return { isValid: errors.length === 0, errors };
 }
 
+/**
+ * Validate a URL the agent will post to: https only, and no host that names
+ * a loopback, private or link-local address. Hostnames are resolved and
+ * checked again when connecting.
+ */
+export function validateWebhookURL(url: string): ValidationResult {
+  const result = validateURL(url);
+  if (!result.isValid) {
+    return result;
+  }
+
+  const errors: string[] = [];
+  const { protocol, hostname } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (protocol !== 'https:') {
+    errors.push('Must use https');
+  }
+  if (host === 'localhost' || host.endsWith('.localhost') || (isIP(host) !== 0 && !isPublicAddress(host))) {
+    errors.push('Must point to a public address');
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
 /**
  * Validate transaction hash
  */
@@ -403,7 +505,8 @@ export function validateAndSanitizeInput(
   input: any,
   schema: Record<string, {
     required?: boolean;
-    type: 'string' | 'number' | 'boolean' | 'array';
+    nullable?: boolean; // pass an explicit null through, e.g. to clear a setting
+    type: 'string' | 'number' | 'boolean' | 'array' | 'object';
     validator?: (value: any) => ValidationResult;
     sanitizer?: (value: any) => any;
   }>
@@ -420,6 +523,11 @@ export function validateAndSanitizeInput(
       continue;
     }
 
+    if (value === null && rules.nullable) {
+      sanitizedInput[key] = null;
+      continue;
+    }
+
     // Skip validation for optional undefined fields
     if (value === undefined || value === null) {
       continue;
@@ -436,8 +544,9 @@ export function validateAndSanitizeInput(
         typedValue = rules.sanitizer ? rules.sanitizer(value) : sanitizeString(value);
         break;
       case 'number':
-        const numValue = typeof value === 'string' ? parseFloat(value) : value;
-        if (typeof numValue !== 'number' || isNaN(numValue)) {
+        // The whole string must be a number: '5abc' and '' are rejected
+        const numValue = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof numValue !== 'number' || !Number.isFinite(numValue)) {
           errors.push(`${key} must be a number`);
           continue;
         }
@@ -455,6 +564,12 @@ export function validateAndSanitizeInput(
           continue;
         }
         break;
+      case 'object':
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          errors.push(`${key} must be an object`);
+          continue;
+        }
+        break;
     }
 
     // Custom validator
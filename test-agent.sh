@@ -15,7 +15,11 @@ curl -s "${BASE_URL}/api/agent/status" | python3 -m json.tool
 
 # Test yield monitoring
 echo "\n💰 Testing Yield Monitor:"
-curl -s "${BASE_URL}/api/yield/monitor" | python3 -m json.tool
+curl -s "${BASE_URL}/api/yield-monitor/monitor" | python3 -m json.tool
+
+# Test yield opportunities
+echo "\n🌾 Testing Yield Opportunities:"
+curl -s "${BASE_URL}/api/yield/opportunities?sort=apy&limit=5" | python3 -m json.tool
 
 # Test current positions
 echo "\n📈 Testing Current Positions:"